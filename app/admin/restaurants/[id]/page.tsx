@@ -0,0 +1,589 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ApiTokenForm } from "@/components/api-token-form";
+import { authHeaders } from "@/lib/api-token";
+
+type RestaurantDetails = {
+  name: string;
+  description: string;
+  address: string;
+  phone: string;
+  email: string;
+  cuisine: string;
+  priceRange: string;
+  defaultSeatingMinutes: number;
+  timezone: string;
+  currency: string;
+};
+
+type HoursRow = {
+  dayOfWeek: number;
+  name: string | null;
+  openTime: string;
+  closeTime: string;
+  isClosed: boolean;
+};
+
+type DateOverride = {
+  date: string;
+  openTime: string | null;
+  closeTime: string | null;
+  isClosed: boolean;
+  reason: string | null;
+};
+
+type RestaurantTable = {
+  id: number;
+  tableNumber: string;
+  capacity: number;
+  isActive: boolean;
+};
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export default function AdminRestaurantPage() {
+  const { id } = useParams<{ id: string }>();
+  const [details, setDetails] = useState<RestaurantDetails | null>(null);
+  const [hours, setHours] = useState<HoursRow[]>([]);
+  const [overrides, setOverrides] = useState<DateOverride[]>([]);
+  const [newOverride, setNewOverride] = useState({
+    date: "",
+    isClosed: true,
+    openTime: "17:00",
+    closeTime: "23:00",
+    reason: "",
+  });
+  const [tables, setTables] = useState<RestaurantTable[]>([]);
+  const [newTable, setNewTable] = useState({ tableNumber: "", capacity: "" });
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const fetchRestaurant = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/restaurants/${id}`);
+      const data = await response.json() as {
+        restaurant?: RestaurantDetails & {
+          openingHours: HoursRow[];
+          openingHoursOverrides: DateOverride[];
+          tables: RestaurantTable[];
+        };
+        error?: string;
+      };
+
+      if (data.restaurant) {
+        const { openingHours, openingHoursOverrides, tables, ...restaurantDetails } = data.restaurant;
+        setDetails(restaurantDetails);
+        // Days without open rows are closed, so closed rows don't need editing
+        setHours(
+          openingHours
+            .filter((h) => !h.isClosed)
+            .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.openTime.localeCompare(b.openTime))
+        );
+        setOverrides(openingHoursOverrides);
+        setTables(tables);
+      } else {
+        setStatus({ type: "error", message: data.error || "Restaurant not found" });
+      }
+    } catch (error) {
+      console.error("Error fetching restaurant:", error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchRestaurant();
+  }, [fetchRestaurant]);
+
+  // Send a change to the API and report the outcome
+  const save = async (path: string, method: string, body: unknown, successMessage: string) => {
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/restaurants/${id}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        setStatus({ type: "success", message: successMessage });
+        fetchRestaurant();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to save changes" });
+      }
+    } catch (error) {
+      console.error("Error saving restaurant:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const updateHoursRow = (index: number, changes: Partial<HoursRow>) => {
+    setHours(hours.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  if (!details) {
+    return (
+      <>
+        <Header />
+        <div className="flex items-center justify-center min-h-screen">
+          <p className="text-muted-foreground">{status.message || "Loading restaurant..."}</p>
+        </div>
+      </>
+    );
+  }
+
+  const textFields = [
+    { id: "name", label: "Name" },
+    { id: "cuisine", label: "Cuisine" },
+    { id: "address", label: "Address" },
+    { id: "phone", label: "Phone" },
+    { id: "email", label: "Email" },
+  ] as const;
+
+  return (
+    <>
+      <Header />
+      <div className="mx-auto p-6 max-w-6xl">
+        <div className="mb-6">
+          <Link href="/admin/restaurants" className="text-sm text-muted-foreground hover:underline">
+            ← All restaurants
+          </Link>
+          <h1 className="text-3xl font-bold">{details.name}</h1>
+          <p className="text-muted-foreground">Edit details, opening hours and tables</p>
+        </div>
+        <div className="mb-6 max-w-md">
+          <ApiTokenForm onSave={fetchRestaurant} />
+        </div>
+
+        {status.type && (
+          <div
+            className={`mb-6 p-3 rounded-md text-sm ${
+              status.type === "success"
+                ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  save("", "PUT", details, "Details saved.");
+                }}
+                className="space-y-4"
+              >
+                {textFields.map((field) => (
+                  <div key={field.id}>
+                    <Label htmlFor={field.id} className="mb-2 block">{field.label}</Label>
+                    <Input
+                      id={field.id}
+                      required
+                      value={details[field.id]}
+                      onChange={(e) => setDetails({ ...details, [field.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <Label htmlFor="description" className="mb-2 block">Description</Label>
+                  <Textarea
+                    id="description"
+                    required
+                    value={details.description}
+                    onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="priceRange" className="mb-2 block">Price Range</Label>
+                    <Select
+                      value={details.priceRange}
+                      onValueChange={(value: string) => setDetails({ ...details, priceRange: value })}
+                    >
+                      <SelectTrigger id="priceRange">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {["$", "$$", "$$$", "$$$$"].map((range) => (
+                          <SelectItem key={range} value={range}>
+                            {range}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="defaultSeatingMinutes" className="mb-2 block">Seating (minutes)</Label>
+                    <Input
+                      id="defaultSeatingMinutes"
+                      type="number"
+                      min={15}
+                      max={480}
+                      value={details.defaultSeatingMinutes}
+                      onChange={(e) =>
+                        setDetails({ ...details, defaultSeatingMinutes: parseInt(e.target.value) })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="timezone" className="mb-2 block">Timezone</Label>
+                  <Input
+                    id="timezone"
+                    required
+                    placeholder="Europe/London"
+                    value={details.timezone}
+                    onChange={(e) => setDetails({ ...details, timezone: e.target.value })}
+                  />
+                  <p className="text-muted-foreground text-xs mt-1">
+                    Booking dates and times are in this timezone
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="currency" className="mb-2 block">Currency</Label>
+                  <Input
+                    id="currency"
+                    required
+                    placeholder="USD"
+                    value={details.currency}
+                    onChange={(e) => setDetails({ ...details, currency: e.target.value.toUpperCase() })}
+                  />
+                  <p className="text-muted-foreground text-xs mt-1">
+                    Deposits and cancellation fees are charged in this currency
+                  </p>
+                </div>
+
+                <Button type="submit" className="w-full cursor-pointer">
+                  Save Details
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Opening Hours</CardTitle>
+                <CardDescription>
+                  Add a row per service period, e.g. Lunch and Dinner. Days without hours are closed.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {hours.map((row, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={row.dayOfWeek.toString()}
+                      onValueChange={(value: string) => updateHoursRow(index, { dayOfWeek: parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DAY_NAMES.map((day, dayOfWeek) => (
+                          <SelectItem key={day} value={dayOfWeek.toString()}>
+                            {day}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Dinner"
+                      value={row.name ?? ""}
+                      onChange={(e) => updateHoursRow(index, { name: e.target.value || null })}
+                    />
+                    <Input
+                      type="time"
+                      value={row.openTime}
+                      onChange={(e) => updateHoursRow(index, { openTime: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      value={row.closeTime}
+                      onChange={(e) => updateHoursRow(index, { closeTime: e.target.value })}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="cursor-pointer"
+                      onClick={() => setHours(hours.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={() =>
+                      setHours([...hours, { dayOfWeek: 1, name: null, openTime: "17:00", closeTime: "22:00", isClosed: false }])
+                    }
+                  >
+                    Add Hours
+                  </Button>
+                  <Button
+                    className="cursor-pointer"
+                    onClick={() => save("/opening-hours", "PUT", { openingHours: hours }, "Opening hours saved.")}
+                  >
+                    Save Hours
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Special Dates</CardTitle>
+                <CardDescription>
+                  Closures and special hours replace the weekly hours on that date.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {overrides.length > 0 && (
+                  <div className="text-sm space-y-2">
+                    {overrides.map((override, index) => (
+                      <div key={index} className="flex items-center justify-between gap-2">
+                        <span>
+                          <span className="font-medium">{override.date}</span>{" "}
+                          {override.isClosed ? "Closed" : `${override.openTime}-${override.closeTime}`}
+                          {override.reason && (
+                            <span className="text-muted-foreground"> · {override.reason}</span>
+                          )}
+                        </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="cursor-pointer"
+                          onClick={() =>
+                            save(
+                              `/opening-hours/overrides/${override.date}`,
+                              "DELETE",
+                              undefined,
+                              `Special hours on ${override.date} removed.`
+                            )
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    save(
+                      `/opening-hours/overrides/${newOverride.date}`,
+                      "PUT",
+                      {
+                        isClosed: newOverride.isClosed,
+                        hours: newOverride.isClosed
+                          ? []
+                          : [{ openTime: newOverride.openTime, closeTime: newOverride.closeTime }],
+                        reason: newOverride.reason,
+                      },
+                      `Special hours on ${newOverride.date} saved.`
+                    );
+                  }}
+                  className="space-y-3"
+                >
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      required
+                      value={newOverride.date}
+                      onChange={(e) => setNewOverride({ ...newOverride, date: e.target.value })}
+                    />
+                    <Select
+                      value={newOverride.isClosed ? "closed" : "open"}
+                      onValueChange={(value: string) =>
+                        setNewOverride({ ...newOverride, isClosed: value === "closed" })
+                      }
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="closed">Closed all day</SelectItem>
+                        <SelectItem value="open">Special hours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {!newOverride.isClosed && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={newOverride.openTime}
+                        onChange={(e) => setNewOverride({ ...newOverride, openTime: e.target.value })}
+                      />
+                      <Input
+                        type="time"
+                        value={newOverride.closeTime}
+                        onChange={(e) => setNewOverride({ ...newOverride, closeTime: e.target.value })}
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Input
+                      placeholder="Reason, e.g. Christmas Day"
+                      value={newOverride.reason}
+                      onChange={(e) => setNewOverride({ ...newOverride, reason: e.target.value })}
+                    />
+                    <Button type="submit" variant="outline" className="cursor-pointer">
+                      Save Date
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tables</CardTitle>
+                <CardDescription>
+                  Inactive tables keep their bookings but can&apos;t be booked.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Table</TableHead>
+                      <TableHead>Seats</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tables.map((table) => (
+                      <TableRow key={table.id}>
+                        <TableCell className="font-medium">{table.tableNumber}</TableCell>
+                        <TableCell>{table.capacity}</TableCell>
+                        <TableCell>
+                          <Badge variant={table.isActive ? "secondary" : "outline"}>
+                            {table.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="cursor-pointer"
+                            onClick={() =>
+                              save(
+                                `/tables/${table.id}`,
+                                "PUT",
+                                { isActive: !table.isActive },
+                                `Table ${table.tableNumber} ${table.isActive ? "deactivated" : "activated"}.`
+                              )
+                            }
+                          >
+                            {table.isActive ? "Deactivate" : "Activate"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="cursor-pointer"
+                            onClick={() =>
+                              save(`/tables/${table.id}`, "DELETE", undefined, `Table ${table.tableNumber} deleted.`)
+                            }
+                          >
+                            Delete
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    save(
+                      "/tables",
+                      "POST",
+                      { tableNumber: newTable.tableNumber, capacity: parseInt(newTable.capacity) },
+                      `Table ${newTable.tableNumber} added.`
+                    );
+                    setNewTable({ tableNumber: "", capacity: "" });
+                  }}
+                  className="flex items-end gap-2"
+                >
+                  <div className="flex-1">
+                    <Label htmlFor="tableNumber" className="mb-2 block">Table</Label>
+                    <Input
+                      id="tableNumber"
+                      required
+                      placeholder="T7"
+                      value={newTable.tableNumber}
+                      onChange={(e) => setNewTable({ ...newTable, tableNumber: e.target.value })}
+                    />
+                  </div>
+                  <div className="w-24">
+                    <Label htmlFor="capacity" className="mb-2 block">Seats</Label>
+                    <Input
+                      id="capacity"
+                      type="number"
+                      required
+                      min={1}
+                      value={newTable.capacity}
+                      onChange={(e) => setNewTable({ ...newTable, capacity: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" variant="outline" className="cursor-pointer">
+                    Add Table
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
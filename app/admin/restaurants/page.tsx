@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ApiTokenForm } from "@/components/api-token-form";
+import { authHeaders } from "@/lib/api-token";
+
+type Restaurant = {
+  id: number;
+  name: string;
+  cuisine: string;
+  priceRange: string;
+  address: string;
+};
+
+const emptyRestaurant = {
+  name: "",
+  description: "",
+  address: "",
+  phone: "",
+  email: "",
+  cuisine: "",
+  priceRange: "$$",
+  timezone: "UTC",
+  currency: "USD",
+};
+
+export default function AdminRestaurantsPage() {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState(emptyRestaurant);
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  useEffect(() => {
+    fetchRestaurants();
+  }, []);
+
+  const fetchRestaurants = async () => {
+    try {
+      const response = await fetch("/api/restaurants");
+      const data = await response.json() as { restaurants: Restaurant[] };
+      setRestaurants(data.restaurants);
+      setLoading(false);
+    } catch (error) {
+      console.error("Error fetching restaurants:", error);
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch("/api/restaurants", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify(formData),
+      });
+      const data = await response.json() as { restaurant?: Restaurant; error?: string };
+
+      if (response.ok && data.restaurant) {
+        setStatus({ type: "success", message: `${data.restaurant.name} created. Add its hours and tables next.` });
+        setFormData(emptyRestaurant);
+        fetchRestaurants();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to create restaurant" });
+      }
+    } catch (error) {
+      console.error("Error creating restaurant:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const handleDelete = async (restaurant: Restaurant) => {
+    if (!confirm(`Delete ${restaurant.name} and all of its tables and past bookings?`)) return;
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/restaurants/${restaurant.id}`, {
+        method: "DELETE",
+        headers: authHeaders(),
+      });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        setStatus({ type: "success", message: `${restaurant.name} deleted.` });
+        fetchRestaurants();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to delete restaurant" });
+      }
+    } catch (error) {
+      console.error("Error deleting restaurant:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const textFields = [
+    { id: "name", label: "Name" },
+    { id: "cuisine", label: "Cuisine" },
+    { id: "description", label: "Description" },
+    { id: "address", label: "Address" },
+    { id: "phone", label: "Phone" },
+    { id: "email", label: "Email" },
+    { id: "timezone", label: "Timezone (e.g. Europe/London)" },
+    { id: "currency", label: "Currency (e.g. USD)" },
+  ] as const;
+
+  return (
+    <>
+      <Header />
+      <div className="mx-auto p-6 max-w-6xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">Restaurants</h1>
+          <p className="text-muted-foreground">Add restaurants and manage their hours and tables</p>
+        </div>
+        <div className="mb-6 max-w-md">
+          <ApiTokenForm onSave={fetchRestaurants} />
+        </div>
+
+        {status.type && (
+          <div
+            className={`mb-6 p-3 rounded-md text-sm ${
+              status.type === "success"
+                ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>All Restaurants</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-center text-muted-foreground py-8">Loading restaurants...</p>
+              ) : restaurants.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No restaurants yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Cuisine</TableHead>
+                      <TableHead>Price</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {restaurants.map((restaurant) => (
+                      <TableRow key={restaurant.id}>
+                        <TableCell>
+                          <p className="font-medium">{restaurant.name}</p>
+                          <p className="text-muted-foreground text-xs">{restaurant.address}</p>
+                        </TableCell>
+                        <TableCell>{restaurant.cuisine}</TableCell>
+                        <TableCell>{restaurant.priceRange}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button asChild variant="outline" size="sm">
+                            <Link href={`/admin/restaurants/${restaurant.id}`}>Edit</Link>
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="cursor-pointer"
+                            onClick={() => handleDelete(restaurant)}
+                          >
+                            Delete
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>New Restaurant</CardTitle>
+              <CardDescription>Requires an admin token</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="space-y-4">
+                {textFields.map((field) => (
+                  <div key={field.id}>
+                    <Label htmlFor={field.id} className="mb-2 block">{field.label}</Label>
+                    <Input
+                      id={field.id}
+                      type={field.id === "email" ? "email" : "text"}
+                      required
+                      value={formData[field.id]}
+                      onChange={(e) => setFormData({ ...formData, [field.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+
+                <div>
+                  <Label htmlFor="priceRange" className="mb-2 block">Price Range</Label>
+                  <Select
+                    value={formData.priceRange}
+                    onValueChange={(value: string) => setFormData({ ...formData, priceRange: value })}
+                  >
+                    <SelectTrigger id="priceRange">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {["$", "$$", "$$$", "$$$$"].map((range) => (
+                        <SelectItem key={range} value={range}>
+                          {range}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <Button type="submit" className="w-full cursor-pointer">
+                  Create Restaurant
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
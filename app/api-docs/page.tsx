@@ -12,6 +12,33 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 const apiEndpoints = [
+  {
+    method: "POST",
+    path: "/api/auth/tokens",
+    access: "admin",
+    description: "Issue an API token. Staff tokens are scoped to one restaurant. Send tokens as Authorization: Bearer <token>",
+    sampleRequest: {
+      role: "staff",
+      subject: "host@italiancorner.com",
+      restaurantId: 1,
+      expiresInDays: 30,
+    },
+    sampleResponse: {
+      token: "eyJ0eXAiOiJhdXRoIiwic3ViIjoi...",
+      role: "staff",
+      subject: "host@italiancorner.com",
+      restaurantId: 1,
+      expiresAt: "2025-11-14T12:00:00.000Z",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/auth/me",
+    description: "Describe the caller's role. Requests without a token are guests",
+    sampleResponse: {
+      session: { role: "staff", subject: "host@italiancorner.com", restaurantId: 1 },
+    },
+  },
   {
     method: "GET",
     path: "/api/restaurants",
@@ -34,29 +61,463 @@ const apiEndpoints = [
   {
     method: "GET",
     path: "/api/restaurants/:id",
-    description: "Fetch a specific restaurant with opening hours and tables",
+    description: "Fetch a specific restaurant with opening hours, upcoming special dates and tables",
     sampleResponse: {
       restaurant: {
         id: 1,
         name: "The Italian Corner",
         cuisine: "Italian",
         priceRange: "$$$",
+        defaultSeatingMinutes: 90,
+        timezone: "America/Los_Angeles",
+        currency: "USD",
         openingHours: [
-          { dayOfWeek: 0, openTime: "11:00", closeTime: "22:00", isClosed: false },
+          { dayOfWeek: 0, name: "Lunch", openTime: "12:00", closeTime: "15:00", isClosed: false },
+          { dayOfWeek: 0, name: "Dinner", openTime: "18:00", closeTime: "23:00", isClosed: false },
+        ],
+        openingHoursOverrides: [
+          { date: "2025-12-25", openTime: null, closeTime: null, isClosed: true, reason: "Christmas Day" },
+        ],
+        seatingDurations: [
+          { minPartySize: 5, maxPartySize: 20, durationMinutes: 120 },
         ],
         tables: [
           { id: 1, tableNumber: "T1", capacity: 2 },
         ],
+        depositRules: [
+          { minPartySize: 6, dayOfWeek: 5, startTime: "18:00", endTime: "22:00", amountCents: 5000 },
+        ],
+      },
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants",
+    access: "admin",
+    description: "Create a restaurant, optionally with its weekly opening hours and tables",
+    sampleRequest: {
+      name: "Harbor Grill",
+      description: "Seafood by the water",
+      address: "1 Pier St, San Francisco, CA 94111",
+      phone: "(415) 555-0199",
+      email: "hello@harborgrill.com",
+      cuisine: "Seafood",
+      priceRange: "$$$",
+      defaultSeatingMinutes: 90,
+      timezone: "America/Los_Angeles",
+      openingHours: [
+        { dayOfWeek: 5, name: "Lunch", openTime: "12:00", closeTime: "14:30", isClosed: false },
+        { dayOfWeek: 5, name: "Dinner", openTime: "17:30", closeTime: "23:00", isClosed: false },
+      ],
+      tables: [{ tableNumber: "T1", capacity: 4 }],
+    },
+    sampleResponse: {
+      restaurant: {
+        id: 5,
+        name: "Harbor Grill",
+        openingHours: [{ id: 30, dayOfWeek: 5, name: "Lunch", openTime: "12:00", closeTime: "14:30", isClosed: false }],
+        tables: [{ id: 21, tableNumber: "T1", capacity: 4, isActive: true }],
+      },
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id",
+    access: "staff",
+    description: "Update restaurant details. Only the fields sent are changed",
+    sampleRequest: {
+      phone: "(415) 555-0102",
+      defaultSeatingMinutes: 105,
+    },
+    sampleResponse: {
+      restaurant: { id: 1, name: "The Italian Corner", phone: "(415) 555-0102", defaultSeatingMinutes: 105 },
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/restaurants/:id",
+    access: "admin",
+    description: "Delete a restaurant with its hours, tables and past bookings. Refused while it has upcoming bookings",
+    sampleResponse: {
+      message: "Restaurant deleted successfully",
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/cancellation-policies",
+    access: "staff",
+    description: "Replace the cancellation policies. Cancelling less than freeCancellationHours before the visit is a late cancellation, charged lateCancellationFeeCents if set. Each party uses the policy with the highest minPartySize it reaches, so large parties can have their own rules. Without policies, cancelling is free until the visit",
+    sampleRequest: {
+      cancellationPolicies: [
+        { minPartySize: 1, freeCancellationHours: 24, lateCancellationFeeCents: null },
+        { minPartySize: 8, freeCancellationHours: 72, lateCancellationFeeCents: 5000 },
+      ],
+    },
+    sampleResponse: {
+      cancellationPolicies: [
+        { id: 1, restaurantId: 1, minPartySize: 1, freeCancellationHours: 24, lateCancellationFeeCents: null },
+        { id: 2, restaurantId: 1, minPartySize: 8, freeCancellationHours: 72, lateCancellationFeeCents: 5000 },
+      ],
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/customers/:customerId",
+    access: "staff",
+    description: "Get a customer's profile at the restaurant: visit history worked out from their bookings there, with the staff's allergies, notes and tags. computedTags are set from the bookings, such as regular after 3 visits",
+    sampleResponse: {
+      customer: { id: 1, name: "John Doe", email: "john@example.com", phone: "(555) 123-4567" },
+      profile: {
+        stats: { bookingCount: 6, visitCount: 4, noShowCount: 1, cancellationCount: 1, lastVisit: "2025-09-20", averagePartySize: 3.5 },
+        allergies: "Shellfish",
+        notes: "Prefers the quiet corner",
+        tags: ["VIP"],
+        computedTags: ["regular", "previous no-show"],
+        updatedAt: "2025-09-21T10:00:00.000Z",
+      },
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/customers/:customerId",
+    access: "staff",
+    description: "Update the allergies, notes and tags the restaurant keeps on a customer. Only the fields sent are changed; tags replace the existing ones",
+    sampleRequest: {
+      allergies: "Shellfish",
+      notes: "Prefers the quiet corner",
+      tags: ["VIP"],
+    },
+    sampleResponse: {
+      customer: { id: 1, name: "John Doe" },
+      profile: { allergies: "Shellfish", notes: "Prefers the quiet corner", tags: ["VIP"], computedTags: ["regular"] },
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/customers/duplicates",
+    access: "admin",
+    description: "List groups of customers who look like the same guest: the same mailbox (ignoring case, +tags and Gmail dots), the same phone number in E.164 form, or nearly the same name",
+    sampleResponse: {
+      duplicates: [
+        {
+          customers: [
+            { id: 1, name: "John Doe", email: "john@example.com", phone: "(555) 123-4567" },
+            { id: 9, name: "Jon Doe", email: "john.doe@work.example", phone: "555-123-4567" },
+          ],
+          reasons: ["phone", "name"],
+        },
+      ],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/customers/merge",
+    access: "admin",
+    description: "Merge duplicate customers into the survivor. Their bookings, waitlist entries and profiles move to it, each moved booking's history records the merge, and the duplicates are deleted. Up to 20 duplicates can be merged at once",
+    sampleRequest: { survivorId: 1, duplicateIds: [9] },
+    sampleResponse: {
+      customer: { id: 1, name: "John Doe", email: "john@example.com" },
+      mergedCustomerIds: [9],
+      movedBookings: 2,
+      movedWaitlistEntries: 0,
+      message: "Merged 1 customer into John Doe",
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/deposit-rules",
+    access: "staff",
+    description: "Replace the deposit rules. A booking matching a rule's minimum party size, and its day (0 is Sunday) and time window when set, needs a deposit of amountCents in the restaurant's currency. The largest matching deposit applies",
+    sampleRequest: {
+      depositRules: [
+        { minPartySize: 6, dayOfWeek: null, startTime: null, endTime: null, amountCents: 2500 },
+        { minPartySize: 6, dayOfWeek: 5, startTime: "18:00", endTime: "22:00", amountCents: 5000 },
+      ],
+    },
+    sampleResponse: {
+      depositRules: [
+        { id: 1, restaurantId: 1, minPartySize: 6, dayOfWeek: null, startTime: null, endTime: null, amountCents: 2500 },
+        { id: 2, restaurantId: 1, minPartySize: 6, dayOfWeek: 5, startTime: "18:00", endTime: "22:00", amountCents: 5000 },
+      ],
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/opening-hours",
+    access: "staff",
+    description: "Replace the weekly opening hours. Each row is a named service period; times are HH:MM, periods on the same day must not overlap, and days without rows are closed. Last seating is an hour before each period ends",
+    sampleRequest: {
+      openingHours: [
+        { dayOfWeek: 1, name: "Lunch", openTime: "12:00", closeTime: "15:00" },
+        { dayOfWeek: 1, name: "Dinner", openTime: "18:00", closeTime: "23:00" },
+      ],
+    },
+    sampleResponse: {
+      openingHours: [
+        { id: 40, restaurantId: 1, dayOfWeek: 1, name: "Lunch", openTime: "12:00", closeTime: "15:00", isClosed: false },
+        { id: 41, restaurantId: 1, dayOfWeek: 1, name: "Dinner", openTime: "18:00", closeTime: "23:00", isClosed: false },
+      ],
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/opening-hours/overrides",
+    description: "List closures and special hours, which replace the weekly hours on their date",
+    queryParams: "?from=2025-12-01&to=2025-12-31 (optional, defaults to upcoming dates)",
+    sampleResponse: {
+      overrides: [
+        { id: 1, restaurantId: 1, date: "2025-12-25", openTime: null, closeTime: null, isClosed: true, reason: "Christmas Day" },
+        { id: 2, restaurantId: 1, date: "2025-12-31", openTime: "18:00", closeTime: "00:00", isClosed: false, reason: "New Year's Eve" },
+      ],
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/opening-hours/overrides/:date",
+    access: "staff",
+    description: "Close for a whole day, or set special hours for a date. Replaces any earlier override for that date",
+    sampleRequest: {
+      isClosed: false,
+      hours: [{ openTime: "18:00", closeTime: "00:00" }],
+      reason: "New Year's Eve",
+    },
+    sampleResponse: {
+      overrides: [
+        { id: 2, restaurantId: 1, date: "2025-12-31", openTime: "18:00", closeTime: "00:00", isClosed: false, reason: "New Year's Eve" },
+      ],
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/restaurants/:id/opening-hours/overrides/:date",
+    access: "staff",
+    description: "Remove a date's override so the weekly hours apply again",
+    sampleResponse: {
+      message: "Override removed successfully",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/tables",
+    description: "List a restaurant's tables, including inactive ones",
+    sampleResponse: {
+      tables: [{ id: 1, restaurantId: 1, tableNumber: "T1", capacity: 2, isActive: true }],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/tables",
+    access: "staff",
+    description: "Add a table",
+    sampleRequest: { tableNumber: "T7", capacity: 6 },
+    sampleResponse: {
+      table: { id: 22, restaurantId: 1, tableNumber: "T7", capacity: 6, isActive: true },
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/tables/:tableId",
+    access: "staff",
+    description: "Update a table. Set isActive to false to stop new bookings on it",
+    sampleRequest: { isActive: false },
+    sampleResponse: {
+      table: { id: 22, restaurantId: 1, tableNumber: "T7", capacity: 6, isActive: false },
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/restaurants/:id/tables/:tableId",
+    access: "staff",
+    description: "Delete a table. Tables that have bookings can only be deactivated",
+    sampleResponse: {
+      message: "Table deleted successfully",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/webhooks",
+    access: "staff",
+    description: "List the restaurant's webhook subscriptions. Secrets are only shown when created or rotated",
+    sampleResponse: {
+      webhooks: [
+        { id: 1, restaurantId: 1, url: "https://pos.example.com/hooks/bookings", events: ["booking.created", "booking.cancelled"], isActive: true },
+      ],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/webhooks",
+    access: "staff",
+    description: "Subscribe an https URL to booking events: booking.created, booking.updated, booking.status_changed, booking.cancelled and booking.no_show. Each call is a JSON POST of { id, event, createdAt, data: { booking } } with an X-Webhook-Signature header of t=<unix seconds>,v1=<hex HMAC-SHA256 of \"<t>.<body>\" keyed with the secret>. Calls without a 2xx response are retried up to 6 times with growing waits",
+    sampleRequest: {
+      url: "https://pos.example.com/hooks/bookings",
+      events: ["booking.created", "booking.cancelled"],
+    },
+    sampleResponse: {
+      webhook: {
+        id: 1,
+        restaurantId: 1,
+        url: "https://pos.example.com/hooks/bookings",
+        secret: "whsec_5f2b8c...",
+        events: ["booking.created", "booking.cancelled"],
+        isActive: true,
       },
     },
   },
+  {
+    method: "PUT",
+    path: "/api/restaurants/:id/webhooks/:webhookId",
+    access: "staff",
+    description: "Change a subscription's url or events, pause it with isActive: false, or issue a new secret with rotateSecret: true",
+    sampleRequest: { events: ["booking.created", "booking.cancelled", "booking.no_show"] },
+    sampleResponse: {
+      webhook: { id: 1, events: ["booking.created", "booking.cancelled", "booking.no_show"], isActive: true },
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/restaurants/:id/webhooks/:webhookId",
+    access: "staff",
+    description: "Remove a subscription and its delivery log",
+    sampleResponse: {
+      message: "Webhook deleted successfully",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/webhooks/:webhookId/deliveries",
+    access: "staff",
+    description: "The subscription's 50 most recent calls, newest first: queued, sending, delivered or failed, with the response status and last error",
+    queryParams: "?status=failed (optional)",
+    sampleResponse: {
+      deliveries: [
+        { id: 12, bookingId: 4, event: "booking.cancelled", status: "queued", attempts: 2, responseStatus: 503, lastError: "Responded with 503", nextAttemptAt: "2025-10-15T18:04:00.000Z" },
+      ],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/webhooks/:webhookId/test",
+    access: "staff",
+    description: "Send a webhook.test event to the subscription now, even while it is paused, and return how it went. Test calls are logged but not retried",
+    sampleResponse: {
+      delivery: { id: 13, event: "webhook.test", status: "delivered", attempts: 1, responseStatus: 200, lastError: null },
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/availability",
+    description: "Fetch bookable time slots and the tables that fit the party",
+    queryParams: "?date=2025-10-15&partySize=4",
+    sampleResponse: {
+      restaurantId: 1,
+      date: "2025-10-15",
+      partySize: 4,
+      slots: [
+        {
+          time: "19:00",
+          period: "Dinner",
+          options: [
+            { tableIds: [3], tableGroupId: null, label: "T3", capacity: 4 },
+            { tableIds: [5, 6], tableGroupId: 1, label: "T5 + T6", capacity: 10 },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/walk-ins",
+    access: "staff",
+    description: "List walk-ins for a date, defaulting to today in the restaurant's timezone. Queued parties include a fresh wait estimate",
+    queryParams: "?date=2025-10-15 (optional)",
+    sampleResponse: {
+      date: "2025-10-15",
+      walkIns: [
+        { id: 7, partyName: "Garcia", partySize: 3, arrivalTime: "19:05", status: "queued", quotedWaitMinutes: 25, estimatedWaitMinutes: 15 },
+        { id: 6, partyName: "Lee", partySize: 2, arrivalTime: "18:50", status: "seated", seatedTime: "18:50", table: { tableNumber: "T3" } },
+      ],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/walk-ins",
+    access: "staff",
+    description: "Record a walk-in. Seats them now on the best free table (or the one given) unless queue is set; otherwise queues them with a wait quoted from current seatings",
+    sampleRequest: {
+      partyName: "Garcia",
+      partySize: 3,
+      phone: "(415) 555-0133",
+      queue: false,
+    },
+    sampleResponse: {
+      walkIn: { id: 7, partyName: "Garcia", partySize: 3, status: "queued", quotedWaitMinutes: 25 },
+    },
+  },
+  {
+    method: "PATCH",
+    path: "/api/restaurants/:id/walk-ins/:walkInId",
+    access: "staff",
+    description: "Seat a queued walk-in (optionally on a given tableId or tableGroupId), or mark them left or completed to free their table",
+    sampleRequest: {
+      status: "seated",
+    },
+    sampleResponse: {
+      walkIn: { id: 7, status: "seated", tableId: 4, seatedTime: "19:30", durationMinutes: 90 },
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/restaurants/:id/table-groups",
+    description: "List the tables that can be joined together for large parties",
+    sampleResponse: {
+      tableGroups: [
+        {
+          id: 1,
+          name: "T5 + T6",
+          capacity: 10,
+          isActive: true,
+          members: [{ tableId: 5 }, { tableId: 6 }],
+        },
+      ],
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/table-groups",
+    access: "staff",
+    description: "Define a joinable table group. capacity defaults to the sum of the tables",
+    sampleRequest: {
+      name: "T5 + T6",
+      tableIds: [5, 6],
+      capacity: 10,
+    },
+    sampleResponse: {
+      tableGroup: {
+        id: 1,
+        restaurantId: 1,
+        name: "T5 + T6",
+        capacity: 10,
+        isActive: true,
+        members: [{ tableId: 5 }, { tableId: 6 }],
+      },
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/restaurants/:id/table-groups/:groupId",
+    access: "staff",
+    description: "Remove a joinable table group",
+    sampleResponse: {
+      message: "Table group deleted successfully",
+    },
+  },
   {
     method: "POST",
     path: "/api/bookings",
-    description: "Create a new booking",
+    description: "Create a new booking. tableId and tableGroupId are optional; when omitted the best-fitting free table or table group is assigned. The manageUrl lets the guest change or cancel it. Bookings that match a deposit rule are created pending with a deposit to pay by payBy, after which they are cancelled",
     sampleRequest: {
       restaurantId: 1,
-      tableId: 1,
       customerName: "John Doe",
       customerEmail: "john@example.com",
       customerPhone: "(555) 123-4567",
@@ -74,15 +535,158 @@ const apiEndpoints = [
         bookingDate: "2025-10-15",
         bookingTime: "19:00",
         partySize: 4,
+        durationMinutes: 90,
         status: "confirmed",
       },
+      seating: { tableIds: [1], tableGroupId: null, label: "T1", capacity: 4 },
+      manageToken: "eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjR9...",
+      manageUrl: "https://freetable.example.com/manage/eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjR9...",
+      deposit: null,
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/manage/:token",
+    description: "View the booking a guest's manage link belongs to. Links expire a day after the visit",
+    sampleResponse: {
+      booking: {
+        id: 4,
+        bookingDate: "2025-10-15",
+        bookingTime: "19:00",
+        partySize: 4,
+        status: "confirmed",
+        restaurant: { name: "The Italian Corner", phone: "(415) 555-0101" },
+        table: { tableNumber: "T1" },
+        customer: { name: "John Doe" },
+        payments: [{ id: 1, amountCents: 2500, currency: "USD", status: "authorized" }],
+      },
+      cancellation: { late: false, feeCents: null, freeUntil: "2025-10-14T19:00:00.000Z" },
+    },
+  },
+  {
+    method: "PUT",
+    path: "/api/manage/:token",
+    description: "Change the date, time, party size or special requests. Tables are reassigned if needed and a new manage link is returned. Changes that need a larger deposit than the one paid are refused",
+    sampleRequest: {
+      bookingDate: "2025-10-16",
+      bookingTime: "20:00",
+      partySize: 5,
+    },
+    sampleResponse: {
+      booking: {
+        id: 4,
+        tableId: 2,
+        bookingDate: "2025-10-16",
+        bookingTime: "20:00",
+        partySize: 5,
+        status: "confirmed",
+      },
+      manageToken: "eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjR9...",
+      manageUrl: "https://freetable.example.com/manage/eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjR9...",
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/manage/:token",
+    description: "Cancel the booking a guest's manage link belongs to. The restaurant's cancellation policy decides whether it is a late cancellation and any fee",
+    sampleResponse: {
+      booking: { id: 4, status: "cancelled", lateCancellation: true, cancellationFeeCents: 2500 },
+      message: "Booking cancelled successfully",
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/manage/:token/deposit",
+    description: "Pay the deposit on a pending booking and confirm it. The deposit is held on the card, then released after the visit or a free cancellation, or captured for a no-show or late cancellation. The fake payment provider declines the payment method fake_card_declined",
+    sampleRequest: { paymentMethod: "fake_card" },
+    sampleResponse: {
+      booking: { id: 4, status: "confirmed" },
+      payment: { id: 1, amountCents: 2500, currency: "USD", status: "authorized" },
+      message: "Deposit paid and booking confirmed",
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/waitlist",
+    description: "Join the waitlist for a date when no table is free. Cancelled tables are offered to waiting guests in the order they joined and held for 15 minutes, and the guest is emailed a link to claim it",
+    sampleRequest: {
+      restaurantId: 1,
+      customerName: "Jane Smith",
+      customerEmail: "jane@example.com",
+      customerPhone: "(555) 987-6543",
+      bookingDate: "2025-10-15",
+      earliestTime: "18:30",
+      latestTime: "20:30",
+      partySize: 2,
+    },
+    sampleResponse: {
+      entry: { id: 3, bookingDate: "2025-10-15", earliestTime: "18:30", latestTime: "20:30", status: "waiting" },
+      waitlistToken: "eyJ0eXAiOiJ3YWl0bGlzdCIsIndpZCI6M30...",
+      waitlistUrl: "https://freetable.example.com/waitlist/eyJ0eXAiOiJ3YWl0bGlzdCIsIndpZCI6M30...",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/waitlist",
+    access: "staff",
+    description: "List a restaurant's waitlist. Staff default to their own restaurant",
+    queryParams: "?restaurantId=1&date=2025-10-15&status=waiting (all optional for staff)",
+    sampleResponse: {
+      entries: [
+        {
+          id: 3,
+          bookingDate: "2025-10-15",
+          partySize: 2,
+          status: "offered",
+          offeredTime: "19:00",
+          offerExpiresAt: "2025-10-14T17:15:00.000Z",
+          customer: { name: "Jane Smith" },
+          offeredTable: { tableNumber: "T2" },
+        },
+      ],
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/waitlist/:token",
+    description: "View a guest's waitlist entry, including any table being held for them",
+    sampleResponse: {
+      entry: {
+        id: 3,
+        status: "offered",
+        offeredTime: "19:00",
+        offerExpiresAt: "2025-10-14T17:15:00.000Z",
+        restaurant: { name: "The Italian Corner" },
+        offeredTable: { tableNumber: "T2" },
+      },
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/waitlist/:token/claim",
+    description: "Book the table held for the guest. Fails with 410 once the offer has expired. A booking that needs a deposit stays pending until it is paid, as when booking directly",
+    sampleResponse: {
+      booking: { id: 12, bookingDate: "2025-10-15", bookingTime: "19:00", status: "confirmed" },
+      deposit: null,
+      manageToken: "eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjEyfQ...",
+      manageUrl: "https://freetable.example.com/manage/eyJ0eXAiOiJtYW5hZ2UiLCJiaWQiOjEyfQ...",
+    },
+  },
+  {
+    method: "DELETE",
+    path: "/api/waitlist/:token",
+    description: "Leave the waitlist. A table held for the guest passes to the next in line",
+    sampleResponse: {
+      entry: { id: 3, status: "cancelled" },
+      message: "You have left the waitlist",
     },
   },
   {
     method: "GET",
     path: "/api/bookings",
-    description: "Fetch all bookings or filter by customer email",
-    queryParams: "?email=john@example.com (optional)",
+    access: "staff",
+    description: "Fetch bookings, latest visit first, or only a customer's by email. Returns up to 100 per page with the total; pass nextCursor back as cursor for the next page",
+    queryParams: "?email=john@example.com&limit=100&cursor=WyIyMDI1LTEwLTEwIiwiMTk6MDAiLDFd (all optional)",
     sampleResponse: {
       bookings: [
         {
@@ -96,12 +700,17 @@ const apiEndpoints = [
           customer: { name: "John Doe", email: "john@example.com" },
         },
       ],
+      total: 1,
+      nextCursor: null,
+      hasMore: false,
+      limit: 100,
     },
   },
   {
     method: "GET",
     path: "/api/bookings/:id",
-    description: "Get single booking details",
+    access: "staff",
+    description: "Get single booking details, with the guest's profile at the restaurant",
     sampleResponse: {
       booking: {
         id: 1,
@@ -115,12 +724,21 @@ const apiEndpoints = [
         status: "confirmed",
         createdAt: "2025-10-04T12:00:00Z",
       },
+      customerProfile: {
+        stats: { bookingCount: 6, visitCount: 4, noShowCount: 1, cancellationCount: 1, lastVisit: "2025-09-20", averagePartySize: 3.5 },
+        allergies: "Shellfish",
+        notes: "Prefers the quiet corner",
+        tags: ["VIP"],
+        computedTags: ["regular", "previous no-show"],
+        updatedAt: "2025-09-21T10:00:00.000Z",
+      },
     },
   },
   {
     method: "PUT",
     path: "/api/bookings/:id",
-    description: "Update booking details",
+    access: "staff",
+    description: "Update booking details. tableId or tableGroupId reassigns the booking to other tables. A customerEmail already used by another customer is refused; merge the two customers instead",
     sampleRequest: {
       customerName: "John Smith",
       customerEmail: "johnsmith@example.com",
@@ -148,7 +766,8 @@ const apiEndpoints = [
   {
     method: "DELETE",
     path: "/api/bookings/:id",
-    description: "Cancel a booking",
+    access: "staff",
+    description: "Cancel a booking. The outcome of the restaurant's cancellation policy is recorded on it as lateCancellation and cancellationFeeCents, as it is for cancellations through the status and bulk endpoints",
     sampleResponse: {
       booking: {
         id: 1,
@@ -160,6 +779,8 @@ const apiEndpoints = [
         partySize: 4,
         specialRequests: "Window table preferred",
         status: "cancelled",
+        lateCancellation: false,
+        cancellationFeeCents: null,
         createdAt: "2025-10-04T12:00:00Z",
       },
       message: "Booking cancelled successfully",
@@ -168,23 +789,100 @@ const apiEndpoints = [
   {
     method: "PATCH",
     path: "/api/bookings/:id/status",
-    description: "Update booking status",
+    access: "staff",
+    description: "Move a booking along its lifecycle: pending → confirmed → arrived → seated → completed, or cancelled / no_show. Arrivals are only allowed on the day, and no-shows and completions only after the start time. Each transition is timestamped",
     sampleRequest: {
-      status: "completed",
+      status: "seated",
     },
     sampleResponse: {
       booking: {
         id: 1,
-        status: "completed",
+        status: "seated",
+        arrivedAt: "2025-10-15T18:58:12.000Z",
+        seatedAt: "2025-10-15T19:02:40.000Z",
       },
-      message: "Booking status updated to completed",
+      message: "Booking status updated to seated",
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/history",
+    access: "staff",
+    description: "Get the booking's change history, oldest first: its creation, every update and status change, with the values before and after and who made each one. Guests changing their booking through the manage link are recorded as guest",
+    sampleResponse: {
+      events: [
+        {
+          id: 1,
+          bookingId: 1,
+          type: "created",
+          actorRole: "guest",
+          actorSubject: null,
+          changes: {
+            bookingDate: { from: null, to: "2025-10-15" },
+            bookingTime: { from: null, to: "19:00" },
+            partySize: { from: null, to: 2 },
+            status: { from: null, to: "confirmed" },
+          },
+          note: null,
+          createdAt: "2025-10-01T12:00:00.000Z",
+        },
+        {
+          id: 2,
+          bookingId: 1,
+          type: "updated",
+          actorRole: "staff",
+          actorSubject: "maria",
+          changes: {
+            partySize: { from: 2, to: 4 },
+            durationMinutes: { from: 90, to: 120 },
+          },
+          note: null,
+          createdAt: "2025-10-10T09:30:00.000Z",
+        },
+      ],
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/:id/ics",
+    access: "staff",
+    description: "Download the booking as an iCalendar (.ics) event with the restaurant's address, the start time and the booking's duration. Guests can download their own booking without signing in by passing the token from their manage link",
+    queryParams: "?token=<manage token>",
+    sampleResponse: "BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//FreeTable//Bookings//EN\nCALSCALE:GREGORIAN\nMETHOD:PUBLISH\nBEGIN:VEVENT\nUID:booking-1@freetable.example\nDTSTAMP:20251001T120000Z\nLAST-MODIFIED:20251001T120000Z\nDTSTART:20251015T190000Z\nDTEND:20251015T203000Z\nSUMMARY:Reservation at The Italian Corner\nDESCRIPTION:Table for 2 guests. Call +1-555-0100 with any questions.\nLOCATION:The Italian Corner\\, 123 Main St\nSTATUS:CONFIRMED\nEND:VEVENT\nEND:VCALENDAR",
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/calendar-feed",
+    access: "staff",
+    description: "Create a calendar subscription link for the restaurant. Anyone with the link can read its bookings, so share it only with staff. Links last a year or until the feed is reset",
+    sampleResponse: {
+      feedUrl: "https://freetable.example/api/calendar/eyJ0eXAiOiJjYWxlbmRhciIsInJpZCI6MX0.c2lnbmF0dXJl",
+      expiresAt: "2026-10-01T12:00:00.000Z",
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/calendar-feed/reset",
+    access: "staff",
+    description: "Reset the restaurant's calendar feed when a link has been shared too widely. Every link created so far stops working, and a new one is returned",
+    sampleResponse: {
+      feedUrl: "https://freetable.example/api/calendar/eyJ0eXAiOiJjYWxlbmRhciIsInJpZCI6MSwidmVyIjoyfQ.c2lnbmF0dXJl",
+      expiresAt: "2026-10-01T12:00:00.000Z",
     },
   },
+  {
+    method: "GET",
+    path: "/api/calendar/:token",
+    description: "iCalendar feed of the restaurant's upcoming confirmed bookings, soonest first, for subscribing to from a calendar app. Takes the same filters as booking search, so status, dateFrom, dateTo, customerEmail and tableId narrow or widen it. Holds at most 500 bookings",
+    queryParams: "?status=pending&dateTo=2025-12-31",
+    sampleResponse: "BEGIN:VCALENDAR\nVERSION:2.0\nPRODID:-//FreeTable//Bookings//EN\nCALSCALE:GREGORIAN\nMETHOD:PUBLISH\nX-WR-CALNAME:The Italian Corner\nBEGIN:VEVENT\nUID:booking-1@freetable.example\n...\nSUMMARY:John Doe (2 guests)\nDESCRIPTION:Booking #1 for 2 guests.\n...\nEND:VEVENT\nEND:VCALENDAR",
+  },
   {
     method: "GET",
     path: "/api/bookings/search",
-    description: "Search bookings with filters",
-    queryParams: "?restaurantId=1&status=confirmed&dateFrom=2025-10-01&limit=50",
+    access: "staff",
+    description: "Search bookings with filters, latest visit first. Pages hold up to 100 bookings; pass nextCursor back as cursor for the next page. offset is still accepted but can't be combined with cursor",
+    queryParams: "?restaurantId=1&status=confirmed&dateFrom=2025-10-01&limit=50&cursor=WyIyMDI1LTEwLTE1IiwiMTk6MDAiLDFd",
     sampleResponse: {
       bookings: [
         {
@@ -197,15 +895,47 @@ const apiEndpoints = [
         },
       ],
       total: 1,
+      nextCursor: null,
+      hasMore: false,
       limit: 50,
       offset: 0,
-      hasMore: false,
+    },
+  },
+  {
+    method: "GET",
+    path: "/api/bookings/export",
+    access: "staff",
+    description: "Download every booking matching the search filters, without the 100 row limit, as CSV (the default) or as NDJSON with one booking per line. Rows are oldest first and include the restaurant, table and customer. Staff only export their own restaurant's bookings",
+    queryParams: "?format=csv&restaurantId=1&dateFrom=2025-10-01&dateTo=2025-10-31",
+    sampleResponse: "id,restaurantId,restaurantName,bookingDate,bookingTime,durationMinutes,partySize,status,table,customerId,customerName,customerEmail,customerPhone,specialRequests,lateCancellation,cancellationFeeCents,createdAt,updatedAt\n1,1,The Italian Corner,2025-10-15,19:00,90,2,confirmed,T1,1,John Doe,john@example.com,+15550123,Window seat,,,2025-10-01T12:00:00.000Z,2025-10-01T12:00:00.000Z",
+  },
+  {
+    method: "POST",
+    path: "/api/restaurants/:id/bookings/import",
+    access: "staff",
+    description: "Import up to 1000 reservations from another booking system's CSV export. Columns are found from common header names such as Name, Email, Phone, Date, Time, Covers, Notes and Table, or mapped with columns. Each row is checked like POST /api/bookings, including opening hours, capacity and clashes with other bookings and earlier rows. Valid rows are created as confirmed bookings without emailing guests; invalid rows are reported by line. Set dryRun to only check the file",
+    sampleRequest: {
+      csv: "Guest,Email,Phone,Date,Time,Covers,Notes\nJane Smith,jane@example.com,+1-555-0199,2025-10-20,19:30,4,Birthday\nSam Lee,sam@example.com,+1-555-0142,2025-10-20,19:30,12,",
+      dryRun: true,
+      columns: { customerPhone: "Mobile" },
+    },
+    sampleResponse: {
+      dryRun: true,
+      totalRows: 2,
+      validRows: 1,
+      createdBookings: 0,
+      createdCustomers: 0,
+      errors: [
+        { row: 3, error: "No tables available for this party size at this time. Please select a different time." },
+      ],
+      message: "1 of 2 rows can be imported",
     },
   },
   {
     method: "PATCH",
     path: "/api/bookings/bulk",
-    description: "Bulk update booking statuses",
+    access: "staff",
+    description: "Bulk update booking statuses. Every booking must be allowed to make the transition, or none are changed",
     sampleRequest: {
       bookingIds: [1, 2, 3],
       status: "completed",
@@ -223,6 +953,7 @@ const apiEndpoints = [
   {
     method: "DELETE",
     path: "/api/bookings/bulk",
+    access: "staff",
     description: "Bulk cancel bookings",
     sampleRequest: {
       bookingIds: [1, 2, 3],
@@ -237,6 +968,38 @@ const apiEndpoints = [
       ],
     },
   },
+  {
+    method: "POST",
+    path: "/api/notifications/reminders",
+    access: "admin",
+    description: "Queue a reminder email for every confirmed booking taking place tomorrow in its restaurant's timezone, and send them. Bookings already reminded are skipped. Confirmation, change and cancellation emails are sent automatically by the booking endpoints",
+    sampleResponse: {
+      message: "Queued 12 reminders",
+      queued: 12,
+    },
+  },
+  {
+    method: "POST",
+    path: "/api/jobs/run",
+    access: "admin",
+    description: "Run the jobs a cron trigger runs every 15 minutes: expire lapsed waitlist offers and entries, complete arrived and seated bookings whose seating has ended, mark confirmed bookings as no_show 30 minutes after their start, cancel bookings whose deposit is still unpaid after 30 minutes, queue tomorrow's reminders, send queued emails and make due webhook calls, retries included. now runs them as of another time",
+    queryParams: "?now=2025-10-16T09:00:00Z (optional)",
+    sampleResponse: {
+      now: "2025-10-16T09:00:00.000Z",
+      result: {
+        expiredOffers: 1,
+        expiredWaitlistEntries: 3,
+        completed: 14,
+        noShows: 2,
+        unpaidCancelled: 1,
+        remindersQueued: 12,
+        notificationsSent: 16,
+        notificationsFailed: 0,
+        webhooksDelivered: 20,
+        webhooksFailed: 1,
+      },
+    },
+  },
 ];
 
 export default function ApiDocsPage() {
@@ -269,6 +1032,11 @@ export default function ApiDocsPage() {
                   <code className="text-sm font-mono bg-muted px-2 py-1 rounded">
                     {endpoint.path}
                   </code>
+                  {endpoint.access && (
+                    <Badge variant="outline">
+                      {endpoint.access === "admin" ? "Admin only" : "Staff or admin"}
+                    </Badge>
+                  )}
                 </div>
                 <CardDescription className="mt-2">
                   {endpoint.description}
@@ -296,7 +1064,11 @@ export default function ApiDocsPage() {
                   )}
                   <TabsContent value="response">
                     <pre className="bg-muted p-4 rounded-md overflow-x-auto text-xs">
-                      <code>{JSON.stringify(endpoint.sampleResponse, null, 2)}</code>
+                      <code>
+                        {typeof endpoint.sampleResponse === "string"
+                          ? endpoint.sampleResponse
+                          : JSON.stringify(endpoint.sampleResponse, null, 2)}
+                      </code>
                     </pre>
                   </TabsContent>
                 </Tabs>
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+
+// GET /api/auth/me - Describe the caller's role and restaurant scope
+export async function GET(request: NextRequest) {
+  return NextResponse.json({ session: getSession(request) });
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createAuthToken, getSession, requireRole, ROLES, type Role } from "@/lib/auth";
+
+interface CreateTokenRequestBody {
+  role: Role;
+  subject: string;
+  restaurantId?: number;
+  expiresInDays?: number;
+}
+
+// POST /api/auth/tokens - Issue an API token (admin only)
+export async function POST(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const body = await request.json() as CreateTokenRequestBody;
+    const { role, subject, restaurantId, expiresInDays = 30 } = body;
+
+    if (!role || !subject) {
+      return NextResponse.json(
+        { error: "role and subject are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Invalid role. Must be one of: ${ROLES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof subject !== "string") {
+      return NextResponse.json(
+        { error: "subject must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365) {
+      return NextResponse.json(
+        { error: "expiresInDays must be a whole number between 1 and 365" },
+        { status: 400 }
+      );
+    }
+
+    if (restaurantId !== undefined && restaurantId !== null && (!Number.isInteger(restaurantId) || restaurantId < 1)) {
+      return NextResponse.json(
+        { error: "restaurantId must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    // Staff tokens are scoped to a single restaurant
+    if (role === "staff") {
+      if (!restaurantId) {
+        return NextResponse.json(
+          { error: "restaurantId is required for staff tokens" },
+          { status: 400 }
+        );
+      }
+
+      const restaurant = await db.query.restaurants.findFirst({
+        where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      });
+
+      if (!restaurant) {
+        return NextResponse.json(
+          { error: "Restaurant not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const { token, expiresAt } = await createAuthToken(
+      { role, subject, restaurantId: role === "staff" ? restaurantId : null },
+      env.AUTH_SECRET,
+      expiresInDays
+    );
+
+    return NextResponse.json(
+      {
+        token,
+        role,
+        subject,
+        restaurantId: role === "staff" ? restaurantId : null,
+        expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error issuing token:", error);
+    return NextResponse.json(
+      { error: "Failed to issue token" },
+      { status: 500 }
+    );
+  }
+}
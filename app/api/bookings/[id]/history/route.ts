@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, bookings } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess, requireRole } from "@/lib/auth";
+import { getBookingHistory } from "@/lib/booking-events";
+
+// GET /api/bookings/[id]/history - Get every change made to a booking, oldest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const resolvedParams = await params;
+    const bookingId = parseInt(resolvedParams.id);
+
+    if (isNaN(bookingId)) {
+      return NextResponse.json(
+        { error: "Invalid booking ID" },
+        { status: 400 }
+      );
+    }
+
+    const booking = await db.query.bookings.findFirst({
+      where: eq(bookings.id, bookingId),
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, booking.restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const events = await getBookingHistory(db, bookingId);
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching booking history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking history" },
+      { status: 500 }
+    );
+  }
+}
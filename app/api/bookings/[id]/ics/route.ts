@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, bookings } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess, requireRole } from "@/lib/auth";
+import { renderCalendar } from "@/lib/icalendar";
+import { verifyManageToken } from "@/lib/manage-tokens";
+
+// GET /api/bookings/[id]/ics - Download the booking as an iCalendar file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const bookingId = parseInt(resolvedParams.id);
+
+    if (isNaN(bookingId)) {
+      return NextResponse.json(
+        { error: "Invalid booking ID" },
+        { status: 400 }
+      );
+    }
+
+    // Guests download their booking with its manage token, staff with their session
+    const token = request.nextUrl.searchParams.get("token");
+    if (token) {
+      if ((await verifyManageToken(token, env.AUTH_SECRET)) !== bookingId) {
+        return NextResponse.json(
+          { error: "This link is invalid or has expired" },
+          { status: 404 }
+        );
+      }
+    } else {
+      const authError = requireRole(session, "staff", "admin");
+      if (authError) {
+        return authError;
+      }
+    }
+
+    const booking = await db.query.bookings.findFirst({
+      where: eq(bookings.id, bookingId),
+      with: {
+        restaurant: true,
+        customer: true,
+      },
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!token) {
+      const accessError = requireRestaurantAccess(session, booking.restaurantId);
+      if (accessError) {
+        return accessError;
+      }
+    }
+
+    const calendar = renderCalendar([booking], {
+      audience: token ? "guest" : "restaurant",
+      host: request.nextUrl.host,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="booking-${booking.id}.ics"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting booking:", error);
+    return NextResponse.json(
+      { error: "Failed to export booking" },
+      { status: 500 }
+    );
+  }
+}
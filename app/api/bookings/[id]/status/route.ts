@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { getDb, bookings } from "@/db";
 import { eq } from "drizzle-orm";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess, requireRole } from "@/lib/auth";
+import { BOOKING_STATUSES, isBookingStatus, type BookingStatus } from "@/lib/booking-lifecycle";
+import { BookingError, changeBookingStatus } from "@/lib/bookings";
+import { getStatusNotificationType, notifyBookings, notifyWaitlistOffers } from "@/lib/notifications";
+import { settleDeposits } from "@/lib/payments";
+import { offerFreedSeating } from "@/lib/waitlist";
+import { emitBookingWebhooks, getStatusWebhookEvent } from "@/lib/webhooks";
 
 interface UpdateStatusRequestBody {
-  status: "confirmed" | "cancelled" | "completed" | "no_show";
+  status: BookingStatus;
 }
 
 // PATCH /api/bookings/[id]/status - Update booking status
@@ -12,8 +19,14 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { env } = await getCloudflareContext();
+  const { env, ctx } = await getCloudflareContext();
   const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
   
   try {
     const resolvedParams = await params;
@@ -30,10 +43,9 @@ export async function PATCH(
     const { status } = body;
 
     // Validate status
-    const validStatuses = ["confirmed", "cancelled", "completed", "no_show"];
-    if (!status || !validStatuses.includes(status)) {
+    if (!isBookingStatus(status)) {
       return NextResponse.json(
-        { error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` },
+        { error: `Invalid status. Must be one of: ${BOOKING_STATUSES.join(", ")}` },
         { status: 400 }
       );
     }
@@ -41,6 +53,9 @@ export async function PATCH(
     // Get existing booking
     const existingBooking = await db.query.bookings.findFirst({
       where: eq(bookings.id, bookingId),
+      with: {
+        restaurant: true,
+      },
     });
 
     if (!existingBooking) {
@@ -50,47 +65,38 @@ export async function PATCH(
       );
     }
 
-    // Business rules for status changes
-    if (existingBooking.status === "cancelled" && status !== "cancelled") {
-      return NextResponse.json(
-        { error: "Cannot change status of cancelled booking" },
-        { status: 400 }
-      );
+    const accessError = requireRestaurantAccess(session, existingBooking.restaurantId);
+    if (accessError) {
+      return accessError;
     }
 
-    if (existingBooking.status === "completed" && status !== "completed") {
-      return NextResponse.json(
-        { error: "Cannot change status of completed booking" },
-        { status: 400 }
-      );
+    // Only allowed transitions, at a time that makes sense for the booking
+    const updatedBooking = await changeBookingStatus(db, existingBooking, status, session);
+    await settleDeposits(db, [updatedBooking]);
+
+    const notificationType = getStatusNotificationType(status);
+    if (notificationType) {
+      await notifyBookings(db, env, ctx, request.nextUrl.origin, notificationType, [updatedBooking.id]);
     }
+    await emitBookingWebhooks(db, ctx, getStatusWebhookEvent(status), [updatedBooking]);
 
-    // Check if trying to cancel past bookings
+    // Offer the freed tables to the waitlist
     if (status === "cancelled") {
-      const bookingDate = new Date(existingBooking.bookingDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      if (bookingDate < today) {
-        return NextResponse.json(
-          { error: "Cannot cancel past bookings" },
-          { status: 400 }
-        );
-      }
+      const offers = await offerFreedSeating(db, [updatedBooking]);
+      await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
     }
 
-    // Update booking status
-    const [updatedBooking] = await db
-      .update(bookings)
-      .set({ status })
-      .where(eq(bookings.id, bookingId))
-      .returning();
-
     return NextResponse.json({ 
       booking: updatedBooking,
       message: `Booking status updated to ${status}` 
     });
   } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
     console.error("Error updating booking status:", error);
     return NextResponse.json(
       { error: "Failed to update booking status" },
@@ -1,21 +1,77 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDb, bookings } from "@/db";
+import { getDb, bookings, type Booking, type Restaurant } from "@/db";
 import { inArray } from "drizzle-orm";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { canAccessRestaurant, getSession, requireRole } from "@/lib/auth";
+import {
+  BOOKING_STATUSES,
+  getTransitionUpdate,
+  isBookingStatus,
+  validateStatusTransition,
+  type BookingStatus,
+} from "@/lib/booking-lifecycle";
+import { recordBookingEvents, type BookingEventDetails } from "@/lib/booking-events";
+import { cancelBookings, getStatusChanges } from "@/lib/bookings";
+import { getStatusNotificationType, notifyBookings, notifyWaitlistOffers } from "@/lib/notifications";
+import { settleDeposits } from "@/lib/payments";
+import { offerFreedSeating } from "@/lib/waitlist";
+import { emitBookingWebhooks, getStatusWebhookEvent } from "@/lib/webhooks";
 
 interface BulkUpdateRequestBody {
   bookingIds: number[];
-  status?: "confirmed" | "cancelled" | "completed" | "no_show";
+  status?: BookingStatus;
 }
 
 interface BulkDeleteRequestBody {
   bookingIds: number[];
 }
 
+// Describe every booking that can't move to the status, grouped by reason
+function findTransitionErrors(
+  existingBookings: (Booking & { restaurant: Pick<Restaurant, "timezone"> })[],
+  status: BookingStatus
+): string | null {
+  const idsByError = new Map<string, number[]>();
+  for (const booking of existingBookings) {
+    const error = validateStatusTransition(booking, status, booking.restaurant.timezone);
+    if (error) {
+      idsByError.set(error, [...(idsByError.get(error) ?? []), booking.id]);
+    }
+  }
+
+  if (idsByError.size === 0) {
+    return null;
+  }
+
+  return [...idsByError.entries()]
+    .map(([error, ids]) => `${error}: ${ids.join(", ")}`)
+    .join("; ");
+}
+
+// History entries for bookings changed together
+function getBulkEvents(
+  existingBookings: Booking[],
+  updatedBookings: Booking[],
+  note: string
+): BookingEventDetails[] {
+  return updatedBookings.map((updated) => ({
+    bookingId: updated.id,
+    type: "status_changed",
+    changes: getStatusChanges(existingBookings.find((b) => b.id === updated.id)!, updated),
+    note,
+  }));
+}
+
 // PATCH /api/bookings/bulk - Bulk update bookings
 export async function PATCH(request: NextRequest) {
-  const { env } = await getCloudflareContext();
+  const { env, ctx } = await getCloudflareContext();
   const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
   
   try {
     const body = await request.json() as BulkUpdateRequestBody;
@@ -43,10 +99,9 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    const validStatuses = ["confirmed", "cancelled", "completed", "no_show"];
-    if (!validStatuses.includes(status)) {
+    if (!isBookingStatus(status)) {
       return NextResponse.json(
-        { error: `Invalid status. Must be one of: ${validStatuses.join(", ")}` },
+        { error: `Invalid status. Must be one of: ${BOOKING_STATUSES.join(", ")}` },
         { status: 400 }
       );
     }
@@ -63,6 +118,9 @@ export async function PATCH(request: NextRequest) {
     // Check if all bookings exist
     const existingBookings = await db.query.bookings.findMany({
       where: inArray(bookings.id, bookingIds),
+      with: {
+        restaurant: true,
+      },
     });
 
     if (existingBookings.length !== bookingIds.length) {
@@ -74,46 +132,55 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Check business rules for status changes
-    const invalidStatusChanges = existingBookings.filter(booking => {
-      if (booking.status === "cancelled" && status !== "cancelled") return true;
-      if (booking.status === "completed" && status !== "completed") return true;
-      return false;
-    });
+    // Staff may only change bookings at their own restaurant
+    const forbiddenBookings = existingBookings.filter(
+      (booking) => !canAccessRestaurant(session, booking.restaurantId)
+    );
+    if (forbiddenBookings.length > 0) {
+      const forbiddenIds = forbiddenBookings.map(b => b.id);
+      return NextResponse.json(
+        { error: `You do not have access to bookings: ${forbiddenIds.join(", ")}` },
+        { status: 403 }
+      );
+    }
 
-    if (invalidStatusChanges.length > 0) {
-      const invalidIds = invalidStatusChanges.map(b => b.id);
+    // Every booking must be allowed to make the transition now
+    const transitionError = findTransitionErrors(existingBookings, status);
+    if (transitionError) {
       return NextResponse.json(
-        { error: `Cannot change status of cancelled/completed bookings: ${invalidIds.join(", ")}` },
+        { error: transitionError },
         { status: 400 }
       );
     }
 
-    // Check if trying to cancel past bookings
+    // Perform bulk update. Cancellations are judged one by one against the
+    // restaurant's cancellation policy.
+    const updatedBookings = status === "cancelled"
+      ? await cancelBookings(db, existingBookings)
+      : await db
+          .update(bookings)
+          .set(getTransitionUpdate(status))
+          .where(inArray(bookings.id, bookingIds))
+          .returning();
+
+    await recordBookingEvents(
+      db,
+      getBulkEvents(existingBookings, updatedBookings, `Bulk update of ${existingBookings.length} bookings`),
+      session
+    );
+    await settleDeposits(db, updatedBookings);
+
+    const notificationType = getStatusNotificationType(status);
+    if (notificationType) {
+      await notifyBookings(db, env, ctx, request.nextUrl.origin, notificationType, bookingIds);
+    }
+    await emitBookingWebhooks(db, ctx, getStatusWebhookEvent(status), updatedBookings);
+
+    // Offer the freed tables to the waitlist
     if (status === "cancelled") {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const pastBookings = existingBookings.filter(booking => {
-        const bookingDate = new Date(booking.bookingDate);
-        return bookingDate < today;
-      });
-
-      if (pastBookings.length > 0) {
-        const pastIds = pastBookings.map(b => b.id);
-        return NextResponse.json(
-          { error: `Cannot cancel past bookings: ${pastIds.join(", ")}` },
-          { status: 400 }
-        );
-      }
-    }
-
-    // Perform bulk update
-    const updatedBookings = await db
-      .update(bookings)
-      .set({ status })
-      .where(inArray(bookings.id, bookingIds))
-      .returning();
+      const offers = await offerFreedSeating(db, updatedBookings);
+      await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
+    }
 
     return NextResponse.json({
       message: `Successfully updated ${updatedBookings.length} bookings`,
@@ -131,8 +198,14 @@ export async function PATCH(request: NextRequest) {
 
 // DELETE /api/bookings/bulk - Bulk cancel bookings
 export async function DELETE(request: NextRequest) {
-  const { env } = await getCloudflareContext();
+  const { env, ctx } = await getCloudflareContext();
   const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
   
   try {
     const body = await request.json() as BulkDeleteRequestBody;
@@ -165,6 +238,9 @@ export async function DELETE(request: NextRequest) {
     // Check if all bookings exist
     const existingBookings = await db.query.bookings.findMany({
       where: inArray(bookings.id, bookingIds),
+      with: {
+        restaurant: true,
+      },
     });
 
     if (existingBookings.length !== bookingIds.length) {
@@ -176,39 +252,46 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Check if any bookings are already cancelled
-    const alreadyCancelled = existingBookings.filter(booking => booking.status === "cancelled");
-    if (alreadyCancelled.length > 0) {
-      const cancelledIds = alreadyCancelled.map(b => b.id);
+    // Staff may only change bookings at their own restaurant
+    const forbiddenBookings = existingBookings.filter(
+      (booking) => !canAccessRestaurant(session, booking.restaurantId)
+    );
+    if (forbiddenBookings.length > 0) {
+      const forbiddenIds = forbiddenBookings.map(b => b.id);
       return NextResponse.json(
-        { error: `Bookings already cancelled: ${cancelledIds.join(", ")}` },
-        { status: 400 }
+        { error: `You do not have access to bookings: ${forbiddenIds.join(", ")}` },
+        { status: 403 }
       );
     }
 
-    // Check if trying to cancel past bookings
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    
-    const pastBookings = existingBookings.filter(booking => {
-      const bookingDate = new Date(booking.bookingDate);
-      return bookingDate < today;
-    });
-
-    if (pastBookings.length > 0) {
-      const pastIds = pastBookings.map(b => b.id);
+    // Every booking must still be cancellable
+    const transitionError = findTransitionErrors(existingBookings, "cancelled");
+    if (transitionError) {
       return NextResponse.json(
-        { error: `Cannot cancel past bookings: ${pastIds.join(", ")}` },
+        { error: transitionError },
         { status: 400 }
       );
     }
 
-    // Perform bulk cancellation
-    const cancelledBookings = await db
-      .update(bookings)
-      .set({ status: "cancelled" })
-      .where(inArray(bookings.id, bookingIds))
-      .returning();
+    // Perform bulk cancellation, applying each restaurant's cancellation policy
+    const cancelledBookings = await cancelBookings(db, existingBookings);
+
+    await recordBookingEvents(
+      db,
+      getBulkEvents(
+        existingBookings,
+        cancelledBookings,
+        `Bulk cancellation of ${existingBookings.length} bookings`
+      ),
+      session
+    );
+    await settleDeposits(db, cancelledBookings);
+    await notifyBookings(db, env, ctx, request.nextUrl.origin, "cancellation", bookingIds);
+    await emitBookingWebhooks(db, ctx, "booking.cancelled", cancelledBookings);
+
+    // Offer the freed tables to the waitlist
+    const offers = await offerFreedSeating(db, cancelledBookings);
+    await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
 
     return NextResponse.json({
       message: `Successfully cancelled ${cancelledBookings.length} bookings`,
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import {
+  EXPORT_FORMATS,
+  getExportContentType,
+  isExportFormat,
+  streamBookingExport,
+} from "@/lib/booking-export";
+import { getBookingSearchWhere, parseBookingSearchParams } from "@/lib/booking-search";
+
+// GET /api/bookings/export - Download every booking matching the search filters
+export async function GET(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const { searchParams } = new URL(request.url);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const format = searchParams.get("format") || "csv";
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const { filters, error } = parseBookingSearchParams(searchParams);
+    if (error !== null) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+
+    // Staff only export bookings at their own restaurant
+    if (session.role === "staff" && session.restaurantId) {
+      if (filters.restaurantId !== undefined && filters.restaurantId !== session.restaurantId) {
+        return NextResponse.json(
+          { error: "You do not have access to this restaurant" },
+          { status: 403 }
+        );
+      }
+      filters.restaurantId = session.restaurantId;
+    }
+
+    const whereClause = await getBookingSearchWhere(db, filters);
+
+    return new NextResponse(streamBookingExport(db, whereClause, format), {
+      headers: {
+        "Content-Type": getExportContentType(format),
+        "Content-Disposition": `attachment; filename="bookings.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting bookings:", error);
+    return NextResponse.json(
+      { error: "Failed to export bookings" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDb, customers, bookings } from "@/db";
-import { eq, and } from "drizzle-orm";
+import { getDb } from "@/db";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import {
+  findBestSeating,
+  findSeatingConflict,
+  getRequestedSeating,
+  getSeatingOptions,
+  getTableOccupancy,
+  seatingRelations,
+  type SeatingOption,
+} from "@/lib/availability";
+import {
+  findOpeningWindow,
+  getOpeningWindows,
+  getSeatingDuration,
+  validateBookingDate,
+  validateBookingTime,
+  validatePartySize,
+} from "@/lib/booking-rules";
+import {
+  MAX_PAGE_SIZE,
+  findBookingPage,
+  getBookingSearchWhere,
+  parseBookingPageParams,
+} from "@/lib/booking-search";
+import {
+  EMAIL_REGEX,
+  findOrCreateCustomer,
+  hasBookingOnDate,
+  insertBooking,
+  TABLE_CONFLICT_MESSAGE,
+} from "@/lib/bookings";
+import { getRequiredDeposit } from "@/lib/deposit-rules";
+import { createManageToken, getManageUrl } from "@/lib/manage-tokens";
+import { notifyBookings } from "@/lib/notifications";
+import { DEPOSIT_PAYMENT_MINUTES, requestDeposit } from "@/lib/payments";
+import { emitBookingWebhooks } from "@/lib/webhooks";
 
 interface BookingRequestBody {
   restaurantId: number;
-  tableId: number;
+  // Assigned automatically when neither is given
+  tableId?: number;
+  tableGroupId?: number;
   customerName: string;
   customerEmail: string;
   customerPhone: string;
@@ -16,14 +53,16 @@ interface BookingRequestBody {
 }
 
 export async function POST(request: NextRequest) {
-  const { env } = await getCloudflareContext();
+  const { env, ctx } = await getCloudflareContext();
   const db = getDb(env.DB);
+  const session = getSession(request);
   
   try {
     const body = await request.json() as BookingRequestBody;
     const {
       restaurantId,
       tableId,
+      tableGroupId,
       customerName,
       customerEmail,
       customerPhone,
@@ -34,7 +73,7 @@ export async function POST(request: NextRequest) {
     } = body;
 
     // Validate required fields
-    if (!restaurantId || !tableId || !customerName || !customerEmail || 
+    if (!restaurantId || !customerName || !customerEmail || 
         !customerPhone || !bookingDate || !bookingTime || !partySize) {
       return NextResponse.json(
         { error: "Missing required fields" },
@@ -43,8 +82,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate email format
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(customerEmail)) {
+    if (!EMAIL_REGEX.test(customerEmail)) {
       return NextResponse.json(
         { error: "Invalid email address" },
         { status: 400 }
@@ -52,31 +90,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate party size
-    if (partySize < 1 || partySize > 20) {
+    const partySizeError = validatePartySize(partySize);
+    if (partySizeError) {
       return NextResponse.json(
-        { error: "Party size must be between 1 and 20" },
-        { status: 400 }
-      );
-    }
-
-    // Validate date is not in the past
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const bookingDateObj = new Date(bookingDate);
-    
-    if (bookingDateObj < today) {
-      return NextResponse.json(
-        { error: "Cannot book in the past" },
-        { status: 400 }
-      );
-    }
-
-    // Validate date is not too far in the future (max 90 days)
-    const maxDate = new Date();
-    maxDate.setDate(maxDate.getDate() + 90);
-    if (bookingDateObj > maxDate) {
-      return NextResponse.json(
-        { error: "Cannot book more than 90 days in advance" },
+        { error: partySizeError },
         { status: 400 }
       );
     }
@@ -85,8 +102,8 @@ export async function POST(request: NextRequest) {
     const restaurant = await db.query.restaurants.findFirst({
       where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
       with: {
-        openingHours: true,
-        tables: true,
+        ...seatingRelations,
+        depositRules: true,
       },
     });
 
@@ -97,129 +114,132 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check if restaurant is open on this day
-    const dayOfWeek = bookingDateObj.getDay();
-    const hoursForDay = restaurant.openingHours.find(
-      (h) => h.dayOfWeek === dayOfWeek
-    );
-
-    if (!hoursForDay || hoursForDay.isClosed) {
+    // Check the date and time in the restaurant's own timezone, and that it is open then
+    const validationError =
+      validateBookingDate(bookingDate, restaurant.timezone) ||
+      validateBookingTime(restaurant, bookingDate, bookingTime);
+    if (validationError) {
       return NextResponse.json(
-        { error: "Restaurant is closed on this day" },
+        { error: validationError },
         { status: 400 }
       );
     }
 
-    // Validate booking time is within opening hours
-    const [bookingHour, bookingMinute] = bookingTime.split(":").map(Number);
-    const [openHour, openMinute] = hoursForDay.openTime.split(":").map(Number);
-    const [closeHour, closeMinute] = hoursForDay.closeTime.split(":").map(Number);
-
-    const bookingMinutes = bookingHour * 60 + bookingMinute;
-    const openMinutes = openHour * 60 + openMinute;
-    
-    // Handle midnight (00:00) as 24:00 (1440 minutes)
-    const closeMinutes = closeHour === 0 && closeMinute === 0 
-      ? 1440  // Midnight = 24:00 = 1440 minutes
-      : closeHour * 60 + closeMinute;
-
-    if (bookingMinutes < openMinutes || bookingMinutes > closeMinutes - 60) {
-      return NextResponse.json(
-        { error: `Restaurant hours: ${hoursForDay.openTime} - ${hoursForDay.closeTime}` },
-        { status: 400 }
-      );
-    }
-
-    // Validate table exists and capacity
-    const table = restaurant.tables.find((t) => t.id === tableId);
-    if (!table) {
-      return NextResponse.json(
-        { error: "Table not found" },
-        { status: 404 }
+    const durationMinutes = getSeatingDuration(restaurant, partySize);
+    const occupancy = await getTableOccupancy(db, restaurantId, bookingDate);
+    let seating: SeatingOption | undefined;
+
+    if (tableId || tableGroupId) {
+      // Validate the requested table or table group and capacity
+      const result = getRequestedSeating(restaurant, partySize, { tableId, tableGroupId });
+      if ("error" in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+      seating = result.seating;
+
+      // Check every table is free for the whole seating, not just the start time
+      if (findSeatingConflict(occupancy, seating.tableIds, bookingTime, durationMinutes)) {
+        return NextResponse.json(
+          { error: TABLE_CONFLICT_MESSAGE },
+          { status: 409 }
+        );
+      }
+    } else {
+      // Assign the best-fitting free table or table group
+      const window = findOpeningWindow(
+        getOpeningWindows(restaurant, bookingDate),
+        bookingTime
       );
-    }
-
-    if (!table.isActive) {
-      return NextResponse.json(
-        { error: "Table is not available" },
-        { status: 400 }
+      seating = window && findBestSeating(
+        getSeatingOptions(restaurant),
+        occupancy,
+        partySize,
+        bookingTime,
+        durationMinutes,
+        window
       );
-    }
 
-    if (partySize > table.capacity) {
-      return NextResponse.json(
-        { error: `Party size exceeds table capacity (max ${table.capacity})` },
-        { status: 400 }
-      );
+      if (!seating) {
+        return NextResponse.json(
+          { error: "No tables available for this party size at this time. Please select a different time." },
+          { status: 409 }
+        );
+      }
     }
 
     // Check if customer exists, if not create one
-    let customer = await db.query.customers.findFirst({
-      where: eq(customers.email, customerEmail),
+    const customer = await findOrCreateCustomer(db, {
+      name: customerName,
+      email: customerEmail,
+      phone: customerPhone,
     });
 
-    if (!customer) {
-      const [newCustomer] = await db
-        .insert(customers)
-        .values({
-          name: customerName,
-          email: customerEmail,
-          phone: customerPhone,
-        })
-        .returning();
-      customer = newCustomer;
-    }
-
     // Check if customer already has a booking at this restaurant on this day
-    const existingCustomerBooking = await db.query.bookings.findFirst({
-      where: and(
-        eq(bookings.customerId, customer.id),
-        eq(bookings.restaurantId, restaurantId),
-        eq(bookings.bookingDate, bookingDate),
-        eq(bookings.status, "confirmed")
-      ),
-    });
-
-    if (existingCustomerBooking) {
+    if (await hasBookingOnDate(db, customer.id, restaurantId, bookingDate)) {
       return NextResponse.json(
         { error: "You already have a booking at this restaurant on this date" },
         { status: 409 }
       );
     }
 
-    // Check if table is already booked at this time
-    const existingTableBooking = await db.query.bookings.findFirst({
-      where: and(
-        eq(bookings.tableId, tableId),
-        eq(bookings.bookingDate, bookingDate),
-        eq(bookings.bookingTime, bookingTime),
-        eq(bookings.status, "confirmed")
-      ),
-    });
+    // Large parties and peak slots may need a deposit, and stay pending until it is paid
+    const depositCents = getRequiredDeposit(restaurant.depositRules, { bookingDate, bookingTime, partySize });
 
-    if (existingTableBooking) {
-      return NextResponse.json(
-        { error: "This table is already booked at this time. Please select a different time." },
-        { status: 409 }
-      );
-    }
-
-    // Create the booking
-    const [booking] = await db
-      .insert(bookings)
-      .values({
+    // Create the booking and reserve every table in the seating
+    const booking = await insertBooking(
+      db,
+      {
         restaurantId,
-        tableId,
         customerId: customer.id,
         bookingDate,
         bookingTime,
         partySize,
+        durationMinutes,
         specialRequests: specialRequests || null,
-        status: "confirmed",
-      })
-      .returning();
+      },
+      seating,
+      session,
+      { status: depositCents ? "pending" : "confirmed" }
+    );
+
+    let deposit = null;
+    if (depositCents) {
+      const { payment, clientSecret } = await requestDeposit(
+        db,
+        env.PAYMENT_PROVIDER,
+        booking,
+        restaurant,
+        depositCents
+      );
+      deposit = {
+        paymentId: payment.id,
+        amountCents: payment.amountCents,
+        currency: payment.currency,
+        clientSecret,
+        payBy: new Date(booking.createdAt.getTime() + DEPOSIT_PAYMENT_MINUTES * 60 * 1000),
+      };
+    } else {
+      // Guests paying a deposit are sent their confirmation once it is paid
+      await notifyBookings(db, env, ctx, request.nextUrl.origin, "confirmation", [booking.id]);
+    }
+    await emitBookingWebhooks(db, ctx, "booking.created", [booking]);
 
-    return NextResponse.json({ booking }, { status: 201 });
+    // The guest's link to view, change or cancel this booking without an account
+    const manageToken = await createManageToken(booking, restaurant.timezone, env.AUTH_SECRET);
+
+    return NextResponse.json(
+      {
+        booking,
+        seating,
+        deposit,
+        manageToken,
+        manageUrl: getManageUrl(request.nextUrl.origin, manageToken),
+      },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating booking:", error);
     return NextResponse.json(
@@ -233,43 +253,34 @@ export async function GET(request: NextRequest) {
   const { env } = await getCloudflareContext();
   const db = getDb(env.DB);
   const { searchParams } = new URL(request.url);
-  const email = searchParams.get("email");
+  const session = getSession(request);
+
+  const authError = requireRole(session, "staff", "admin");
+  if (authError) {
+    return authError;
+  }
   
   try {
-    if (email) {
-      // Get bookings for a specific customer
-      const customer = await db.query.customers.findFirst({
-        where: eq(customers.email, email),
-      });
-
-      if (!customer) {
-        return NextResponse.json({ bookings: [] });
-      }
-
-      const customerBookings = await db.query.bookings.findMany({
-        where: eq(bookings.customerId, customer.id),
-        with: {
-          restaurant: true,
-          table: true,
-        },
-        orderBy: (bookings, { desc }) => [desc(bookings.bookingDate)],
-      });
-
-      return NextResponse.json({ bookings: customerBookings });
+    // Latest visits first, a page at a time, like booking search
+    const { page, error } = parseBookingPageParams(searchParams, MAX_PAGE_SIZE);
+    if (error !== null) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
     }
 
-    // Get all bookings (for admin)
-    const allBookings = await db.query.bookings.findMany({
-      with: {
-        restaurant: true,
-        table: true,
-        customer: true,
-      },
-      orderBy: (bookings, { desc }) => [desc(bookings.createdAt)],
-      limit: 100,
+    // Optionally only one customer's bookings. Staff only see bookings at their own restaurant.
+    const whereClause = await getBookingSearchWhere(db, {
+      customerEmail: searchParams.get("email") || undefined,
+      restaurantId: session.role === "staff" && session.restaurantId ? session.restaurantId : undefined,
     });
+    const result = await findBookingPage(db, whereClause, page);
 
-    return NextResponse.json({ bookings: allBookings });
+    return NextResponse.json({
+      ...result,
+      limit: page.limit,
+    });
   } catch (error) {
     console.error("Error fetching bookings:", error);
     return NextResponse.json(
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, restaurants } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getBookingSearchWhere, parseBookingSearchParams } from "@/lib/booking-search";
+import { renderCalendar } from "@/lib/icalendar";
+import { verifyCalendarFeedToken } from "@/lib/manage-tokens";
+import { getZonedDateTime } from "@/lib/timezone";
+
+// Most bookings a feed holds, soonest first
+const FEED_BOOKING_LIMIT = 500;
+
+const INVALID_LINK_ERROR = "This link is invalid or has expired";
+
+// GET /api/calendar/[token] - iCalendar feed of a restaurant's upcoming bookings
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const feed = await verifyCalendarFeedToken(token, env.AUTH_SECRET);
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const { restaurantId } = feed;
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // The feed was reset after this link was made
+    if (feed.version !== restaurant.calendarFeedVersion) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    // The feed takes the same filters as booking search, within its own restaurant
+    const { filters, error } = parseBookingSearchParams(request.nextUrl.searchParams);
+    if (error !== null) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      );
+    }
+    filters.restaurantId = restaurantId;
+    filters.status ??= "confirmed";
+    filters.dateFrom ??= getZonedDateTime(restaurant.timezone).date;
+
+    const whereClause = await getBookingSearchWhere(db, filters);
+    const feedBookings = whereClause === null ? [] : await db.query.bookings.findMany({
+      where: whereClause,
+      with: {
+        customer: true,
+      },
+      orderBy: (bookings, { asc }) => [asc(bookings.bookingDate), asc(bookings.bookingTime)],
+      limit: FEED_BOOKING_LIMIT,
+    });
+
+    const calendar = renderCalendar(
+      feedBookings.map((booking) => ({ ...booking, restaurant })),
+      { audience: "restaurant", host: request.nextUrl.host, name: restaurant.name }
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import { findDuplicateCustomers } from "@/lib/customers";
+
+// GET /api/customers/duplicates - List customers who look like the same guest
+export async function GET(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const allCustomers = await db.query.customers.findMany({
+      orderBy: (customers, { asc }) => [asc(customers.id)],
+    });
+
+    return NextResponse.json({ duplicates: findDuplicateCustomers(allCustomers) });
+  } catch (error) {
+    console.error("Error finding duplicate customers:", error);
+    return NextResponse.json(
+      { error: "Failed to find duplicate customers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, customers } from "@/db";
+import { inArray } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import { MAX_MERGE_DUPLICATES, mergeCustomers } from "@/lib/customers";
+
+interface MergeCustomersRequestBody {
+  // The customer kept, with its name, email and phone
+  survivorId: number;
+  duplicateIds: number[];
+}
+
+// POST /api/customers/merge - Merge duplicate customers into one
+export async function POST(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const body = await request.json() as MergeCustomersRequestBody;
+    const { survivorId, duplicateIds } = body;
+
+    if (!Number.isInteger(survivorId) || !Array.isArray(duplicateIds) || duplicateIds.length === 0) {
+      return NextResponse.json(
+        { error: "survivorId and a non-empty duplicateIds array are required" },
+        { status: 400 }
+      );
+    }
+
+    if (duplicateIds.length > MAX_MERGE_DUPLICATES) {
+      return NextResponse.json(
+        { error: `At most ${MAX_MERGE_DUPLICATES} duplicates can be merged at once` },
+        { status: 400 }
+      );
+    }
+
+    if (duplicateIds.includes(survivorId)) {
+      return NextResponse.json(
+        { error: "The surviving customer can't also be a duplicate" },
+        { status: 400 }
+      );
+    }
+
+    const ids = [...new Set([survivorId, ...duplicateIds])];
+    const found = await db.query.customers.findMany({
+      where: inArray(customers.id, ids),
+    });
+
+    if (found.length !== ids.length) {
+      const foundIds = found.map((c) => c.id);
+      return NextResponse.json(
+        { error: `Customers not found: ${ids.filter((id) => !foundIds.includes(id)).join(", ")}` },
+        { status: 404 }
+      );
+    }
+
+    const survivor = found.find((c) => c.id === survivorId)!;
+    const duplicates = found.filter((c) => c.id !== survivorId);
+    const result = await mergeCustomers(db, survivor, duplicates, session);
+
+    return NextResponse.json({
+      customer: survivor,
+      mergedCustomerIds: duplicates.map((c) => c.id),
+      ...result,
+      message: `Merged ${duplicates.length} ${duplicates.length === 1 ? "customer" : "customers"} into ${survivor.name}`,
+    });
+  } catch (error) {
+    console.error("Error merging customers:", error);
+    return NextResponse.json(
+      { error: "Failed to merge customers" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import { runScheduledJobs } from "@/lib/scheduled-jobs";
+
+// POST /api/jobs/run - Run the scheduled booking jobs now, optionally as of another time
+export async function POST(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    // Pretend it is another time, to try out the jobs without waiting for it
+    const nowParam = request.nextUrl.searchParams.get("now");
+    const now = nowParam ? new Date(nowParam) : new Date();
+
+    if (isNaN(now.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid now. Use an ISO 8601 date and time such as 2025-10-16T09:00:00Z" },
+        { status: 400 }
+      );
+    }
+
+    const result = await runScheduledJobs(db, env, now);
+
+    return NextResponse.json({ now, result });
+  } catch (error) {
+    console.error("Error running scheduled jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to run scheduled jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, bookings } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { GUEST_SESSION } from "@/lib/auth";
+import { BookingError } from "@/lib/bookings";
+import { verifyManageToken } from "@/lib/manage-tokens";
+import { notifyBookings } from "@/lib/notifications";
+import { confirmDeposit } from "@/lib/payments";
+import { emitBookingWebhooks } from "@/lib/webhooks";
+
+interface PayDepositRequestBody {
+  // The payment method the guest entered with the provider
+  paymentMethod: string;
+}
+
+// POST /api/manage/[token]/deposit - Pay the deposit and confirm the booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const bookingId = await verifyManageToken(token, env.AUTH_SECRET);
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: "This link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as PayDepositRequestBody;
+
+    if (!body.paymentMethod) {
+      return NextResponse.json(
+        { error: "Missing required field: paymentMethod" },
+        { status: 400 }
+      );
+    }
+
+    const existingBooking = await db.query.bookings.findFirst({
+      where: eq(bookings.id, bookingId),
+      with: {
+        restaurant: true,
+      },
+    });
+
+    if (!existingBooking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    const { booking, payment } = await confirmDeposit(
+      db,
+      existingBooking,
+      body.paymentMethod,
+      GUEST_SESSION
+    );
+    await notifyBookings(db, env, ctx, request.nextUrl.origin, "confirmation", [booking.id]);
+    await emitBookingWebhooks(db, ctx, "booking.status_changed", [booking]);
+
+    return NextResponse.json({
+      booking,
+      payment: {
+        id: payment.id,
+        amountCents: payment.amountCents,
+        currency: payment.currency,
+        status: payment.status,
+      },
+      message: "Deposit paid and booking confirmed",
+    });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error paying deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to pay deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, bookings } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { GUEST_SESSION } from "@/lib/auth";
+import {
+  BookingError,
+  cancelBooking,
+  findBookingForUpdate,
+  updateBooking,
+} from "@/lib/bookings";
+import { evaluateCancellation } from "@/lib/cancellation-policies";
+import { getRequiredDeposit } from "@/lib/deposit-rules";
+import { createManageToken, getManageUrl, verifyManageToken } from "@/lib/manage-tokens";
+import { notifyBookings, notifyWaitlistOffers } from "@/lib/notifications";
+import { formatAmount, settleDeposits } from "@/lib/payments";
+import { offerFreedSeating } from "@/lib/waitlist";
+import { emitBookingWebhooks } from "@/lib/webhooks";
+
+// Guests may only change the visit itself. Contact details belong to the
+// customer record, which can be shared by several bookings.
+interface ManageBookingRequestBody {
+  bookingDate?: string;
+  bookingTime?: string;
+  partySize?: number;
+  specialRequests?: string;
+}
+
+const INVALID_LINK_ERROR = "This link is invalid or has expired";
+
+// GET /api/manage/[token] - View the booking a manage link belongs to
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const bookingId = await verifyManageToken(token, env.AUTH_SECRET);
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const booking = await db.query.bookings.findFirst({
+      where: eq(bookings.id, bookingId),
+      with: {
+        restaurant: {
+          with: {
+            cancellationPolicies: true,
+          },
+        },
+        table: true,
+        tableGroup: true,
+        customer: true,
+        payments: {
+          columns: {
+            id: true,
+            amountCents: true,
+            currency: true,
+            status: true,
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    // What cancelling now would mean, so the guest can decide before they do
+    const { cancellationPolicies, ...restaurant } = booking.restaurant;
+    const cancellation = evaluateCancellation(cancellationPolicies, booking, restaurant.timezone);
+
+    return NextResponse.json({ booking: { ...booking, restaurant }, cancellation });
+  } catch (error) {
+    console.error("Error fetching managed booking:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/manage/[token] - Change the date, time, party size or requests
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const bookingId = await verifyManageToken(token, env.AUTH_SECRET);
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as ManageBookingRequestBody;
+    const { bookingDate, bookingTime, partySize, specialRequests } = body;
+
+    const existingBooking = await findBookingForUpdate(db, bookingId);
+
+    if (!existingBooking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    // Guests can't change their way into a bigger deposit than the booking already
+    // has. Changes that need no more than that are covered by the deposit they have
+    // paid, or by the one still waiting to be paid on a pending booking.
+    const { restaurant } = existingBooking;
+    const requiredDeposit = getRequiredDeposit(restaurant.depositRules, {
+      bookingDate: bookingDate || existingBooking.bookingDate,
+      bookingTime: bookingTime || existingBooking.bookingTime,
+      partySize: partySize ?? existingBooking.partySize,
+    });
+    const coveredDeposit = Math.max(
+      getRequiredDeposit(restaurant.depositRules, existingBooking) ?? 0,
+      existingBooking.payments.find((p) => p.status === "authorized")?.amountCents ?? 0
+    );
+    if (requiredDeposit && requiredDeposit > coveredDeposit) {
+      return NextResponse.json(
+        {
+          error: `This change needs a deposit of ${formatAmount(requiredDeposit, restaurant.currency)}. Please contact the restaurant to make it.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Guests don't pick tables, so move them if their current ones no longer work
+    const updatedBooking = await updateBooking(
+      db,
+      existingBooking,
+      { bookingDate, bookingTime, partySize, specialRequests },
+      GUEST_SESSION,
+      { reassignTables: true, note: "Changed through the manage link" }
+    );
+
+    await notifyBookings(db, env, ctx, request.nextUrl.origin, "modification", [updatedBooking.id]);
+    await emitBookingWebhooks(db, ctx, "booking.updated", [updatedBooking]);
+
+    // The old link expires with the old visit time, so hand out a new one
+    const manageToken = await createManageToken(
+      updatedBooking,
+      existingBooking.restaurant.timezone,
+      env.AUTH_SECRET
+    );
+
+    return NextResponse.json({
+      booking: updatedBooking,
+      manageToken,
+      manageUrl: getManageUrl(request.nextUrl.origin, manageToken),
+    });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error updating managed booking:", error);
+    return NextResponse.json(
+      { error: "Failed to update booking" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/manage/[token] - Cancel the booking
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const bookingId = await verifyManageToken(token, env.AUTH_SECRET);
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const existingBooking = await db.query.bookings.findFirst({
+      where: eq(bookings.id, bookingId),
+      with: {
+        restaurant: true,
+      },
+    });
+
+    if (!existingBooking) {
+      return NextResponse.json(
+        { error: "Booking not found" },
+        { status: 404 }
+      );
+    }
+
+    const cancelledBooking = await cancelBooking(db, existingBooking, GUEST_SESSION);
+    await settleDeposits(db, [cancelledBooking]);
+    await notifyBookings(db, env, ctx, request.nextUrl.origin, "cancellation", [cancelledBooking.id]);
+    await emitBookingWebhooks(db, ctx, "booking.cancelled", [cancelledBooking]);
+
+    // Offer the freed tables to the waitlist
+    const offers = await offerFreedSeating(db, [cancelledBooking]);
+    await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
+
+    return NextResponse.json({
+      booking: cancelledBooking,
+      message: "Booking cancelled successfully",
+    });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error cancelling managed booking:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel booking" },
+      { status: 500 }
+    );
+  }
+}
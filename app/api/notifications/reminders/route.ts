@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import { deliverNotifications, queueReminders } from "@/lib/notifications";
+
+// POST /api/notifications/reminders - Queue day-before reminders for tomorrow's bookings and send them
+export async function POST(request: NextRequest) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const queued = await queueReminders(db, {
+      origin: env.APP_URL || request.nextUrl.origin,
+      secret: env.AUTH_SECRET,
+    });
+
+    ctx.waitUntil(
+      deliverNotifications(db, env.NOTIFICATION_TRANSPORT).catch((error) =>
+        console.error("Error delivering notifications:", error)
+      )
+    );
+
+    return NextResponse.json({
+      message: `Queued ${queued} reminders`,
+      queued,
+    });
+  } catch (error) {
+    console.error("Error queueing reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to queue reminders" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getAvailableSlots, seatingRelations } from "@/lib/availability";
+import { validateBookingDate, validatePartySize } from "@/lib/booking-rules";
+import { isValidDate } from "@/lib/time";
+
+// GET /api/restaurants/[id]/availability - Get bookable time slots for a date and party size
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const date = searchParams.get("date");
+    const partySize = parseInt(searchParams.get("partySize") || "");
+
+    if (!date || isNaN(partySize)) {
+      return NextResponse.json(
+        { error: "date and partySize are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidDate(date)) {
+      return NextResponse.json(
+        { error: "Invalid date format. Use YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const partySizeError = validatePartySize(partySize);
+    if (partySizeError) {
+      return NextResponse.json(
+        { error: partySizeError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Past and far-off dates are judged by the restaurant's calendar, not the server's
+    const dateError = validateBookingDate(date, restaurant.timezone);
+    if (dateError) {
+      return NextResponse.json(
+        { error: dateError },
+        { status: 400 }
+      );
+    }
+
+    const slots = await getAvailableSlots(db, restaurant, date, partySize);
+
+    return NextResponse.json({
+      restaurantId,
+      date,
+      partySize,
+      slots,
+    });
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, restaurants } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { seatingRelations } from "@/lib/availability";
+import { importBookings } from "@/lib/booking-import";
+import { BookingError } from "@/lib/bookings";
+
+interface ImportRequestBody {
+  csv: string;
+  // Check every row and report the errors without creating anything
+  dryRun?: boolean;
+  // Field name to the CSV header holding it, for headers that aren't recognised
+  columns?: Record<string, string>;
+}
+
+// POST /api/restaurants/[id]/bookings/import - Import reservations from a CSV file
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as ImportRequestBody;
+
+    if (typeof body.csv !== "string" || !body.csv.trim()) {
+      return NextResponse.json(
+        { error: "Missing required field: csv" },
+        { status: 400 }
+      );
+    }
+
+    if (body.columns !== undefined && (typeof body.columns !== "object" || Array.isArray(body.columns))) {
+      return NextResponse.json(
+        { error: "columns must map field names to CSV headers" },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Guests are not emailed and webhooks are not called for imported bookings,
+    // as the restaurant's old system already told them about the reservations
+    const report = await importBookings(db, restaurant, body.csv, {
+      actor: session,
+      dryRun: body.dryRun === true,
+      columns: body.columns,
+    });
+
+    return NextResponse.json({
+      ...report,
+      message: report.dryRun
+        ? `${report.validRows} of ${report.totalRows} rows can be imported`
+        : `Imported ${report.createdBookings} of ${report.totalRows} rows`,
+    }, { status: report.createdBookings > 0 ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error importing bookings:", error);
+    return NextResponse.json(
+      { error: "Failed to import bookings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, restaurants } from "@/db";
+import { eq, sql } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { createCalendarFeedToken, getCalendarFeedUrl } from "@/lib/manage-tokens";
+
+// POST /api/restaurants/[id]/calendar-feed/reset - Revoke every calendar feed link and create a new one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Links signed with an earlier version stop opening the feed
+    const [restaurant] = await db
+      .update(restaurants)
+      .set({ calendarFeedVersion: sql`${restaurants.calendarFeedVersion} + 1` })
+      .where(eq(restaurants.id, restaurantId))
+      .returning();
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const { token, expiresAt } = await createCalendarFeedToken(restaurant, env.AUTH_SECRET);
+
+    return NextResponse.json({
+      feedUrl: getCalendarFeedUrl(request.nextUrl.origin, token),
+      expiresAt,
+    }, { status: 201 });
+  } catch (error) {
+    console.error("Error resetting calendar feed:", error);
+    return NextResponse.json(
+      { error: "Failed to reset calendar feed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, cancellationPolicies } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import {
+  validateCancellationPolicies,
+  type CancellationPolicyInput,
+} from "@/lib/cancellation-policies";
+
+interface UpdateCancellationPoliciesRequestBody {
+  cancellationPolicies: CancellationPolicyInput[];
+}
+
+// D1 binds at most 100 parameters per statement and each policy row uses 4
+const POLICIES_PER_INSERT = 25;
+
+// PUT /api/restaurants/[id]/cancellation-policies - Replace the cancellation policies
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateCancellationPoliciesRequestBody;
+    const policies = body.cancellationPolicies;
+
+    if (!policies || !Array.isArray(policies)) {
+      return NextResponse.json(
+        { error: "cancellationPolicies must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateCancellationPolicies(policies);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Bookings already cancelled keep the outcome they were given. The old policies
+    // are only removed if every new one is saved, as one batch.
+    const rows = policies.map((p) => ({
+      restaurantId,
+      minPartySize: p.minPartySize,
+      freeCancellationHours: p.freeCancellationHours,
+      lateCancellationFeeCents: p.lateCancellationFeeCents ?? null,
+    }));
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += POLICIES_PER_INSERT) {
+      inserts.push(
+        db.insert(cancellationPolicies).values(rows.slice(i, i + POLICIES_PER_INSERT)).returning()
+      );
+    }
+    const [, ...inserted] = await db.batch([
+      db.delete(cancellationPolicies).where(eq(cancellationPolicies.restaurantId, restaurantId)),
+      ...inserts,
+    ]);
+    const updatedPolicies = inserted.flat();
+
+    return NextResponse.json({ cancellationPolicies: updatedPolicies });
+  } catch (error) {
+    console.error("Error updating cancellation policies:", error);
+    return NextResponse.json(
+      { error: "Failed to update cancellation policies" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, customers } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import {
+  getCustomerProfile,
+  updateCustomerProfile,
+  validateCustomerProfileChanges,
+  type CustomerProfileChanges,
+} from "@/lib/customer-profiles";
+
+type UpdateCustomerProfileRequestBody = CustomerProfileChanges;
+
+const PROFILE_FIELDS = ["allergies", "notes", "tags"] as const;
+
+// GET /api/restaurants/[id]/customers/[customerId] - Get a customer's profile at the restaurant
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; customerId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const customerId = parseInt(resolvedParams.customerId);
+
+    if (isNaN(restaurantId) || isNaN(customerId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or customer ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, customerId),
+    });
+    // Staff only see customers who have booked with them
+    const profile = customer && await getCustomerProfile(db, restaurantId, customerId);
+
+    if (!customer || !profile) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ customer, profile });
+  } catch (error) {
+    console.error("Error fetching customer profile:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch customer profile" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/restaurants/[id]/customers/[customerId] - Update allergies, notes and tags
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; customerId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const customerId = parseInt(resolvedParams.customerId);
+
+    if (isNaN(restaurantId) || isNaN(customerId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or customer ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateCustomerProfileRequestBody;
+    const changes: CustomerProfileChanges = Object.fromEntries(
+      PROFILE_FIELDS.filter((field) => body[field] !== undefined).map((field) => [field, body[field]])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json(
+        { error: "No changes provided" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateCustomerProfileChanges(changes);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const customer = await db.query.customers.findFirst({
+      where: eq(customers.id, customerId),
+    });
+    const existingProfile = customer && await getCustomerProfile(db, restaurantId, customerId);
+
+    if (!customer || !existingProfile) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    await updateCustomerProfile(db, restaurantId, customerId, changes);
+    const profile = await getCustomerProfile(db, restaurantId, customerId);
+
+    return NextResponse.json({ customer, profile });
+  } catch (error) {
+    console.error("Error updating customer profile:", error);
+    return NextResponse.json(
+      { error: "Failed to update customer profile" },
+      { status: 500 }
+    );
+  }
+}
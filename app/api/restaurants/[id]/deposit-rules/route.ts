@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, depositRules } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { validateDepositRules, type DepositRuleInput } from "@/lib/deposit-rules";
+
+interface UpdateDepositRulesRequestBody {
+  depositRules: DepositRuleInput[];
+}
+
+// D1 binds at most 100 parameters per statement and each rule row uses 6
+const RULES_PER_INSERT = 16;
+
+// PUT /api/restaurants/[id]/deposit-rules - Replace the deposit rules
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateDepositRulesRequestBody;
+    const rules = body.depositRules;
+
+    if (!rules || !Array.isArray(rules)) {
+      return NextResponse.json(
+        { error: "depositRules must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateDepositRules(rules);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Deposits already requested keep their amount. The old rules are only removed
+    // if every new one is saved, as one batch.
+    const rows = rules.map((r) => ({
+      restaurantId,
+      minPartySize: r.minPartySize,
+      dayOfWeek: r.dayOfWeek ?? null,
+      startTime: r.startTime ?? null,
+      endTime: r.endTime ?? null,
+      amountCents: r.amountCents,
+    }));
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += RULES_PER_INSERT) {
+      inserts.push(db.insert(depositRules).values(rows.slice(i, i + RULES_PER_INSERT)).returning());
+    }
+    const [, ...inserted] = await db.batch([
+      db.delete(depositRules).where(eq(depositRules.restaurantId, restaurantId)),
+      ...inserts,
+    ]);
+    const updatedRules = inserted.flat();
+
+    return NextResponse.json({ depositRules: updatedRules });
+  } catch (error) {
+    console.error("Error updating deposit rules:", error);
+    return NextResponse.json(
+      { error: "Failed to update deposit rules" },
+      { status: 500 }
+    );
+  }
+}
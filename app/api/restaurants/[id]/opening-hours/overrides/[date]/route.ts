@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, openingHoursOverrides } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { validateDateOverride } from "@/lib/restaurants";
+
+interface SetOverrideRequestBody {
+  isClosed?: boolean;
+  hours?: { openTime: string; closeTime: string }[];
+  reason?: string;
+}
+
+// D1 binds at most 100 parameters per statement and each override row uses 6
+const OVERRIDES_PER_INSERT = 16;
+
+// PUT /api/restaurants/[id]/opening-hours/overrides/[date] - Close or set special hours on a date
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; date: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const { date } = resolvedParams;
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as SetOverrideRequestBody;
+    const { isClosed = false, hours = [], reason } = body;
+
+    const validationError = validateDateOverride({ date, isClosed, hours });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Existing bookings on the date are kept; staff contact affected guests themselves.
+    // The old override is only removed if every new row is saved, as one batch.
+    const rows = isClosed
+      ? [{ restaurantId, date, isClosed: true, reason: reason || null }]
+      : hours.map((h) => ({
+          restaurantId,
+          date,
+          openTime: h.openTime,
+          closeTime: h.closeTime,
+          reason: reason || null,
+        }));
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += OVERRIDES_PER_INSERT) {
+      inserts.push(
+        db.insert(openingHoursOverrides).values(rows.slice(i, i + OVERRIDES_PER_INSERT)).returning()
+      );
+    }
+    const [, ...inserted] = await db.batch([
+      db
+        .delete(openingHoursOverrides)
+        .where(and(eq(openingHoursOverrides.restaurantId, restaurantId), eq(openingHoursOverrides.date, date))),
+      ...inserts,
+    ]);
+    const overrides = inserted.flat();
+
+    return NextResponse.json({ overrides });
+  } catch (error) {
+    console.error("Error setting opening hours override:", error);
+    return NextResponse.json(
+      { error: "Failed to set opening hours override" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/restaurants/[id]/opening-hours/overrides/[date] - Go back to the weekly hours on a date
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; date: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const { date } = resolvedParams;
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const deleted = await db
+      .delete(openingHoursOverrides)
+      .where(and(eq(openingHoursOverrides.restaurantId, restaurantId), eq(openingHoursOverrides.date, date)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: "No override found for this date" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Override removed successfully" });
+  } catch (error) {
+    console.error("Error removing opening hours override:", error);
+    return NextResponse.json(
+      { error: "Failed to remove opening hours override" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, openingHoursOverrides, restaurants } from "@/db";
+import { and, eq, gte, lte } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { isValidDate } from "@/lib/time";
+import { getZonedDateTime } from "@/lib/timezone";
+
+// GET /api/restaurants/[id]/opening-hours/overrides - List closures and special hours
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Upcoming dates by default, from today in the restaurant's timezone
+    const from = searchParams.get("from") || getZonedDateTime(restaurant.timezone).date;
+    const to = searchParams.get("to");
+
+    if (!isValidDate(from) || (to && !isValidDate(to))) {
+      return NextResponse.json(
+        { error: "Invalid date format. Use YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const conditions = [
+      eq(openingHoursOverrides.restaurantId, restaurantId),
+      gte(openingHoursOverrides.date, from),
+    ];
+    if (to) {
+      conditions.push(lte(openingHoursOverrides.date, to));
+    }
+
+    const overrides = await db.query.openingHoursOverrides.findMany({
+      where: and(...conditions),
+      orderBy: (overrides, { asc }) => [asc(overrides.date), asc(overrides.openTime)],
+    });
+
+    return NextResponse.json({ overrides });
+  } catch (error) {
+    console.error("Error fetching opening hours overrides:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch opening hours overrides" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, openingHours } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { validateOpeningHours, type OpeningHoursInput } from "@/lib/restaurants";
+
+interface UpdateOpeningHoursRequestBody {
+  openingHours: OpeningHoursInput[];
+}
+
+// D1 binds at most 100 parameters per statement and each opening hours row uses 6
+const OPENING_HOURS_PER_INSERT = 16;
+
+// PUT /api/restaurants/[id]/opening-hours - Replace the weekly opening hours
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateOpeningHoursRequestBody;
+    const hours = body.openingHours;
+
+    if (!hours || !Array.isArray(hours)) {
+      return NextResponse.json(
+        { error: "openingHours must be an array" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateOpeningHours(hours);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Existing bookings are kept even if they now fall outside the new hours. The old
+    // hours are only removed if every new row is saved, as one batch.
+    const rows = hours.map((h) => ({
+      restaurantId,
+      dayOfWeek: h.dayOfWeek,
+      name: h.name || null,
+      openTime: h.openTime,
+      closeTime: h.closeTime,
+      isClosed: h.isClosed ?? false,
+    }));
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += OPENING_HOURS_PER_INSERT) {
+      inserts.push(
+        db.insert(openingHours).values(rows.slice(i, i + OPENING_HOURS_PER_INSERT)).returning()
+      );
+    }
+    const [, ...inserted] = await db.batch([
+      db.delete(openingHours).where(eq(openingHours.restaurantId, restaurantId)),
+      ...inserts,
+    ]);
+    const updatedHours = inserted.flat();
+
+    return NextResponse.json({ openingHours: updatedHours });
+  } catch (error) {
+    console.error("Error updating opening hours:", error);
+    return NextResponse.json(
+      { error: "Failed to update opening hours" },
+      { status: 500 }
+    );
+  }
+}
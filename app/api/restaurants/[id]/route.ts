@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDb } from "@/db";
+import { getDb, bookings, openingHoursOverrides, restaurants } from "@/db";
+import { and, eq, gte, inArray } from "drizzle-orm";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess, requireRole } from "@/lib/auth";
+import { ACTIVE_BOOKING_STATUSES } from "@/lib/booking-lifecycle";
+import { validateRestaurantFields, type RestaurantFields } from "@/lib/restaurants";
+import { getZonedDateTime } from "@/lib/timezone";
+
+const EDITABLE_FIELDS = [
+  "name",
+  "description",
+  "address",
+  "phone",
+  "email",
+  "cuisine",
+  "priceRange",
+  "imageUrl",
+  "defaultSeatingMinutes",
+  "timezone",
+  "currency",
+] as const;
 
 export async function GET(
   request: NextRequest,
@@ -15,7 +34,15 @@ export async function GET(
       where: (restaurants, { eq }) => eq(restaurants.id, parseInt(id)),
       with: {
         openingHours: true,
+        seatingDurations: true,
+        cancellationPolicies: true,
+        depositRules: true,
         tables: true,
+        tableGroups: {
+          with: {
+            members: true,
+          },
+        },
       },
     });
     
@@ -25,8 +52,18 @@ export async function GET(
         { status: 404 }
       );
     }
+
+    // Upcoming closures and special hours, from today in the restaurant's timezone
+    const today = getZonedDateTime(restaurant.timezone).date;
+    const upcomingOverrides = await db.query.openingHoursOverrides.findMany({
+      where: and(
+        eq(openingHoursOverrides.restaurantId, restaurant.id),
+        gte(openingHoursOverrides.date, today)
+      ),
+      orderBy: (overrides, { asc }) => [asc(overrides.date), asc(overrides.openTime)],
+    });
     
-    return NextResponse.json({ restaurant });
+    return NextResponse.json({ restaurant: { ...restaurant, openingHoursOverrides: upcomingOverrides } });
   } catch (error) {
     console.error("Error fetching restaurant:", error);
     return NextResponse.json(
@@ -36,3 +73,142 @@ export async function GET(
   }
 }
 
+
+// PUT /api/restaurants/[id] - Update restaurant details
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as Partial<RestaurantFields>;
+
+    // Only copy known columns so IDs and timestamps can't be overwritten
+    const updateData: Partial<RestaurantFields> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) {
+        Object.assign(updateData, { [field]: body[field] });
+      }
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateRestaurantFields(updateData, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const [restaurant] = await db
+      .update(restaurants)
+      .set(updateData)
+      .where(eq(restaurants.id, restaurantId))
+      .returning();
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ restaurant });
+  } catch (error) {
+    console.error("Error updating restaurant:", error);
+    return NextResponse.json(
+      { error: "Failed to update restaurant" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/restaurants/[id] - Delete a restaurant and all its data (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // Guests with upcoming reservations must be contacted and cancelled first
+    const today = getZonedDateTime(restaurant.timezone).date;
+    const upcomingBooking = await db.query.bookings.findFirst({
+      where: and(
+        eq(bookings.restaurantId, restaurantId),
+        inArray(bookings.status, ACTIVE_BOOKING_STATUSES),
+        gte(bookings.bookingDate, today)
+      ),
+    });
+
+    if (upcomingBooking) {
+      return NextResponse.json(
+        { error: "Restaurant has upcoming bookings. Cancel them before deleting the restaurant." },
+        { status: 409 }
+      );
+    }
+
+    // Opening hours, tables and past bookings are removed by cascade
+    await db.delete(restaurants).where(eq(restaurants.id, restaurantId));
+
+    return NextResponse.json({ message: "Restaurant deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting restaurant:", error);
+    return NextResponse.json(
+      { error: "Failed to delete restaurant" },
+      { status: 500 }
+    );
+  }
+}
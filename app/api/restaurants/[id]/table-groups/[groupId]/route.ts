@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, tableGroups } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+
+// DELETE /api/restaurants/[id]/table-groups/[groupId] - Remove a joinable table group
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; groupId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const groupId = parseInt(resolvedParams.groupId);
+
+    if (isNaN(restaurantId) || isNaN(groupId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or table group ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Existing bookings keep their reserved tables in booking_tables
+    const [deletedGroup] = await db
+      .delete(tableGroups)
+      .where(and(eq(tableGroups.id, groupId), eq(tableGroups.restaurantId, restaurantId)))
+      .returning();
+
+    if (!deletedGroup) {
+      return NextResponse.json(
+        { error: "Table group not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Table group deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting table group:", error);
+    return NextResponse.json(
+      { error: "Failed to delete table group" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, tableGroups, tableGroupMembers } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+
+interface CreateTableGroupRequestBody {
+  name: string;
+  tableIds: number[];
+  capacity?: number;
+}
+
+// GET /api/restaurants/[id]/table-groups - List joinable table groups
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const groups = await db.query.tableGroups.findMany({
+      where: eq(tableGroups.restaurantId, restaurantId),
+      with: {
+        members: true,
+      },
+      orderBy: (tableGroups, { asc }) => [asc(tableGroups.name)],
+    });
+
+    return NextResponse.json({ tableGroups: groups });
+  } catch (error) {
+    console.error("Error fetching table groups:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch table groups" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/restaurants/[id]/table-groups - Define tables that can be joined together
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as CreateTableGroupRequestBody;
+    const { name, tableIds, capacity } = body;
+
+    if (!name || !tableIds || !Array.isArray(tableIds)) {
+      return NextResponse.json(
+        { error: "name and tableIds are required" },
+        { status: 400 }
+      );
+    }
+
+    const uniqueTableIds = [...new Set(tableIds)];
+    if (uniqueTableIds.length < 2) {
+      return NextResponse.json(
+        { error: "A table group needs at least 2 different tables" },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: {
+        tables: true,
+      },
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const memberTables = restaurant.tables.filter((t) => uniqueTableIds.includes(t.id));
+    if (memberTables.length !== uniqueTableIds.length) {
+      const foundIds = memberTables.map((t) => t.id);
+      const missingIds = uniqueTableIds.filter((id) => !foundIds.includes(id));
+      return NextResponse.json(
+        { error: `Tables not found: ${missingIds.join(", ")}` },
+        { status: 404 }
+      );
+    }
+
+    // Joined tables usually lose a few seats, so the combined capacity can be set explicitly
+    const groupCapacity = capacity ?? memberTables.reduce((sum, t) => sum + t.capacity, 0);
+    if (!Number.isInteger(groupCapacity) || groupCapacity < 1) {
+      return NextResponse.json(
+        { error: "Capacity must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const [tableGroup] = await db
+      .insert(tableGroups)
+      .values({
+        restaurantId,
+        name,
+        capacity: groupCapacity,
+      })
+      .returning();
+
+    const members = await db
+      .insert(tableGroupMembers)
+      .values(uniqueTableIds.map((tableId) => ({ tableGroupId: tableGroup.id, tableId })))
+      .returning();
+
+    return NextResponse.json(
+      { tableGroup: { ...tableGroup, members } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating table group:", error);
+    return NextResponse.json(
+      { error: "Failed to create table group" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, bookingTables, tables } from "@/db";
+import { and, eq, ne } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { validateTable, type TableInput } from "@/lib/restaurants";
+
+// PUT /api/restaurants/[id]/tables/[tableId] - Update a table, or deactivate it with isActive: false
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; tableId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const tableId = parseInt(resolvedParams.tableId);
+
+    if (isNaN(restaurantId) || isNaN(tableId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or table ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as Partial<TableInput>;
+    const { tableNumber, capacity, isActive } = body;
+
+    if (tableNumber === undefined && capacity === undefined && isActive === undefined) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateTable({ tableNumber, capacity, isActive }, true);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (tableNumber !== undefined) {
+      const duplicateTable = await db.query.tables.findFirst({
+        where: and(
+          eq(tables.restaurantId, restaurantId),
+          eq(tables.tableNumber, tableNumber),
+          ne(tables.id, tableId)
+        ),
+      });
+
+      if (duplicateTable) {
+        return NextResponse.json(
+          { error: `Table ${tableNumber} already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Deactivating a table keeps its existing bookings but stops new ones
+    const [table] = await db
+      .update(tables)
+      .set({ tableNumber, capacity, isActive })
+      .where(and(eq(tables.id, tableId), eq(tables.restaurantId, restaurantId)))
+      .returning();
+
+    if (!table) {
+      return NextResponse.json(
+        { error: "Table not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ table });
+  } catch (error) {
+    console.error("Error updating table:", error);
+    return NextResponse.json(
+      { error: "Failed to update table" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/restaurants/[id]/tables/[tableId] - Remove a table that has never been booked
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; tableId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const tableId = parseInt(resolvedParams.tableId);
+
+    if (isNaN(restaurantId) || isNaN(tableId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or table ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    // Deleting would cascade to the table's bookings, so keep booking history intact
+    const booked = await db.query.bookingTables.findFirst({
+      where: eq(bookingTables.tableId, tableId),
+    });
+
+    if (booked) {
+      return NextResponse.json(
+        { error: "Table has bookings and cannot be deleted. Deactivate it instead." },
+        { status: 409 }
+      );
+    }
+
+    const [deletedTable] = await db
+      .delete(tables)
+      .where(and(eq(tables.id, tableId), eq(tables.restaurantId, restaurantId)))
+      .returning();
+
+    if (!deletedTable) {
+      return NextResponse.json(
+        { error: "Table not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Table deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting table:", error);
+    return NextResponse.json(
+      { error: "Failed to delete table" },
+      { status: 500 }
+    );
+  }
+}
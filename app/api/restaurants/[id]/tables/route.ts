@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, tables } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { validateTable, type TableInput } from "@/lib/restaurants";
+
+// GET /api/restaurants/[id]/tables - List a restaurant's tables, including inactive ones
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const restaurantTables = await db.query.tables.findMany({
+      where: eq(tables.restaurantId, restaurantId),
+      orderBy: (tables, { asc }) => [asc(tables.tableNumber)],
+    });
+
+    return NextResponse.json({ tables: restaurantTables });
+  } catch (error) {
+    console.error("Error fetching tables:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tables" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/restaurants/[id]/tables - Add a table
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as TableInput;
+    const { tableNumber, capacity, isActive = true } = body;
+
+    const validationError = validateTable({ tableNumber, capacity, isActive });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const existingTable = await db.query.tables.findFirst({
+      where: and(eq(tables.restaurantId, restaurantId), eq(tables.tableNumber, tableNumber)),
+    });
+
+    if (existingTable) {
+      return NextResponse.json(
+        { error: `Table ${tableNumber} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const [table] = await db
+      .insert(tables)
+      .values({ restaurantId, tableNumber, capacity, isActive })
+      .returning();
+
+    return NextResponse.json({ table }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating table:", error);
+    return NextResponse.json(
+      { error: "Failed to create table" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, walkIns } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { seatingRelations } from "@/lib/availability";
+import { BookingError } from "@/lib/bookings";
+import { updateWalkInStatus, WALK_IN_STATUSES } from "@/lib/walk-ins";
+
+interface UpdateWalkInRequestBody {
+  status: "seated" | "completed" | "left";
+  // When seating: use this table or group instead of the best free one
+  tableId?: number;
+  tableGroupId?: number;
+}
+
+// PATCH /api/restaurants/[id]/walk-ins/[walkInId] - Seat a queued party, or mark them left or finished
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; walkInId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const walkInId = parseInt(resolvedParams.walkInId);
+
+    if (isNaN(restaurantId) || isNaN(walkInId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or walk-in ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateWalkInRequestBody;
+    const { status, tableId, tableGroupId } = body;
+
+    if (!status || !WALK_IN_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${WALK_IN_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const walkIn = await db.query.walkIns.findFirst({
+      where: and(eq(walkIns.id, walkInId), eq(walkIns.restaurantId, restaurantId)),
+    });
+
+    if (!walkIn) {
+      return NextResponse.json(
+        { error: "Walk-in not found" },
+        { status: 404 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const updatedWalkIn = await updateWalkInStatus(db, restaurant, walkIn, status, {
+      tableId,
+      tableGroupId,
+    });
+
+    return NextResponse.json({ walkIn: updatedWalkIn });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error updating walk-in:", error);
+    return NextResponse.json(
+      { error: "Failed to update walk-in" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb } from "@/db";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { seatingRelations } from "@/lib/availability";
+import { validatePartySize } from "@/lib/booking-rules";
+import { BookingError } from "@/lib/bookings";
+import { isValidDate } from "@/lib/time";
+import { getZonedDateTime } from "@/lib/timezone";
+import { addWalkIn, listWalkIns, type WalkInDetails } from "@/lib/walk-ins";
+
+// GET /api/restaurants/[id]/walk-ins - List walk-ins for a date (default today) with wait estimates
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const { searchParams } = new URL(request.url);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const date = searchParams.get("date") || getZonedDateTime(restaurant.timezone).date;
+    if (!isValidDate(date)) {
+      return NextResponse.json(
+        { error: "Invalid date format. Use YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const walkIns = await listWalkIns(db, restaurant, date);
+
+    return NextResponse.json({ date, walkIns });
+  } catch (error) {
+    console.error("Error fetching walk-ins:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch walk-ins" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/restaurants/[id]/walk-ins - Seat a walk-in now, or queue them with a quoted wait
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as WalkInDetails;
+    const { partyName, partySize, phone, notes, tableId, tableGroupId, queue } = body;
+
+    if (!partyName || typeof partyName !== "string" || partyName.trim() === "") {
+      return NextResponse.json(
+        { error: "partyName is required" },
+        { status: 400 }
+      );
+    }
+
+    const partySizeError = validatePartySize(partySize);
+    if (partySizeError) {
+      return NextResponse.json(
+        { error: partySizeError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const walkIn = await addWalkIn(db, restaurant, {
+      partyName: partyName.trim(),
+      partySize,
+      phone,
+      notes,
+      tableId,
+      tableGroupId,
+      queue,
+    });
+
+    return NextResponse.json({ walkIn }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error adding walk-in:", error);
+    return NextResponse.json(
+      { error: "Failed to add walk-in" },
+      { status: 500 }
+    );
+  }
+}
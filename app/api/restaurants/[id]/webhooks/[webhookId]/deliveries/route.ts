@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, webhookDeliveries, webhookSubscriptions } from "@/db";
+import { and, desc, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+
+// Deliveries listed per request, newest first
+const DELIVERY_LOG_LIMIT = 50;
+
+// GET /api/restaurants/[id]/webhooks/[webhookId]/deliveries - Recent calls to a subscription and how they went
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const webhookId = parseInt(resolvedParams.webhookId);
+
+    if (isNaN(restaurantId) || isNaN(webhookId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const webhook = await db.query.webhookSubscriptions.findFirst({
+      where: and(
+        eq(webhookSubscriptions.id, webhookId),
+        eq(webhookSubscriptions.restaurantId, restaurantId)
+      ),
+    });
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    const deliveries = await db.query.webhookDeliveries.findMany({
+      where: and(
+        eq(webhookDeliveries.subscriptionId, webhookId),
+        status ? eq(webhookDeliveries.status, status) : undefined
+      ),
+      orderBy: [desc(webhookDeliveries.id)],
+      limit: DELIVERY_LOG_LIMIT,
+    });
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
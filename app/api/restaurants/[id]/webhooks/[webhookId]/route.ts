@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, webhookSubscriptions } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import {
+  createWebhookSecret,
+  validateWebhookSubscription,
+  type WebhookSubscriptionInput,
+} from "@/lib/webhooks";
+
+interface UpdateWebhookRequestBody extends Partial<WebhookSubscriptionInput> {
+  // Issue a new secret, returned in the response, if the old one may have leaked
+  rotateSecret?: boolean;
+}
+
+// PUT /api/restaurants/[id]/webhooks/[webhookId] - Change a subscription's URL or events, or pause it with isActive: false
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const webhookId = parseInt(resolvedParams.webhookId);
+
+    if (isNaN(restaurantId) || isNaN(webhookId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as UpdateWebhookRequestBody;
+    const { url, events, isActive, rotateSecret } = body;
+
+    if (url === undefined && events === undefined && isActive === undefined && !rotateSecret) {
+      return NextResponse.json(
+        { error: "No fields to update" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateWebhookSubscription({ url, events, isActive });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const [webhook] = await db
+      .update(webhookSubscriptions)
+      .set({
+        url,
+        events: events && [...new Set(events)],
+        isActive,
+        secret: rotateSecret ? createWebhookSecret() : undefined,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(webhookSubscriptions.id, webhookId),
+        eq(webhookSubscriptions.restaurantId, restaurantId)
+      ))
+      .returning();
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    // The secret is only shown when it is new
+    const { secret, ...withoutSecret } = webhook;
+    return NextResponse.json({ webhook: rotateSecret ? { ...withoutSecret, secret } : withoutSecret });
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/restaurants/[id]/webhooks/[webhookId] - Remove a subscription and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const webhookId = parseInt(resolvedParams.webhookId);
+
+    if (isNaN(restaurantId) || isNaN(webhookId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const [webhook] = await db
+      .delete(webhookSubscriptions)
+      .where(and(
+        eq(webhookSubscriptions.id, webhookId),
+        eq(webhookSubscriptions.restaurantId, restaurantId)
+      ))
+      .returning();
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Webhook deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, webhookSubscriptions } from "@/db";
+import { and, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { sendTestWebhook } from "@/lib/webhooks";
+
+// POST /api/restaurants/[id]/webhooks/[webhookId]/test - Send a test event now and report the response
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; webhookId: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const resolvedParams = await params;
+    const restaurantId = parseInt(resolvedParams.id);
+    const webhookId = parseInt(resolvedParams.webhookId);
+
+    if (isNaN(restaurantId) || isNaN(webhookId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant or webhook ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const webhook = await db.query.webhookSubscriptions.findFirst({
+      where: and(
+        eq(webhookSubscriptions.id, webhookId),
+        eq(webhookSubscriptions.restaurantId, restaurantId)
+      ),
+    });
+
+    if (!webhook) {
+      return NextResponse.json(
+        { error: "Webhook not found" },
+        { status: 404 }
+      );
+    }
+
+    // A failed test is still a successful request; the delivery says what went wrong
+    const delivery = await sendTestWebhook(db, webhook);
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Error testing webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to test webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, webhookSubscriptions } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import {
+  createWebhookSecret,
+  validateWebhookSubscription,
+  type WebhookSubscriptionInput,
+} from "@/lib/webhooks";
+
+// GET /api/restaurants/[id]/webhooks - List webhook subscriptions, without their secrets
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const webhooks = await db.query.webhookSubscriptions.findMany({
+      where: eq(webhookSubscriptions.restaurantId, restaurantId),
+      columns: {
+        secret: false,
+      },
+    });
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/restaurants/[id]/webhooks - Subscribe a URL to booking events
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  try {
+    const { id } = await params;
+    const restaurantId = parseInt(id);
+
+    if (isNaN(restaurantId)) {
+      return NextResponse.json(
+        { error: "Invalid restaurant ID" },
+        { status: 400 }
+      );
+    }
+
+    const accessError = requireRestaurantAccess(session, restaurantId);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json() as WebhookSubscriptionInput;
+    const { url, events, isActive = true } = body;
+
+    if (!url || !events) {
+      return NextResponse.json(
+        { error: "Missing required fields: url, events" },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateWebhookSubscription({ url, events, isActive });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    // The secret is only shown here, so the receiver must store it now
+    const [webhook] = await db
+      .insert(webhookSubscriptions)
+      .values({
+        restaurantId,
+        url,
+        events: [...new Set(events)],
+        isActive,
+        secret: createWebhookSecret(),
+      })
+      .returning();
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook" },
+      { status: 500 }
+    );
+  }
+}
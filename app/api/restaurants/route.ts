@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getDb } from "@/db";
+import { getDb, openingHours, restaurants, tables } from "@/db";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRole } from "@/lib/auth";
+import {
+  validateOpeningHours,
+  validateRestaurantFields,
+  validateTable,
+  type OpeningHoursInput,
+  type RestaurantFields,
+  type TableInput,
+} from "@/lib/restaurants";
+
+interface CreateRestaurantRequestBody extends Partial<RestaurantFields> {
+  openingHours?: OpeningHoursInput[];
+  tables?: TableInput[];
+}
 
 export async function GET(request: NextRequest) {
   const { env } = await getCloudflareContext();
@@ -21,3 +35,85 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+// POST /api/restaurants - Create a restaurant with its opening hours and tables (admin only)
+export async function POST(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const session = getSession(request);
+
+  const authError = requireRole(session, "admin");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const body = await request.json() as CreateRestaurantRequestBody;
+    const { openingHours: hours = [], tables: tableList = [], ...fields } = body;
+
+    const validationError =
+      validateRestaurantFields(fields) ||
+      validateOpeningHours(hours) ||
+      tableList.map((t) => validateTable(t)).find(Boolean);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const [restaurant] = await db
+      .insert(restaurants)
+      .values({
+        name: fields.name!,
+        description: fields.description!,
+        address: fields.address!,
+        phone: fields.phone!,
+        email: fields.email!,
+        cuisine: fields.cuisine!,
+        priceRange: fields.priceRange!,
+        imageUrl: fields.imageUrl || null,
+        defaultSeatingMinutes: fields.defaultSeatingMinutes,
+        timezone: fields.timezone,
+        currency: fields.currency,
+      })
+      .returning();
+
+    const createdHours = hours.length > 0
+      ? await db
+          .insert(openingHours)
+          .values(hours.map((h) => ({
+            restaurantId: restaurant.id,
+            dayOfWeek: h.dayOfWeek,
+            name: h.name || null,
+            openTime: h.openTime,
+            closeTime: h.closeTime,
+            isClosed: h.isClosed ?? false,
+          })))
+          .returning()
+      : [];
+
+    const createdTables = tableList.length > 0
+      ? await db
+          .insert(tables)
+          .values(tableList.map((t) => ({
+            restaurantId: restaurant.id,
+            tableNumber: t.tableNumber,
+            capacity: t.capacity,
+            isActive: t.isActive ?? true,
+          })))
+          .returning()
+      : [];
+
+    return NextResponse.json(
+      { restaurant: { ...restaurant, openingHours: createdHours, tables: createdTables } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating restaurant:", error);
+    return NextResponse.json(
+      { error: "Failed to create restaurant" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, waitlistEntries } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { GUEST_SESSION } from "@/lib/auth";
+import { BookingError } from "@/lib/bookings";
+import { getRequiredDeposit } from "@/lib/deposit-rules";
+import {
+  createManageToken,
+  getManageUrl,
+  verifyWaitlistToken,
+} from "@/lib/manage-tokens";
+import { notifyBookings, notifyWaitlistOffers } from "@/lib/notifications";
+import { DEPOSIT_PAYMENT_MINUTES, requestDeposit } from "@/lib/payments";
+import { claimWaitlistOffer, isOfferExpired, offerFreedSeating } from "@/lib/waitlist";
+import { emitBookingWebhooks } from "@/lib/webhooks";
+
+// POST /api/waitlist/[token]/claim - Book the table on offer before the offer expires
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const entryId = await verifyWaitlistToken(token, env.AUTH_SECRET);
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: "This link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    const entry = await db.query.waitlistEntries.findFirst({
+      where: eq(waitlistEntries.id, entryId),
+      with: {
+        restaurant: {
+          with: {
+            depositRules: true,
+          },
+        },
+      },
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Waitlist entry not found" },
+        { status: 404 }
+      );
+    }
+
+    if (isOfferExpired(entry)) {
+      // Pass the tables on to the next guest in line; the claim below is refused
+      const offers = await offerFreedSeating(db, [entry]);
+      await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
+    }
+
+    // The same deposit rules as booking directly; a claimed table stays pending until it is paid
+    const depositCents = entry.offeredTime
+      ? getRequiredDeposit(entry.restaurant.depositRules, {
+          bookingDate: entry.bookingDate,
+          bookingTime: entry.offeredTime,
+          partySize: entry.partySize,
+        })
+      : null;
+
+    const booking = await claimWaitlistOffer(db, entry, GUEST_SESSION, {
+      status: depositCents ? "pending" : "confirmed",
+    });
+
+    let deposit = null;
+    if (depositCents) {
+      const { payment, clientSecret } = await requestDeposit(
+        db,
+        env.PAYMENT_PROVIDER,
+        booking,
+        entry.restaurant,
+        depositCents
+      );
+      deposit = {
+        paymentId: payment.id,
+        amountCents: payment.amountCents,
+        currency: payment.currency,
+        clientSecret,
+        payBy: new Date(booking.createdAt.getTime() + DEPOSIT_PAYMENT_MINUTES * 60 * 1000),
+      };
+    } else {
+      // Guests paying a deposit are sent their confirmation once it is paid
+      await notifyBookings(db, env, ctx, request.nextUrl.origin, "confirmation", [booking.id]);
+    }
+    await emitBookingWebhooks(db, ctx, "booking.created", [booking]);
+
+    // From here on the guest manages the booking like any other
+    const manageToken = await createManageToken(booking, entry.restaurant.timezone, env.AUTH_SECRET);
+
+    return NextResponse.json(
+      {
+        booking,
+        deposit,
+        manageToken,
+        manageUrl: getManageUrl(request.nextUrl.origin, manageToken),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error claiming waitlist offer:", error);
+    return NextResponse.json(
+      { error: "Failed to claim offer" },
+      { status: 500 }
+    );
+  }
+}
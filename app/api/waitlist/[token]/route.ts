@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, waitlistEntries } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { BookingError } from "@/lib/bookings";
+import { verifyWaitlistToken } from "@/lib/manage-tokens";
+import { notifyWaitlistOffers } from "@/lib/notifications";
+import { isOfferExpired, leaveWaitlist, offerFreedSeating } from "@/lib/waitlist";
+
+const INVALID_LINK_ERROR = "This link is invalid or has expired";
+
+// GET /api/waitlist/[token] - View a waitlist entry and any table on offer
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const entryId = await verifyWaitlistToken(token, env.AUTH_SECRET);
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const entry = await db.query.waitlistEntries.findFirst({
+      where: eq(waitlistEntries.id, entryId),
+      with: {
+        restaurant: true,
+        customer: true,
+        offeredTable: true,
+        offeredTableGroup: true,
+      },
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Waitlist entry not found" },
+        { status: 404 }
+      );
+    }
+
+    // Report lapsed offers as expired even before they are cleaned up
+    const offerExpired = isOfferExpired(entry);
+
+    return NextResponse.json({
+      entry: offerExpired ? { ...entry, status: "expired" } : entry,
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist entry:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch waitlist entry" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/waitlist/[token] - Leave the waitlist
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const { token } = await params;
+    const entryId = await verifyWaitlistToken(token, env.AUTH_SECRET);
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: INVALID_LINK_ERROR },
+        { status: 404 }
+      );
+    }
+
+    const entry = await db.query.waitlistEntries.findFirst({
+      where: eq(waitlistEntries.id, entryId),
+    });
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Waitlist entry not found" },
+        { status: 404 }
+      );
+    }
+
+    const cancelledEntry = await leaveWaitlist(db, entry);
+
+    if (entry.status === "offered") {
+      // The table held for the guest goes to the next guest in line
+      const offers = await offerFreedSeating(db, [entry]);
+      await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
+    }
+
+    return NextResponse.json({
+      entry: cancelledEntry,
+      message: "You have left the waitlist",
+    });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error leaving waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to leave waitlist" },
+      { status: 500 }
+    );
+  }
+}
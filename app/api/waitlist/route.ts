@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDb, waitlistEntries } from "@/db";
+import { and, eq, inArray } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { getSession, requireRestaurantAccess } from "@/lib/auth";
+import { seatingRelations } from "@/lib/availability";
+import { validateBookingDate, validatePartySize } from "@/lib/booking-rules";
+import { EMAIL_REGEX, findOrCreateCustomer, hasBookingOnDate } from "@/lib/bookings";
+import { createWaitlistToken, getWaitlistUrl } from "@/lib/manage-tokens";
+import { notifyWaitlistOffers } from "@/lib/notifications";
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  offerFreedSeating,
+  validateWaitlistWindow,
+} from "@/lib/waitlist";
+
+interface JoinWaitlistRequestBody {
+  restaurantId: number;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  bookingDate: string;
+  // Any start time from earliestTime to latestTime is acceptable to the guest
+  earliestTime: string;
+  latestTime: string;
+  partySize: number;
+  specialRequests?: string;
+}
+
+// POST /api/waitlist - Join the waitlist for a fully booked date
+export async function POST(request: NextRequest) {
+  const { env, ctx } = await getCloudflareContext();
+  const db = getDb(env.DB);
+
+  try {
+    const body = await request.json() as JoinWaitlistRequestBody;
+    const {
+      restaurantId,
+      customerName,
+      customerEmail,
+      customerPhone,
+      bookingDate,
+      earliestTime,
+      latestTime,
+      partySize,
+      specialRequests,
+    } = body;
+
+    // Validate required fields
+    if (!restaurantId || !customerName || !customerEmail || !customerPhone ||
+        !bookingDate || !earliestTime || !latestTime || !partySize) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    if (!EMAIL_REGEX.test(customerEmail)) {
+      return NextResponse.json(
+        { error: "Invalid email address" },
+        { status: 400 }
+      );
+    }
+
+    const partySizeError = validatePartySize(partySize);
+    if (partySizeError) {
+      return NextResponse.json(
+        { error: partySizeError },
+        { status: 400 }
+      );
+    }
+
+    const restaurant = await db.query.restaurants.findFirst({
+      where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+      with: seatingRelations,
+    });
+
+    if (!restaurant) {
+      return NextResponse.json(
+        { error: "Restaurant not found" },
+        { status: 404 }
+      );
+    }
+
+    const validationError =
+      validateBookingDate(bookingDate, restaurant.timezone) ||
+      validateWaitlistWindow(restaurant, bookingDate, earliestTime, latestTime);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const customer = await findOrCreateCustomer(db, {
+      name: customerName,
+      email: customerEmail,
+      phone: customerPhone,
+    });
+
+    if (await hasBookingOnDate(db, customer.id, restaurantId, bookingDate)) {
+      return NextResponse.json(
+        { error: "You already have a booking at this restaurant on this date" },
+        { status: 409 }
+      );
+    }
+
+    const existingEntry = await db.query.waitlistEntries.findFirst({
+      where: and(
+        eq(waitlistEntries.customerId, customer.id),
+        eq(waitlistEntries.restaurantId, restaurantId),
+        eq(waitlistEntries.bookingDate, bookingDate),
+        inArray(waitlistEntries.status, ACTIVE_WAITLIST_STATUSES)
+      ),
+    });
+
+    if (existingEntry) {
+      return NextResponse.json(
+        { error: "You are already on the waitlist for this date" },
+        { status: 409 }
+      );
+    }
+
+    const [entry] = await db
+      .insert(waitlistEntries)
+      .values({
+        restaurantId,
+        customerId: customer.id,
+        bookingDate,
+        earliestTime,
+        latestTime,
+        partySize,
+        specialRequests: specialRequests || null,
+      })
+      .returning();
+
+    // A table may already be free, e.g. one released by an expired offer
+    const offers = await offerFreedSeating(db, [entry]);
+    await notifyWaitlistOffers(db, env, ctx, request.nextUrl.origin, offers);
+
+    const waitlistToken = await createWaitlistToken(entry, restaurant.timezone, env.AUTH_SECRET);
+
+    return NextResponse.json(
+      {
+        entry: offers.find((o) => o.id === entry.id) ?? entry,
+        waitlistToken,
+        waitlistUrl: getWaitlistUrl(request.nextUrl.origin, waitlistToken),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error joining waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to join waitlist" },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/waitlist - List a restaurant's waitlist, optionally for one date or status
+export async function GET(request: NextRequest) {
+  const { env } = await getCloudflareContext();
+  const db = getDb(env.DB);
+  const { searchParams } = new URL(request.url);
+  const session = getSession(request);
+
+  // Staff default to their own restaurant
+  const restaurantIdParam = searchParams.get("restaurantId");
+  const restaurantId = restaurantIdParam
+    ? parseInt(restaurantIdParam)
+    : session.restaurantId;
+
+  if (!restaurantId || isNaN(restaurantId)) {
+    return NextResponse.json(
+      { error: "restaurantId is required" },
+      { status: 400 }
+    );
+  }
+
+  const accessError = requireRestaurantAccess(session, restaurantId);
+  if (accessError) {
+    return accessError;
+  }
+
+  const date = searchParams.get("date");
+  const status = searchParams.get("status");
+
+  try {
+    const entries = await db.query.waitlistEntries.findMany({
+      where: and(
+        eq(waitlistEntries.restaurantId, restaurantId),
+        date ? eq(waitlistEntries.bookingDate, date) : undefined,
+        status ? eq(waitlistEntries.status, status) : undefined
+      ),
+      with: {
+        customer: true,
+        offeredTable: true,
+        offeredTableGroup: true,
+      },
+      orderBy: (waitlistEntries, { asc }) => [
+        asc(waitlistEntries.bookingDate),
+        asc(waitlistEntries.createdAt),
+      ],
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Error fetching waitlist:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch waitlist" },
+      { status: 500 }
+    );
+  }
+}
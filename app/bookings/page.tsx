@@ -18,9 +18,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ApiTokenForm } from "@/components/api-token-form";
+import { CustomerProfileCard, type CustomerProfile } from "@/components/customer-profile-card";
+import { authHeaders } from "@/lib/api-token";
 
 type BookingWithDetails = {
   id: number;
+  restaurantId: number;
   bookingDate: string;
   bookingTime: string;
   partySize: number;
@@ -34,7 +39,11 @@ type BookingWithDetails = {
     tableNumber: string;
     capacity: number;
   };
+  tableGroup: {
+    name: string;
+  } | null;
   customer: {
+    id: number;
     name: string;
     email: string;
     phone: string;
@@ -44,16 +53,36 @@ type BookingWithDetails = {
 export default function BookingsPage() {
   const [bookings, setBookings] = useState<BookingWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // Cursor for the next page of bookings, or null when every booking is shown
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<{
+    booking: BookingWithDetails;
+    profile: CustomerProfile;
+  } | null>(null);
 
   useEffect(() => {
     fetchBookings();
   }, []);
 
-  const fetchBookings = async () => {
+  const fetchBookings = async (cursor?: string) => {
     try {
-      const response = await fetch("/api/bookings");
-      const data = await response.json() as { bookings: BookingWithDetails[] };
-      setBookings(data.bookings);
+      const response = await fetch(
+        cursor ? `/api/bookings?cursor=${encodeURIComponent(cursor)}` : "/api/bookings",
+        { headers: authHeaders() }
+      );
+      const data = await response.json() as {
+        bookings?: BookingWithDetails[];
+        total?: number;
+        nextCursor?: string | null;
+        error?: string;
+      };
+      const page = data.bookings || [];
+      setBookings((current) => (cursor ? [...current, ...page] : page));
+      setTotal(data.total ?? 0);
+      setNextCursor(data.nextCursor ?? null);
+      setError(response.ok ? "" : data.error || "Failed to fetch bookings");
       setLoading(false);
     } catch (error) {
       console.error("Error fetching bookings:", error);
@@ -61,12 +90,51 @@ export default function BookingsPage() {
     }
   };
 
+  // Bookings come with the guest's profile at the restaurant
+  const viewCustomer = async (bookingId: number) => {
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}`, { headers: authHeaders() });
+      const data = await response.json() as {
+        booking?: BookingWithDetails;
+        customerProfile?: CustomerProfile | null;
+      };
+      if (data.booking && data.customerProfile) {
+        setSelected({ booking: data.booking, profile: data.customerProfile });
+      }
+    } catch (error) {
+      console.error("Error fetching customer profile:", error);
+    }
+  };
+
+  // The export needs the API token, so it is fetched here and saved from a blob
+  const downloadExport = async () => {
+    try {
+      const response = await fetch("/api/bookings/export?format=csv", { headers: authHeaders() });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        setError(data.error || "Failed to export bookings");
+        return;
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `bookings-${new Date().toISOString().split("T")[0]}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting bookings:", error);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "confirmed":
         return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400";
       case "cancelled":
         return "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400";
+      case "arrived":
+      case "seated":
+        return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400";
       case "completed":
         return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400";
       default:
@@ -93,15 +161,43 @@ export default function BookingsPage() {
           <h1 className="text-3xl font-bold">All Bookings</h1>
           <p className="text-muted-foreground">Manage and view all restaurant reservations</p>
         </div>
+        <div className="mb-6 max-w-md">
+          <ApiTokenForm onSave={() => fetchBookings()} />
+        </div>
+        {selected && (
+          <div className="mb-6">
+            <CustomerProfileCard
+              restaurantId={selected.booking.restaurantId}
+              customer={selected.booking.customer}
+              profile={selected.profile}
+              onClose={() => setSelected(null)}
+            />
+          </div>
+        )}
         <Card>
           <CardHeader>
-            <CardTitle>All Bookings</CardTitle>
-            <CardDescription>
-              Complete list of all restaurant reservations
-            </CardDescription>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>All Bookings</CardTitle>
+                <CardDescription>
+                  Complete list of all restaurant reservations
+                </CardDescription>
+              </div>
+              <Button
+                variant="outline"
+                onClick={downloadExport}
+                className="cursor-pointer"
+              >
+                Download CSV
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
-            {bookings.length === 0 ? (
+            {error ? (
+              <p className="text-center text-red-800 dark:text-red-400 py-8">
+                {error}
+              </p>
+            ) : bookings.length === 0 ? (
               <p className="text-center text-muted-foreground py-8">
                 No bookings found
               </p>
@@ -125,7 +221,13 @@ export default function BookingsPage() {
                       <TableCell className="font-medium">#{booking.id}</TableCell>
                       <TableCell>
                         <div className="text-sm">
-                          <p className="font-medium">{booking.customer.name}</p>
+                          <button
+                            type="button"
+                            onClick={() => viewCustomer(booking.id)}
+                            className="font-medium underline-offset-4 hover:underline cursor-pointer"
+                          >
+                            {booking.customer.name}
+                          </button>
                           <p className="text-muted-foreground text-xs">
                             {booking.customer.email}
                           </p>
@@ -143,7 +245,9 @@ export default function BookingsPage() {
                       <TableCell>{booking.bookingTime}</TableCell>
                       <TableCell>{booking.partySize}</TableCell>
                       <TableCell>
-                        <Badge variant="outline">{booking.table.tableNumber}</Badge>
+                        <Badge variant="outline">
+                          {booking.tableGroup?.name ?? booking.table.tableNumber}
+                        </Badge>
                       </TableCell>
                       <TableCell>
                         <span
@@ -159,6 +263,20 @@ export default function BookingsPage() {
                 </TableBody>
               </Table>
             )}
+            {!error && nextCursor && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Showing {bookings.length} of {total} bookings
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => fetchBookings(nextCursor)}
+                  className="cursor-pointer"
+                >
+                  Load More
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
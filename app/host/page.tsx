@@ -0,0 +1,397 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ApiTokenForm } from "@/components/api-token-form";
+import { authHeaders } from "@/lib/api-token";
+
+type Restaurant = {
+  id: number;
+  name: string;
+};
+
+type WalkIn = {
+  id: number;
+  partyName: string;
+  phone: string | null;
+  partySize: number;
+  arrivalTime: string;
+  status: string;
+  quotedWaitMinutes: number | null;
+  estimatedWaitMinutes: number | null;
+  seatedTime: string | null;
+  notes: string | null;
+  table: { tableNumber: string } | null;
+  tableGroup: { name: string } | null;
+};
+
+const emptyWalkIn = {
+  partyName: "",
+  partySize: "2",
+  phone: "",
+  notes: "",
+};
+
+const formatWait = (minutes: number | null) =>
+  minutes === null ? "No table expected today" : minutes === 0 ? "Now" : `${minutes} min`;
+
+export default function HostPage() {
+  const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
+  const [restaurantId, setRestaurantId] = useState("");
+  const [walkIns, setWalkIns] = useState<WalkIn[]>([]);
+  const [formData, setFormData] = useState(emptyWalkIn);
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  useEffect(() => {
+    const fetchRestaurants = async () => {
+      try {
+        const [restaurantsResponse, meResponse] = await Promise.all([
+          fetch("/api/restaurants"),
+          fetch("/api/auth/me", { headers: authHeaders() }),
+        ]);
+        const { restaurants } = await restaurantsResponse.json() as { restaurants: Restaurant[] };
+        const me = await meResponse.json() as { session?: { restaurantId: number | null } };
+        setRestaurants(restaurants);
+        // Staff work at one restaurant, so start there
+        if (me.session?.restaurantId) {
+          setRestaurantId(me.session.restaurantId.toString());
+        }
+      } catch (error) {
+        console.error("Error fetching restaurants:", error);
+      }
+    };
+
+    fetchRestaurants();
+  }, []);
+
+  const fetchWalkIns = useCallback(async () => {
+    if (!restaurantId) return;
+
+    try {
+      const response = await fetch(`/api/restaurants/${restaurantId}/walk-ins`, {
+        headers: authHeaders(),
+      });
+      const data = await response.json() as { walkIns?: WalkIn[]; error?: string };
+
+      if (data.walkIns) {
+        setWalkIns(data.walkIns);
+      } else {
+        setWalkIns([]);
+        setStatus({ type: "error", message: data.error || "Failed to load walk-ins" });
+      }
+    } catch (error) {
+      console.error("Error fetching walk-ins:", error);
+    }
+  }, [restaurantId]);
+
+  useEffect(() => {
+    fetchWalkIns();
+    // Wait estimates change as tables turn over
+    const interval = setInterval(fetchWalkIns, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [fetchWalkIns]);
+
+  const addWalkIn = async (queue: boolean) => {
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/restaurants/${restaurantId}/walk-ins`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({
+          ...formData,
+          partySize: parseInt(formData.partySize),
+          queue,
+        }),
+      });
+      const data = await response.json() as { walkIn?: WalkIn; error?: string };
+
+      if (response.ok && data.walkIn) {
+        setStatus({
+          type: "success",
+          message: data.walkIn.status === "seated"
+            ? `${data.walkIn.partyName} seated.`
+            : `${data.walkIn.partyName} added to the queue. Quoted wait: ${formatWait(data.walkIn.quotedWaitMinutes)}.`,
+        });
+        setFormData(emptyWalkIn);
+        fetchWalkIns();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to add walk-in" });
+      }
+    } catch (error) {
+      console.error("Error adding walk-in:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const updateStatus = async (walkIn: WalkIn, newStatus: string) => {
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/restaurants/${restaurantId}/walk-ins/${walkIn.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ status: newStatus }),
+      });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        fetchWalkIns();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to update walk-in" });
+      }
+    } catch (error) {
+      console.error("Error updating walk-in:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const queued = walkIns.filter((w) => w.status === "queued");
+  const seated = walkIns.filter((w) => w.status === "seated");
+
+  return (
+    <>
+      <Header />
+      <div className="mx-auto p-6 max-w-6xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">Host Stand</h1>
+          <p className="text-muted-foreground">Seat walk-ins and manage the queue</p>
+        </div>
+        <div className="mb-6 grid gap-4 md:grid-cols-2">
+          <ApiTokenForm onSave={fetchWalkIns} />
+          <div>
+            <Label htmlFor="restaurant" className="mb-2 block">Restaurant</Label>
+            <Select value={restaurantId} onValueChange={(value: string) => setRestaurantId(value)}>
+              <SelectTrigger id="restaurant">
+                <SelectValue placeholder="Select restaurant" />
+              </SelectTrigger>
+              <SelectContent>
+                {restaurants.map((restaurant) => (
+                  <SelectItem key={restaurant.id} value={restaurant.id.toString()}>
+                    {restaurant.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {status.type && (
+          <div
+            className={`mb-6 p-3 rounded-md text-sm ${
+              status.type === "success"
+                ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        {restaurantId && (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardTitle>New Walk-in</CardTitle>
+                <CardDescription>Seats the party now if a table is free</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    addWalkIn(false);
+                  }}
+                  className="space-y-4"
+                >
+                  <div>
+                    <Label htmlFor="partyName" className="mb-2 block">Name</Label>
+                    <Input
+                      id="partyName"
+                      required
+                      value={formData.partyName}
+                      onChange={(e) => setFormData({ ...formData, partyName: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="partySize" className="mb-2 block">Guests</Label>
+                      <Input
+                        id="partySize"
+                        type="number"
+                        min={1}
+                        max={20}
+                        required
+                        value={formData.partySize}
+                        onChange={(e) => setFormData({ ...formData, partySize: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="phone" className="mb-2 block">Phone</Label>
+                      <Input
+                        id="phone"
+                        type="tel"
+                        value={formData.phone}
+                        onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <Label htmlFor="notes" className="mb-2 block">Notes</Label>
+                    <Input
+                      id="notes"
+                      value={formData.notes}
+                      onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" className="flex-1 cursor-pointer">
+                      Seat Now
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="cursor-pointer"
+                      onClick={() => addWalkIn(true)}
+                    >
+                      Add to Queue
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <div className="lg:col-span-2 space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Queue</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {queued.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">Nobody is waiting</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Party</TableHead>
+                          <TableHead>Arrived</TableHead>
+                          <TableHead>Quoted</TableHead>
+                          <TableHead>Expected Wait</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {queued.map((walkIn) => (
+                          <TableRow key={walkIn.id}>
+                            <TableCell>
+                              <p className="font-medium">
+                                {walkIn.partyName} ({walkIn.partySize})
+                              </p>
+                              <p className="text-muted-foreground text-xs">
+                                {[walkIn.phone, walkIn.notes].filter(Boolean).join(" · ")}
+                              </p>
+                            </TableCell>
+                            <TableCell>{walkIn.arrivalTime}</TableCell>
+                            <TableCell>{formatWait(walkIn.quotedWaitMinutes)}</TableCell>
+                            <TableCell>{formatWait(walkIn.estimatedWaitMinutes)}</TableCell>
+                            <TableCell className="text-right space-x-2">
+                              <Button
+                                size="sm"
+                                className="cursor-pointer"
+                                onClick={() => updateStatus(walkIn, "seated")}
+                              >
+                                Seat
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="cursor-pointer"
+                                onClick={() => updateStatus(walkIn, "left")}
+                              >
+                                Left
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Seated Walk-ins</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {seated.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-4">No walk-ins seated</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Party</TableHead>
+                          <TableHead>Table</TableHead>
+                          <TableHead>Seated</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {seated.map((walkIn) => (
+                          <TableRow key={walkIn.id}>
+                            <TableCell className="font-medium">
+                              {walkIn.partyName} ({walkIn.partySize})
+                            </TableCell>
+                            <TableCell>{walkIn.tableGroup?.name ?? walkIn.table?.tableNumber}</TableCell>
+                            <TableCell>{walkIn.seatedTime}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="cursor-pointer"
+                                onClick={() => updateStatus(walkIn, "completed")}
+                              >
+                                Table Free
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,399 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { getZonedDateTime } from "@/lib/timezone";
+
+type ManagedBooking = {
+  id: number;
+  restaurantId: number;
+  bookingDate: string;
+  bookingTime: string;
+  partySize: number;
+  status: string;
+  specialRequests: string | null;
+  restaurant: {
+    name: string;
+    address: string;
+    phone: string;
+    timezone: string;
+  };
+  table: {
+    tableNumber: string;
+  };
+  tableGroup: {
+    name: string;
+  } | null;
+  customer: {
+    name: string;
+  };
+  payments: {
+    id: number;
+    amountCents: number;
+    currency: string;
+    status: string;
+  }[];
+};
+
+// The restaurant's cancellation policy applied to cancelling now
+type CancellationOutcome = {
+  late: boolean;
+  feeCents: number | null;
+  freeUntil: string | null;
+};
+
+const formatFee = (cents: number) => (cents / 100).toFixed(2);
+
+export default function ManageBookingPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [cancellation, setCancellation] = useState<CancellationOutcome | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    bookingDate: "",
+    bookingTime: "",
+    partySize: "",
+    specialRequests: "",
+  });
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const loadBooking = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/manage/${token}`);
+      const data = await response.json() as {
+        booking?: ManagedBooking;
+        cancellation?: CancellationOutcome;
+        error?: string;
+      };
+
+      if (data.booking) {
+        setBooking(data.booking);
+        setCancellation(data.cancellation ?? null);
+        setFormData({
+          bookingDate: data.booking.bookingDate,
+          bookingTime: data.booking.bookingTime,
+          partySize: data.booking.partySize.toString(),
+          specialRequests: data.booking.specialRequests || "",
+        });
+      } else {
+        setStatus({ type: "error", message: data.error || "Booking not found" });
+      }
+    } catch (error) {
+      console.error("Error fetching booking:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadBooking();
+  }, [loadBooking]);
+
+  const restaurantId = booking?.restaurantId;
+  const { bookingDate, partySize } = formData;
+
+  useEffect(() => {
+    if (!restaurantId || !bookingDate || !partySize) {
+      setAvailableTimes([]);
+      return;
+    }
+
+    const fetchAvailability = async () => {
+      try {
+        const params = new URLSearchParams({ date: bookingDate, partySize });
+        const response = await fetch(`/api/restaurants/${restaurantId}/availability?${params}`);
+        const data = await response.json() as { slots?: { time: string }[] };
+        setAvailableTimes((data.slots || []).map((slot) => slot.time));
+      } catch (error) {
+        console.error("Error fetching availability:", error);
+        setAvailableTimes([]);
+      }
+    };
+
+    fetchAvailability();
+  }, [restaurantId, bookingDate, partySize]);
+
+  // The guest's own booking occupies its current slot, so keep it selectable
+  const timeOptions =
+    booking && bookingDate === booking.bookingDate && !availableTimes.includes(booking.bookingTime)
+      ? [...availableTimes, booking.bookingTime].sort()
+      : availableTimes;
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/manage/${token}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...formData,
+          partySize: parseInt(formData.partySize),
+        }),
+      });
+      const data = await response.json() as { manageToken?: string; error?: string };
+
+      if (response.ok && data.manageToken) {
+        setStatus({ type: "success", message: "Your reservation has been updated." });
+        // Changing the visit issues a new link; the old one stops working after the old time
+        router.replace(`/manage/${data.manageToken}`);
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to update booking" });
+      }
+    } catch (error) {
+      console.error("Error updating booking:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  // The fake payment provider accepts any card. A real provider's card form would
+  // hand back the payment method to send here.
+  const handlePayDeposit = async () => {
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/manage/${token}/deposit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paymentMethod: "fake_card" }),
+      });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        setStatus({ type: "success", message: "Deposit paid. Your reservation is confirmed." });
+        loadBooking();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to pay deposit" });
+      }
+    } catch (error) {
+      console.error("Error paying deposit:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const handleCancel = async () => {
+    const lateWarning = cancellation?.late
+      ? `It is now past the free cancellation period${
+          cancellation.feeCents ? `, so a late cancellation fee of ${formatFee(cancellation.feeCents)} applies` : ""
+        }. `
+      : "";
+    if (!confirm(`${lateWarning}Are you sure you want to cancel this reservation?`)) return;
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/manage/${token}`, { method: "DELETE" });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        setStatus({ type: "success", message: "Your reservation has been cancelled." });
+        loadBooking();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to cancel booking" });
+      }
+    } catch (error) {
+      console.error("Error cancelling booking:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="flex items-center justify-center min-h-screen">
+          <p className="text-muted-foreground">Loading reservation...</p>
+        </div>
+      </>
+    );
+  }
+
+  const isCancelled = booking?.status === "cancelled";
+  const depositDue = booking?.status === "pending"
+    ? booking.payments.find((p) => p.status === "requires_confirmation")
+    : undefined;
+
+  return (
+    <>
+      <Header />
+      <div className="mx-auto p-6 max-w-2xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">Manage Your Reservation</h1>
+          <p className="text-muted-foreground">Change or cancel your booking</p>
+        </div>
+
+        {status.type && (
+          <div
+            className={`mb-6 p-3 rounded-md text-sm ${
+              status.type === "success"
+                ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        {booking && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{booking.restaurant.name}</CardTitle>
+                <Badge variant="secondary">{booking.status}</Badge>
+              </div>
+              <CardDescription>
+                {booking.customer.name} · {booking.bookingDate} at {booking.bookingTime} ·{" "}
+                {booking.partySize} {booking.partySize === 1 ? "guest" : "guests"} · Table{" "}
+                {booking.tableGroup?.name ?? booking.table.tableNumber}
+              </CardDescription>
+              <p className="text-sm text-muted-foreground">
+                {booking.restaurant.address} · {booking.restaurant.phone}
+                {!isCancelled && (
+                  <>
+                    {" · "}
+                    <a href={`/api/bookings/${booking.id}/ics?token=${token}`} className="underline font-medium">
+                      Add to Calendar
+                    </a>
+                  </>
+                )}
+              </p>
+              {!isCancelled && cancellation?.freeUntil && (
+                <p className="text-sm text-muted-foreground">
+                  {cancellation.late
+                    ? `Free cancellation ended ${new Date(cancellation.freeUntil).toLocaleString()}`
+                    : `Free cancellation until ${new Date(cancellation.freeUntil).toLocaleString()}`}
+                  {cancellation.feeCents !== null && ` · Late cancellation fee ${formatFee(cancellation.feeCents)}`}
+                </p>
+              )}
+              {depositDue && (
+                <div className="flex items-center justify-between gap-4 p-3 rounded-md bg-amber-50 text-amber-900 dark:bg-amber-900/20 dark:text-amber-300">
+                  <p className="text-sm">
+                    A deposit of {formatFee(depositDue.amountCents)} {depositDue.currency} is needed to confirm this reservation.
+                  </p>
+                  <Button onClick={handlePayDeposit} className="cursor-pointer">
+                    Pay Deposit
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            {!isCancelled && (
+              <CardContent>
+                <form onSubmit={handleUpdate} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="bookingDate" className="mb-2 block">Date</Label>
+                      <Input
+                        id="bookingDate"
+                        type="date"
+                        required
+                        min={getZonedDateTime(booking.restaurant.timezone).date}
+                        value={formData.bookingDate}
+                        onChange={(e) =>
+                          setFormData({ ...formData, bookingDate: e.target.value, bookingTime: "" })
+                        }
+                      />
+                    </div>
+
+                    <div>
+                      <Label htmlFor="bookingTime" className="mb-2 block">Time</Label>
+                      <Select
+                        value={formData.bookingTime}
+                        onValueChange={(value: string) =>
+                          setFormData({ ...formData, bookingTime: value })
+                        }
+                        required
+                      >
+                        <SelectTrigger id="bookingTime">
+                          <SelectValue
+                            placeholder={timeOptions.length === 0 ? "No times available" : "Select time"}
+                          />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {timeOptions.map((time) => (
+                            <SelectItem key={time} value={time}>
+                              {time}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="partySize" className="mb-2 block">Party Size</Label>
+                    <Select
+                      value={formData.partySize}
+                      onValueChange={(value: string) => setFormData({ ...formData, partySize: value })}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select size" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 20 }, (_, i) => i + 1).map((size) => (
+                          <SelectItem key={size} value={size.toString()}>
+                            {size} {size === 1 ? "guest" : "guests"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="specialRequests" className="mb-2 block">Special Requests (Optional)</Label>
+                    <Textarea
+                      id="specialRequests"
+                      value={formData.specialRequests}
+                      onChange={(e) => setFormData({ ...formData, specialRequests: e.target.value })}
+                      placeholder="Any special requirements..."
+                    />
+                  </div>
+
+                  <div className="flex gap-3">
+                    <Button type="submit" className="flex-1 cursor-pointer">
+                      Save Changes
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="cursor-pointer"
+                      onClick={handleCancel}
+                    >
+                      Cancel Reservation
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            )}
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
@@ -14,13 +14,18 @@ import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Header } from "@/components/header";
+import { MAX_DAYS_IN_ADVANCE } from "@/lib/booking-rules";
+import { addDays } from "@/lib/time";
+import { getZonedDateTime } from "@/lib/timezone";
 
 type Restaurant = {
   id: number;
@@ -30,20 +35,37 @@ type Restaurant = {
   priceRange: string;
   address: string;
   phone: string;
+  timezone: string;
 };
 
 type OpeningHours = {
   dayOfWeek: number;
+  name: string | null;
   openTime: string;
   closeTime: string;
   isClosed: boolean;
 };
 
+type OpeningHoursOverride = {
+  date: string;
+  openTime: string | null;
+  closeTime: string | null;
+  isClosed: boolean;
+  reason: string | null;
+};
+
 type RestaurantWithDetails = Restaurant & {
   openingHours: OpeningHours[];
+  openingHoursOverrides: OpeningHoursOverride[];
   tables: { id: number; tableNumber: string; capacity: number; isActive: boolean }[];
 };
 
+type AvailableSlot = {
+  time: string;
+  period: string | null;
+  options: { tableIds: number[]; tableGroupId: number | null; label: string; capacity: number }[];
+};
+
 export default function Home() {
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const [selectedRestaurant, setSelectedRestaurant] =
@@ -61,12 +83,49 @@ export default function Home() {
   const [bookingStatus, setBookingStatus] = useState<{
     type: "success" | "error" | null;
     message: string;
+    manageUrl?: string;
+    waitlistUrl?: string;
   }>({ type: null, message: "" });
+  const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [waitlistWindow, setWaitlistWindow] = useState({
+    earliestTime: "18:00",
+    latestTime: "21:00",
+  });
 
   useEffect(() => {
     fetchRestaurants();
   }, []);
 
+  const selectedRestaurantId = selectedRestaurant?.id;
+  const { bookingDate, partySize } = bookingData;
+
+  useEffect(() => {
+    if (!selectedRestaurantId || !bookingDate || !partySize) {
+      setAvailableSlots([]);
+      return;
+    }
+
+    const fetchAvailability = async () => {
+      setLoadingSlots(true);
+      try {
+        const params = new URLSearchParams({ date: bookingDate, partySize });
+        const response = await fetch(
+          `/api/restaurants/${selectedRestaurantId}/availability?${params}`
+        );
+        const data = await response.json() as { slots?: AvailableSlot[] };
+        setAvailableSlots(data.slots || []);
+      } catch (error) {
+        console.error("Error fetching availability:", error);
+        setAvailableSlots([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+
+    fetchAvailability();
+  }, [selectedRestaurantId, bookingDate, partySize]);
+
   const fetchRestaurants = async () => {
     try {
       const response = await fetch("/api/restaurants");
@@ -100,33 +159,6 @@ export default function Home() {
 
     if (!selectedRestaurant) return;
 
-    // Frontend validation: Check if date is in the past
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const selectedDate = new Date(bookingData.bookingDate);
-    
-    if (selectedDate < today) {
-      setBookingStatus({
-        type: "error",
-        message: "Cannot book in the past. Please select today or a future date.",
-      });
-      return;
-    }
-
-    // Frontend validation: Check if restaurant is open on selected day
-    const dayOfWeek = selectedDate.getDay();
-    const hoursForDay = selectedRestaurant.openingHours.find(
-      (h) => h.dayOfWeek === dayOfWeek
-    );
-
-    if (hoursForDay?.isClosed) {
-      setBookingStatus({
-        type: "error",
-        message: "Restaurant is closed on this day. Please select another date.",
-      });
-      return;
-    }
-
     // Frontend validation: Email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(bookingData.customerEmail)) {
@@ -146,15 +178,11 @@ export default function Home() {
       return;
     }
 
-    // Find available table
-    const table = selectedRestaurant.tables.find(
-      (t) => t.capacity >= parseInt(bookingData.partySize) && t.isActive
-    );
-
-    if (!table) {
+    // Frontend validation: Time must be one of the offered slots
+    if (!availableSlots.some((slot) => slot.time === bookingData.bookingTime)) {
       setBookingStatus({
         type: "error",
-        message: "No available tables for this party size",
+        message: "Please select an available time.",
       });
       return;
     }
@@ -165,18 +193,26 @@ export default function Home() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           restaurantId: selectedRestaurant.id,
-          tableId: table.id,
           ...bookingData,
           partySize: parseInt(bookingData.partySize),
         }),
       });
 
-      const data = await response.json() as { booking?: unknown; error?: string };
+      const data = await response.json() as {
+        booking?: unknown;
+        seating?: { label: string };
+        manageUrl?: string;
+        deposit?: { amountCents: number; currency: string };
+        error?: string;
+      };
 
       if (response.ok) {
         setBookingStatus({
           type: "success",
-          message: "Booking confirmed! We look forward to seeing you.",
+          message: data.deposit
+            ? `Table ${data.seating?.label} is held for you. Pay the ${(data.deposit.amountCents / 100).toFixed(2)} ${data.deposit.currency} deposit within 30 minutes from your reservation page to confirm it.`
+            : `Booking confirmed at table ${data.seating?.label}! We look forward to seeing you.`,
+          manageUrl: data.manageUrl,
         });
         setBookingData({
           customerName: "",
@@ -202,6 +238,84 @@ export default function Home() {
     }
   };
 
+  // When no times are free, guests can wait for a cancellation instead
+  const handleJoinWaitlist = async () => {
+    setBookingStatus({ type: null, message: "" });
+
+    if (!selectedRestaurant) return;
+
+    if (!bookingData.customerName || !bookingData.customerEmail || !bookingData.customerPhone) {
+      setBookingStatus({
+        type: "error",
+        message: "Please enter your name, email and phone to join the waitlist.",
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          restaurantId: selectedRestaurant.id,
+          customerName: bookingData.customerName,
+          customerEmail: bookingData.customerEmail,
+          customerPhone: bookingData.customerPhone,
+          bookingDate: bookingData.bookingDate,
+          ...waitlistWindow,
+          partySize: parseInt(bookingData.partySize),
+          specialRequests: bookingData.specialRequests,
+        }),
+      });
+
+      const data = await response.json() as {
+        entry?: { status: string };
+        waitlistUrl?: string;
+        error?: string;
+      };
+
+      if (response.ok) {
+        setBookingStatus({
+          type: "success",
+          message: data.entry?.status === "offered"
+            ? "A table just became available and is being held for you. Claim it now to confirm your booking."
+            : "You're on the waitlist. If a table frees up, it will be held for you to claim.",
+          waitlistUrl: data.waitlistUrl,
+        });
+      } else {
+        setBookingStatus({
+          type: "error",
+          message: data.error || "Failed to join waitlist",
+        });
+      }
+    } catch (error) {
+      console.error("Error joining waitlist:", error);
+      setBookingStatus({
+        type: "error",
+        message: "An error occurred. Please try again.",
+      });
+    }
+  };
+
+  // List slots under the service period they belong to, e.g. Lunch and Dinner
+  const slotGroups = availableSlots.reduce<{ period: string | null; slots: AvailableSlot[] }[]>(
+    (groups, slot) => {
+      const lastGroup = groups[groups.length - 1];
+      if (lastGroup && lastGroup.period === slot.period) {
+        lastGroup.slots.push(slot);
+      } else {
+        groups.push({ period: slot.period, slots: [slot] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  // Bookable dates follow the restaurant's calendar, not the browser's
+  const restaurantToday = selectedRestaurant
+    ? getZonedDateTime(selectedRestaurant.timezone).date
+    : "";
+
   const getDayName = (day: number) => {
     const days = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
     return days[day];
@@ -278,19 +392,45 @@ export default function Home() {
                 <div className="mb-6 p-3 border rounded-md">
                   <p className="text-sm font-medium mb-2">Opening Hours</p>
                   <div className="text-xs space-y-1">
-                    {selectedRestaurant.openingHours
-                      .sort((a, b) => a.dayOfWeek - b.dayOfWeek)
-                      .map((hours) => (
-                        <div key={hours.dayOfWeek} className="flex justify-between">
-                          <span>{getDayName(hours.dayOfWeek).slice(0, 3)}</span>
+                    {[0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => {
+                      // A day can have several service periods, e.g. lunch and dinner
+                      const periods = selectedRestaurant.openingHours
+                        .filter((h) => h.dayOfWeek === dayOfWeek && !h.isClosed)
+                        .sort((a, b) => a.openTime.localeCompare(b.openTime));
+                      return (
+                        <div key={dayOfWeek} className="flex justify-between">
+                          <span>{getDayName(dayOfWeek).slice(0, 3)}</span>
                           <span>
-                            {hours.isClosed
+                            {periods.length === 0
                               ? "Closed"
-                              : `${hours.openTime}-${hours.closeTime}`}
+                              : periods
+                                  .map((h) => `${h.name ? `${h.name} ` : ""}${h.openTime}-${h.closeTime}`)
+                                  .join(", ")}
                           </span>
                         </div>
-                      ))}
+                      );
+                    })}
                   </div>
+                  {selectedRestaurant.openingHoursOverrides.length > 0 && (
+                    <>
+                      <p className="text-sm font-medium mt-3 mb-2">Special Dates</p>
+                      <div className="text-xs space-y-1">
+                        {selectedRestaurant.openingHoursOverrides.map((override, index) => (
+                          <div key={index} className="flex justify-between">
+                            <span>
+                              {override.date}
+                              {override.reason && ` (${override.reason})`}
+                            </span>
+                            <span>
+                              {override.isClosed
+                                ? "Closed"
+                                : `${override.openTime}-${override.closeTime}`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
                 </div>
 
                 <form onSubmit={handleBookingSubmit} className="space-y-4">
@@ -353,13 +493,14 @@ export default function Home() {
                         id="bookingDate"
                         type="date"
                         required
-                        min={new Date().toISOString().split("T")[0]}
-                        max={new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString().split("T")[0]}
+                        min={restaurantToday}
+                        max={addDays(restaurantToday, MAX_DAYS_IN_ADVANCE)}
                         value={bookingData.bookingDate}
                         onChange={(e) =>
                           setBookingData({
                             ...bookingData,
                             bookingDate: e.target.value,
+                            bookingTime: "",
                           })
                         }
                       />
@@ -367,18 +508,40 @@ export default function Home() {
 
                     <div>
                       <Label htmlFor="bookingTime" className="mb-2 block">Time</Label>
-                      <Input
-                        id="bookingTime"
-                        type="time"
-                        required
+                      <Select
                         value={bookingData.bookingTime}
-                        onChange={(e) =>
-                          setBookingData({
-                            ...bookingData,
-                            bookingTime: e.target.value,
-                          })
+                        onValueChange={(value: string) =>
+                          setBookingData({ ...bookingData, bookingTime: value })
                         }
-                      />
+                        disabled={availableSlots.length === 0}
+                        required
+                      >
+                        <SelectTrigger id="bookingTime">
+                          <SelectValue
+                            placeholder={
+                              !bookingData.bookingDate || !bookingData.partySize
+                                ? "Pick date and guests"
+                                : loadingSlots
+                                  ? "Loading..."
+                                  : availableSlots.length === 0
+                                    ? "No times available"
+                                    : "Select time"
+                            }
+                          />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {slotGroups.map((group) => (
+                            <SelectGroup key={group.slots[0].time}>
+                              {group.period && <SelectLabel>{group.period}</SelectLabel>}
+                              {group.slots.map((slot) => (
+                                <SelectItem key={slot.time} value={slot.time}>
+                                  {slot.time}
+                                </SelectItem>
+                              ))}
+                            </SelectGroup>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
 
@@ -387,7 +550,7 @@ export default function Home() {
                     <Select
                       value={bookingData.partySize}
                       onValueChange={(value) =>
-                        setBookingData({ ...bookingData, partySize: value })
+                        setBookingData({ ...bookingData, partySize: value, bookingTime: "" })
                       }
                       required
                     >
@@ -395,7 +558,7 @@ export default function Home() {
                         <SelectValue placeholder="Select size" />
                       </SelectTrigger>
                       <SelectContent>
-                        {[1, 2, 3, 4, 5, 6, 7, 8].map((size) => (
+                        {Array.from({ length: 20 }, (_, i) => i + 1).map((size) => (
                           <SelectItem key={size} value={size.toString()}>
                             {size} {size === 1 ? "guest" : "guests"}
                           </SelectItem>
@@ -404,6 +567,47 @@ export default function Home() {
                     </Select>
                   </div>
 
+                  {bookingData.bookingDate && bookingData.partySize && !loadingSlots &&
+                    availableSlots.length === 0 && (
+                    <div className="rounded-md border p-3 space-y-3">
+                      <p className="text-sm">
+                        Fully booked? Join the waitlist and we&apos;ll hold a table for you if one frees up.
+                      </p>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <Label htmlFor="earliestTime" className="mb-2 block">From</Label>
+                          <Input
+                            id="earliestTime"
+                            type="time"
+                            value={waitlistWindow.earliestTime}
+                            onChange={(e) =>
+                              setWaitlistWindow({ ...waitlistWindow, earliestTime: e.target.value })
+                            }
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="latestTime" className="mb-2 block">Until</Label>
+                          <Input
+                            id="latestTime"
+                            type="time"
+                            value={waitlistWindow.latestTime}
+                            onChange={(e) =>
+                              setWaitlistWindow({ ...waitlistWindow, latestTime: e.target.value })
+                            }
+                          />
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full cursor-pointer"
+                        onClick={handleJoinWaitlist}
+                      >
+                        Join Waitlist
+                      </Button>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="specialRequests" className="mb-2 block">Special Requests (Optional)</Label>
                     <Textarea
@@ -428,6 +632,23 @@ export default function Home() {
                       }`}
                     >
                       {bookingStatus.message}
+                      {bookingStatus.manageUrl && (
+                        <p className="mt-2">
+                          Need to change plans?{" "}
+                          <a href={bookingStatus.manageUrl} className="underline font-medium">
+                            Manage your reservation
+                          </a>
+                          . Keep this link, it is the only way to find your booking.
+                        </p>
+                      )}
+                      {bookingStatus.waitlistUrl && (
+                        <p className="mt-2">
+                          <a href={bookingStatus.waitlistUrl} className="underline font-medium">
+                            View your waitlist place
+                          </a>
+                          . Keep this link to claim a table or leave the waitlist.
+                        </p>
+                      )}
                     </div>
                   )}
 
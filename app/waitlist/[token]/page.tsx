@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Header } from "@/components/header";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+
+type WaitlistEntry = {
+  id: number;
+  bookingDate: string;
+  earliestTime: string;
+  latestTime: string;
+  partySize: number;
+  status: string;
+  offeredTime: string | null;
+  offerExpiresAt: string | null;
+  restaurant: {
+    name: string;
+    address: string;
+    phone: string;
+  };
+  customer: {
+    name: string;
+  };
+  offeredTable: {
+    tableNumber: string;
+  } | null;
+  offeredTableGroup: {
+    name: string;
+  } | null;
+};
+
+const STATUS_MESSAGES: Record<string, string> = {
+  waiting: "You're on the waitlist. If a table frees up, it will be held for you here and we'll email you.",
+  booked: "You claimed your table. Check your booking link for the details.",
+  expired: "The table held for you was not claimed in time and has been offered to the next guest.",
+  cancelled: "You have left the waitlist.",
+};
+
+export default function WaitlistPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const loadEntry = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/waitlist/${token}`);
+      const data = await response.json() as { entry?: WaitlistEntry; error?: string };
+
+      if (data.entry) {
+        setEntry(data.entry);
+      } else {
+        setStatus({ type: "error", message: data.error || "Waitlist entry not found" });
+      }
+    } catch (error) {
+      console.error("Error fetching waitlist entry:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadEntry();
+  }, [loadEntry]);
+
+  const entryStatus = entry?.status;
+  useEffect(() => {
+    if (entryStatus !== "waiting" && entryStatus !== "offered") return;
+    // An offer lasts only minutes, so show it as soon as a table frees up
+    const interval = setInterval(loadEntry, 30 * 1000);
+    return () => clearInterval(interval);
+  }, [entryStatus, loadEntry]);
+
+  const handleClaim = async () => {
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/waitlist/${token}/claim`, { method: "POST" });
+      const data = await response.json() as { manageToken?: string; error?: string };
+
+      if (response.ok && data.manageToken) {
+        // The booking is now managed like any other
+        router.push(`/manage/${data.manageToken}`);
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to claim table" });
+        loadEntry();
+      }
+    } catch (error) {
+      console.error("Error claiming table:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!confirm("Are you sure you want to leave the waitlist?")) return;
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/waitlist/${token}`, { method: "DELETE" });
+      const data = await response.json() as { error?: string };
+
+      if (response.ok) {
+        loadEntry();
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to leave waitlist" });
+      }
+    } catch (error) {
+      console.error("Error leaving waitlist:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  if (loading) {
+    return (
+      <>
+        <Header />
+        <div className="flex items-center justify-center min-h-screen">
+          <p className="text-muted-foreground">Loading waitlist...</p>
+        </div>
+      </>
+    );
+  }
+
+  const isActive = entry?.status === "waiting" || entry?.status === "offered";
+
+  return (
+    <>
+      <Header />
+      <div className="mx-auto p-6 max-w-2xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">Your Waitlist Place</h1>
+          <p className="text-muted-foreground">Claim a table when one frees up</p>
+        </div>
+
+        {status.type && (
+          <div
+            className={`mb-6 p-3 rounded-md text-sm ${
+              status.type === "success"
+                ? "bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400"
+                : "bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-400"
+            }`}
+          >
+            {status.message}
+          </div>
+        )}
+
+        {entry && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>{entry.restaurant.name}</CardTitle>
+                <Badge variant="secondary">{entry.status}</Badge>
+              </div>
+              <CardDescription>
+                {entry.customer.name} · {entry.bookingDate} between {entry.earliestTime} and{" "}
+                {entry.latestTime} · {entry.partySize} {entry.partySize === 1 ? "guest" : "guests"}
+              </CardDescription>
+              <p className="text-sm text-muted-foreground">
+                {entry.restaurant.address} · {entry.restaurant.phone}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {entry.status === "offered" && entry.offeredTime ? (
+                <div className="p-3 rounded-md text-sm bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                  A table is free at {entry.offeredTime} (Table{" "}
+                  {entry.offeredTableGroup?.name ?? entry.offeredTable?.tableNumber}) and is being held
+                  for you
+                  {entry.offerExpiresAt &&
+                    ` until ${new Date(entry.offerExpiresAt).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}`}
+                  .
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{STATUS_MESSAGES[entry.status]}</p>
+              )}
+
+              {isActive && (
+                <div className="flex gap-3">
+                  {entry.status === "offered" && (
+                    <Button className="flex-1 cursor-pointer" onClick={handleClaim}>
+                      Claim Table
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    className="cursor-pointer"
+                    onClick={handleLeave}
+                  >
+                    Leave Waitlist
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+}
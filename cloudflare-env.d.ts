@@ -4,6 +4,11 @@
 declare namespace Cloudflare {
 	interface Env {
 		NEXTJS_ENV: string;
+		AUTH_SECRET: string;
+		ADMIN_API_KEY: string;
+		APP_URL: string;
+		NOTIFICATION_TRANSPORT: string;
+		PAYMENT_PROVIDER: string;
 		DB: D1Database;
 		ASSETS: Fetcher;
 	}
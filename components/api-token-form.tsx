@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getApiToken, setApiToken } from "@/lib/api-token";
+
+export function ApiTokenForm({ onSave }: { onSave: () => void }) {
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    setToken(getApiToken());
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApiToken(token.trim());
+    onSave();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-end gap-2">
+      <div className="flex-1">
+        <Label htmlFor="apiToken" className="mb-2 block">API Token</Label>
+        <Input
+          id="apiToken"
+          type="password"
+          placeholder="Staff or admin token"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+        />
+      </div>
+      <Button type="submit" variant="outline" className="cursor-pointer">
+        Save
+      </Button>
+    </form>
+  );
+}
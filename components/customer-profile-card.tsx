@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { authHeaders } from "@/lib/api-token";
+
+export type CustomerProfile = {
+  stats: {
+    bookingCount: number;
+    visitCount: number;
+    noShowCount: number;
+    cancellationCount: number;
+    lastVisit: string | null;
+    averagePartySize: number | null;
+  };
+  allergies: string | null;
+  notes: string | null;
+  tags: string[];
+  computedTags: string[];
+};
+
+// A guest's visit history and the staff's notes on them, editable in place
+export function CustomerProfileCard({
+  restaurantId,
+  customer,
+  profile,
+  onClose,
+}: {
+  restaurantId: number;
+  customer: { id: number; name: string; email: string; phone: string };
+  profile: CustomerProfile;
+  onClose: () => void;
+}) {
+  const [current, setCurrent] = useState(profile);
+  const [formData, setFormData] = useState({ allergies: "", notes: "", tags: "" });
+  const [status, setStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  useEffect(() => {
+    setCurrent(profile);
+    setFormData({
+      allergies: profile.allergies || "",
+      notes: profile.notes || "",
+      tags: profile.tags.join(", "),
+    });
+    setStatus({ type: null, message: "" });
+  }, [profile]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/restaurants/${restaurantId}/customers/${customer.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({
+          allergies: formData.allergies.trim() || null,
+          notes: formData.notes.trim() || null,
+          tags: formData.tags.split(",").map((t) => t.trim()).filter(Boolean),
+        }),
+      });
+      const data = await response.json() as { profile?: CustomerProfile; error?: string };
+
+      if (response.ok && data.profile) {
+        setCurrent(data.profile);
+        setStatus({ type: "success", message: "Profile saved" });
+      } else {
+        setStatus({ type: "error", message: data.error || "Failed to save profile" });
+      }
+    } catch (error) {
+      console.error("Error saving customer profile:", error);
+      setStatus({ type: "error", message: "An error occurred. Please try again." });
+    }
+  };
+
+  const { stats } = current;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{customer.name}</CardTitle>
+          <Button variant="outline" size="sm" onClick={onClose} className="cursor-pointer">
+            Close
+          </Button>
+        </div>
+        <CardDescription>
+          {customer.email} · {customer.phone}
+        </CardDescription>
+        <div className="flex flex-wrap gap-2">
+          {current.computedTags.map((tag) => (
+            <Badge key={tag} variant="secondary">{tag}</Badge>
+          ))}
+          {current.tags.map((tag) => (
+            <Badge key={tag}>{tag}</Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Visits</p>
+            <p className="font-medium">{stats.visitCount} of {stats.bookingCount} bookings</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">No-shows</p>
+            <p className="font-medium">{stats.noShowCount}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Last visit</p>
+            <p className="font-medium">{stats.lastVisit ?? "Never"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Average party</p>
+            <p className="font-medium">{stats.averagePartySize ?? "-"}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div>
+            <Label htmlFor="allergies" className="mb-2 block">Allergies</Label>
+            <Input
+              id="allergies"
+              placeholder="e.g. Shellfish, tree nuts"
+              value={formData.allergies}
+              onChange={(e) => setFormData({ ...formData, allergies: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="tags" className="mb-2 block">Tags</Label>
+            <Input
+              id="tags"
+              placeholder="e.g. VIP, window seat"
+              value={formData.tags}
+              onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="notes" className="mb-2 block">Staff Notes</Label>
+            <Textarea
+              id="notes"
+              rows={3}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+          {status.type && (
+            <p
+              className={`text-sm ${
+                status.type === "success"
+                  ? "text-green-800 dark:text-green-400"
+                  : "text-red-800 dark:text-red-400"
+              }`}
+            >
+              {status.message}
+            </p>
+          )}
+          <Button type="submit" className="cursor-pointer">
+            Save Profile
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -26,6 +26,18 @@ export function Header() {
           >
             All Data
           </Link>
+          <Link
+            href="/host"
+            className="text-sm font-medium hover:underline underline-offset-4"
+          >
+            Host
+          </Link>
+          <Link
+            href="/admin/restaurants"
+            className="text-sm font-medium hover:underline underline-offset-4"
+          >
+            Admin
+          </Link>
           <Link
             href="/api-docs"
             className="text-sm font-medium hover:underline underline-offset-4"
@@ -5,5 +5,6 @@ export function getDb(db: D1Database) {
   return drizzle(db, { schema });
 }
 
-export * from "./schema";
+export type Database = ReturnType<typeof getDb>;
 
+export * from "./schema";
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, primaryKey, unique } from "drizzle-orm/sqlite-core";
 
 export const restaurants = sqliteTable("restaurants", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -11,6 +11,11 @@ export const restaurants = sqliteTable("restaurants", {
   cuisine: text("cuisine").notNull(),
   priceRange: text("price_range").notNull(), // $, $$, $$$, $$$$
   imageUrl: text("image_url"),
+  defaultSeatingMinutes: integer("default_seating_minutes").notNull().default(90),
+  timezone: text("timezone").notNull().default("UTC"), // IANA name; booking dates and times are local to it
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code for deposits and fees
+  // Signed into calendar feed links; bumping it revokes every link handed out
+  calendarFeedVersion: integer("calendar_feed_version").notNull().default(1),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -22,11 +27,88 @@ export const openingHours = sqliteTable("opening_hours", {
     .notNull()
     .references(() => restaurants.id, { onDelete: "cascade" }),
   dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday, 6 = Saturday
+  // Service period, e.g. "Lunch" or "Dinner"; a day may have several
+  name: text("name"),
   openTime: text("open_time").notNull(), // HH:MM format
   closeTime: text("close_time").notNull(), // HH:MM format
   isClosed: integer("is_closed", { mode: "boolean" }).notNull().default(false),
 });
 
+// Replaces the weekly schedule on a specific date, e.g. holidays, private events or
+// extended New Year's Eve hours. Several rows on one date describe split shifts.
+export const openingHoursOverrides = sqliteTable("opening_hours_overrides", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  date: text("date").notNull(), // YYYY-MM-DD format
+  openTime: text("open_time"), // HH:MM format, null when closed all day
+  closeTime: text("close_time"), // HH:MM format, null when closed all day
+  isClosed: integer("is_closed", { mode: "boolean" }).notNull().default(false),
+  reason: text("reason"), // Shown to guests, e.g. "Christmas Day"
+});
+
+// Overrides the restaurant's default seating duration for a range of party sizes
+export const seatingDurations = sqliteTable("seating_durations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  minPartySize: integer("min_party_size").notNull(),
+  maxPartySize: integer("max_party_size").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+});
+
+// How close to the visit a guest can cancel for free. The policy with the highest
+// minPartySize not above the party size applies, so larger parties can have stricter rules.
+export const cancellationPolicies = sqliteTable("cancellation_policies", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  minPartySize: integer("min_party_size").notNull().default(1),
+  freeCancellationHours: integer("free_cancellation_hours").notNull(), // Hours before the visit
+  lateCancellationFeeCents: integer("late_cancellation_fee_cents"), // Null when late cancellations are only flagged
+});
+
+// A deposit guests must pay to book, for parties of at least minPartySize and,
+// when set, only on one day of the week and from startTime up to endTime (peak slots).
+// When several rules match a booking, the largest deposit applies.
+export const depositRules = sqliteTable("deposit_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  minPartySize: integer("min_party_size").notNull().default(1),
+  dayOfWeek: integer("day_of_week"), // 0 = Sunday, 6 = Saturday; null for every day
+  startTime: text("start_time"), // HH:MM format; null for all day
+  endTime: text("end_time"), // HH:MM format, exclusive
+  amountCents: integer("amount_cents").notNull(),
+});
+
+// A deposit held on the guest's card for a booking. The hold is captured or released
+// once the booking's outcome is known.
+export const payments = sqliteTable("payments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  bookingId: integer("booking_id")
+    .notNull()
+    .references(() => bookings.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(),
+  providerPaymentId: text("provider_payment_id").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull(),
+  // requires_confirmation, authorized, captured, released, refunded, failed
+  status: text("status").notNull().default("requires_confirmation"),
+  capturedCents: integer("captured_cents").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 export const tables = sqliteTable("tables", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   restaurantId: integer("restaurant_id")
@@ -37,6 +119,30 @@ export const tables = sqliteTable("tables", {
   isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
 });
 
+// Tables that can be pushed together to seat a larger party
+export const tableGroups = sqliteTable("table_groups", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  capacity: integer("capacity").notNull(), // Combined seats once joined
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+});
+
+export const tableGroupMembers = sqliteTable(
+  "table_group_members",
+  {
+    tableGroupId: integer("table_group_id")
+      .notNull()
+      .references(() => tableGroups.id, { onDelete: "cascade" }),
+    tableId: integer("table_id")
+      .notNull()
+      .references(() => tables.id, { onDelete: "cascade" }),
+  },
+  (t) => [primaryKey({ columns: [t.tableGroupId, t.tableId] })]
+);
+
 export const customers = sqliteTable("customers", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   name: text("name").notNull(),
@@ -47,22 +153,239 @@ export const customers = sqliteTable("customers", {
     .default(sql`(unixepoch())`),
 });
 
+// What a restaurant's staff know about a customer. Each restaurant keeps its own,
+// as customers are shared between restaurants.
+export const customerProfiles = sqliteTable(
+  "customer_profiles",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    restaurantId: integer("restaurant_id")
+      .notNull()
+      .references(() => restaurants.id, { onDelete: "cascade" }),
+    customerId: integer("customer_id")
+      .notNull()
+      .references(() => customers.id, { onDelete: "cascade" }),
+    allergies: text("allergies"),
+    notes: text("notes"),
+    tags: text("tags", { mode: "json" }).$type<string[]>().notNull().default([]),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (t) => [unique().on(t.restaurantId, t.customerId)]
+);
+
 export const bookings = sqliteTable("bookings", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   restaurantId: integer("restaurant_id")
     .notNull()
     .references(() => restaurants.id, { onDelete: "cascade" }),
+  // Lead table; every table reserved by the booking is listed in booking_tables
   tableId: integer("table_id")
     .notNull()
     .references(() => tables.id, { onDelete: "cascade" }),
+  tableGroupId: integer("table_group_id").references(() => tableGroups.id, {
+    onDelete: "set null",
+  }),
   customerId: integer("customer_id")
     .notNull()
     .references(() => customers.id, { onDelete: "cascade" }),
   bookingDate: text("booking_date").notNull(), // YYYY-MM-DD format
   bookingTime: text("booking_time").notNull(), // HH:MM format
   partySize: integer("party_size").notNull(),
-  status: text("status").notNull().default("confirmed"), // confirmed, cancelled, completed, no-show
+  durationMinutes: integer("duration_minutes").notNull().default(90), // Table is occupied from bookingTime for this long
+  status: text("status").notNull().default("confirmed"), // See BOOKING_STATUSES in lib/booking-lifecycle
   specialRequests: text("special_requests"),
+  // When the booking entered each status, set by lib/booking-lifecycle. Bookings made
+  // before these columns existed only have confirmedAt and their current status's.
+  confirmedAt: integer("confirmed_at", { mode: "timestamp" }),
+  arrivedAt: integer("arrived_at", { mode: "timestamp" }),
+  seatedAt: integer("seated_at", { mode: "timestamp" }),
+  completedAt: integer("completed_at", { mode: "timestamp" }),
+  cancelledAt: integer("cancelled_at", { mode: "timestamp" }),
+  noShowAt: integer("no_show_at", { mode: "timestamp" }),
+  // Outcome of the restaurant's cancellation policy, set when the booking is cancelled
+  lateCancellation: integer("late_cancellation", { mode: "boolean" }),
+  cancellationFeeCents: integer("cancellation_fee_cents"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const bookingTables = sqliteTable(
+  "booking_tables",
+  {
+    bookingId: integer("booking_id")
+      .notNull()
+      .references(() => bookings.id, { onDelete: "cascade" }),
+    tableId: integer("table_id")
+      .notNull()
+      .references(() => tables.id, { onDelete: "cascade" }),
+  },
+  (t) => [primaryKey({ columns: [t.bookingId, t.tableId] })]
+);
+
+// Append-only history of a booking: its creation, every change and every status move
+export const bookingEvents = sqliteTable("booking_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  bookingId: integer("booking_id")
+    .notNull()
+    .references(() => bookings.id, { onDelete: "cascade" }),
+  type: text("type").notNull(), // created, updated, status_changed
+  actorRole: text("actor_role").notNull(), // guest, staff or admin
+  actorSubject: text("actor_subject"), // Token subject; null for guests
+  // Field name to its value before and after, e.g. { "partySize": { "from": 2, "to": 4 } }
+  changes: text("changes", { mode: "json" })
+    .notNull()
+    .$type<Record<string, { from: unknown; to: unknown }>>(),
+  note: text("note"), // e.g. "Bulk update" or "Changed through the manage link"
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Outbox of emails to guests and restaurants. Rows are written by the request that
+// triggers them and sent afterwards, so a slow or failing transport never holds it up.
+export const notifications = sqliteTable("notifications", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // confirmation, modification, cancellation, reminder, waitlist_offer
+  audience: text("audience").notNull(), // guest or restaurant
+  recipient: text("recipient").notNull(), // Email address
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  status: text("status").notNull().default("queued"), // queued, sending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  claimedAt: integer("claimed_at", { mode: "timestamp" }), // When a delivery started sending it
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// An endpoint, such as a POS or CRM, told about a restaurant's booking events
+export const webhookSubscriptions = sqliteTable("webhook_subscriptions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // Signs each delivery so the receiver can check it came from us
+  events: text("events", { mode: "json" }).$type<string[]>().notNull(), // See WEBHOOK_EVENTS in lib/webhooks
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Outbox and log of webhook calls. Failed calls are retried with backoff until
+// they succeed or run out of attempts.
+export const webhookDeliveries = sqliteTable("webhook_deliveries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  subscriptionId: integer("subscription_id")
+    .notNull()
+    .references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  bookingId: integer("booking_id").references(() => bookings.id, { onDelete: "set null" }),
+  event: text("event").notNull(),
+  payload: text("payload").notNull(), // The JSON body sent, exactly as signed
+  status: text("status").notNull().default("queued"), // queued, sending, delivered, failed
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  claimedAt: integer("claimed_at", { mode: "timestamp" }), // When a delivery started calling it
+  deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// A guest waiting for a table on a date. When a booking is cancelled, waiting
+// entries are offered the freed seating in the order they joined, and the
+// offered tables are held for them until the offer expires.
+export const waitlistEntries = sqliteTable("waitlist_entries", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id")
+    .notNull()
+    .references(() => customers.id, { onDelete: "cascade" }),
+  bookingDate: text("booking_date").notNull(), // YYYY-MM-DD format
+  earliestTime: text("earliest_time").notNull(), // HH:MM format
+  latestTime: text("latest_time").notNull(), // HH:MM format
+  partySize: integer("party_size").notNull(),
+  specialRequests: text("special_requests"),
+  status: text("status").notNull().default("waiting"), // waiting, offered, booked, expired, cancelled
+  // The current or last offer; every held table is listed in waitlist_hold_tables
+  offeredTime: text("offered_time"), // HH:MM format
+  offeredTableId: integer("offered_table_id").references(() => tables.id, {
+    onDelete: "set null",
+  }),
+  offeredTableGroupId: integer("offered_table_group_id").references(() => tableGroups.id, {
+    onDelete: "set null",
+  }),
+  offeredDurationMinutes: integer("offered_duration_minutes"),
+  offerExpiresAt: integer("offer_expires_at", { mode: "timestamp" }),
+  bookingId: integer("booking_id").references(() => bookings.id, {
+    onDelete: "set null",
+  }), // Set once the offer is claimed
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const waitlistHoldTables = sqliteTable(
+  "waitlist_hold_tables",
+  {
+    waitlistEntryId: integer("waitlist_entry_id")
+      .notNull()
+      .references(() => waitlistEntries.id, { onDelete: "cascade" }),
+    tableId: integer("table_id")
+      .notNull()
+      .references(() => tables.id, { onDelete: "cascade" }),
+  },
+  (t) => [primaryKey({ columns: [t.waitlistEntryId, t.tableId] })]
+);
+
+// A party that arrived without a booking. Hosts seat them straight away or queue
+// them with a quoted wait; seated walk-ins hold their tables like bookings do.
+export const walkIns = sqliteTable("walk_ins", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  restaurantId: integer("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id, { onDelete: "cascade" }),
+  partyName: text("party_name").notNull(),
+  phone: text("phone"), // To call the party back when their table is ready
+  partySize: integer("party_size").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD format
+  arrivalTime: text("arrival_time").notNull(), // HH:MM format
+  status: text("status").notNull().default("queued"), // queued, seated, completed, left
+  quotedWaitMinutes: integer("quoted_wait_minutes"),
+  // Set once seated; every table is listed in walk_in_tables
+  tableId: integer("table_id").references(() => tables.id, { onDelete: "set null" }),
+  tableGroupId: integer("table_group_id").references(() => tableGroups.id, {
+    onDelete: "set null",
+  }),
+  seatedTime: text("seated_time"), // HH:MM format
+  durationMinutes: integer("duration_minutes"), // Table is expected to be free again after this long
+  notes: text("notes"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -71,11 +394,32 @@ export const bookings = sqliteTable("bookings", {
     .default(sql`(unixepoch())`),
 });
 
+export const walkInTables = sqliteTable(
+  "walk_in_tables",
+  {
+    walkInId: integer("walk_in_id")
+      .notNull()
+      .references(() => walkIns.id, { onDelete: "cascade" }),
+    tableId: integer("table_id")
+      .notNull()
+      .references(() => tables.id, { onDelete: "cascade" }),
+  },
+  (t) => [primaryKey({ columns: [t.walkInId, t.tableId] })]
+);
+
 // Relations
 export const restaurantsRelations = relations(restaurants, ({ many }) => ({
   openingHours: many(openingHours),
+  openingHoursOverrides: many(openingHoursOverrides),
+  seatingDurations: many(seatingDurations),
+  cancellationPolicies: many(cancellationPolicies),
+  depositRules: many(depositRules),
+  webhookSubscriptions: many(webhookSubscriptions),
   tables: many(tables),
+  tableGroups: many(tableGroups),
   bookings: many(bookings),
+  waitlistEntries: many(waitlistEntries),
+  walkIns: many(walkIns),
 }));
 
 export const openingHoursRelations = relations(openingHours, ({ one }) => ({
@@ -85,19 +429,107 @@ export const openingHoursRelations = relations(openingHours, ({ one }) => ({
   }),
 }));
 
+export const openingHoursOverridesRelations = relations(openingHoursOverrides, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [openingHoursOverrides.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const seatingDurationsRelations = relations(seatingDurations, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [seatingDurations.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const cancellationPoliciesRelations = relations(cancellationPolicies, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [cancellationPolicies.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const depositRulesRelations = relations(depositRules, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [depositRules.restaurantId],
+    references: [restaurants.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [payments.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
 export const tablesRelations = relations(tables, ({ one, many }) => ({
   restaurant: one(restaurants, {
     fields: [tables.restaurantId],
     references: [restaurants.id],
   }),
   bookings: many(bookings),
+  bookingTables: many(bookingTables),
+  tableGroupMembers: many(tableGroupMembers),
+}));
+
+export const tableGroupsRelations = relations(tableGroups, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [tableGroups.restaurantId],
+    references: [restaurants.id],
+  }),
+  members: many(tableGroupMembers),
+}));
+
+export const tableGroupMembersRelations = relations(tableGroupMembers, ({ one }) => ({
+  tableGroup: one(tableGroups, {
+    fields: [tableGroupMembers.tableGroupId],
+    references: [tableGroups.id],
+  }),
+  table: one(tables, {
+    fields: [tableGroupMembers.tableId],
+    references: [tables.id],
+  }),
 }));
 
 export const customersRelations = relations(customers, ({ many }) => ({
   bookings: many(bookings),
+  waitlistEntries: many(waitlistEntries),
+  profiles: many(customerProfiles),
 }));
 
-export const bookingsRelations = relations(bookings, ({ one }) => ({
+export const webhookSubscriptionsRelations = relations(webhookSubscriptions, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [webhookSubscriptions.restaurantId],
+    references: [restaurants.id],
+  }),
+  deliveries: many(webhookDeliveries),
+}));
+
+export const webhookDeliveriesRelations = relations(webhookDeliveries, ({ one }) => ({
+  subscription: one(webhookSubscriptions, {
+    fields: [webhookDeliveries.subscriptionId],
+    references: [webhookSubscriptions.id],
+  }),
+  booking: one(bookings, {
+    fields: [webhookDeliveries.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const customerProfilesRelations = relations(customerProfiles, ({ one }) => ({
+  restaurant: one(restaurants, {
+    fields: [customerProfiles.restaurantId],
+    references: [restaurants.id],
+  }),
+  customer: one(customers, {
+    fields: [customerProfiles.customerId],
+    references: [customers.id],
+  }),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one, many }) => ({
   restaurant: one(restaurants, {
     fields: [bookings.restaurantId],
     references: [restaurants.id],
@@ -106,10 +538,97 @@ export const bookingsRelations = relations(bookings, ({ one }) => ({
     fields: [bookings.tableId],
     references: [tables.id],
   }),
+  tableGroup: one(tableGroups, {
+    fields: [bookings.tableGroupId],
+    references: [tableGroups.id],
+  }),
+  bookingTables: many(bookingTables),
   customer: one(customers, {
     fields: [bookings.customerId],
     references: [customers.id],
   }),
+  events: many(bookingEvents),
+  payments: many(payments),
+}));
+
+export const bookingEventsRelations = relations(bookingEvents, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingEvents.bookingId],
+    references: [bookings.id],
+  }),
+}));
+
+export const bookingTablesRelations = relations(bookingTables, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingTables.bookingId],
+    references: [bookings.id],
+  }),
+  table: one(tables, {
+    fields: [bookingTables.tableId],
+    references: [tables.id],
+  }),
+}));
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [waitlistEntries.restaurantId],
+    references: [restaurants.id],
+  }),
+  customer: one(customers, {
+    fields: [waitlistEntries.customerId],
+    references: [customers.id],
+  }),
+  offeredTable: one(tables, {
+    fields: [waitlistEntries.offeredTableId],
+    references: [tables.id],
+  }),
+  offeredTableGroup: one(tableGroups, {
+    fields: [waitlistEntries.offeredTableGroupId],
+    references: [tableGroups.id],
+  }),
+  booking: one(bookings, {
+    fields: [waitlistEntries.bookingId],
+    references: [bookings.id],
+  }),
+  holdTables: many(waitlistHoldTables),
+}));
+
+export const waitlistHoldTablesRelations = relations(waitlistHoldTables, ({ one }) => ({
+  waitlistEntry: one(waitlistEntries, {
+    fields: [waitlistHoldTables.waitlistEntryId],
+    references: [waitlistEntries.id],
+  }),
+  table: one(tables, {
+    fields: [waitlistHoldTables.tableId],
+    references: [tables.id],
+  }),
+}));
+
+export const walkInsRelations = relations(walkIns, ({ one, many }) => ({
+  restaurant: one(restaurants, {
+    fields: [walkIns.restaurantId],
+    references: [restaurants.id],
+  }),
+  table: one(tables, {
+    fields: [walkIns.tableId],
+    references: [tables.id],
+  }),
+  tableGroup: one(tableGroups, {
+    fields: [walkIns.tableGroupId],
+    references: [tableGroups.id],
+  }),
+  walkInTables: many(walkInTables),
+}));
+
+export const walkInTablesRelations = relations(walkInTables, ({ one }) => ({
+  walkIn: one(walkIns, {
+    fields: [walkInTables.walkInId],
+    references: [walkIns.id],
+  }),
+  table: one(tables, {
+    fields: [walkInTables.tableId],
+    references: [tables.id],
+  }),
 }));
 
 // Types
@@ -117,10 +636,39 @@ export type Restaurant = typeof restaurants.$inferSelect;
 export type InsertRestaurant = typeof restaurants.$inferInsert;
 export type OpeningHours = typeof openingHours.$inferSelect;
 export type InsertOpeningHours = typeof openingHours.$inferInsert;
+export type OpeningHoursOverride = typeof openingHoursOverrides.$inferSelect;
+export type InsertOpeningHoursOverride = typeof openingHoursOverrides.$inferInsert;
+export type SeatingDuration = typeof seatingDurations.$inferSelect;
+export type InsertSeatingDuration = typeof seatingDurations.$inferInsert;
+export type CancellationPolicy = typeof cancellationPolicies.$inferSelect;
+export type InsertCancellationPolicy = typeof cancellationPolicies.$inferInsert;
+export type DepositRule = typeof depositRules.$inferSelect;
+export type InsertDepositRule = typeof depositRules.$inferInsert;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
 export type Table = typeof tables.$inferSelect;
 export type InsertTable = typeof tables.$inferInsert;
+export type TableGroup = typeof tableGroups.$inferSelect;
+export type InsertTableGroup = typeof tableGroups.$inferInsert;
+export type TableGroupMember = typeof tableGroupMembers.$inferSelect;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = typeof customers.$inferInsert;
+export type CustomerProfile = typeof customerProfiles.$inferSelect;
+export type InsertCustomerProfile = typeof customerProfiles.$inferInsert;
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = typeof bookings.$inferInsert;
-
+export type BookingTable = typeof bookingTables.$inferSelect;
+export type BookingEvent = typeof bookingEvents.$inferSelect;
+export type InsertBookingEvent = typeof bookingEvents.$inferInsert;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = typeof webhookSubscriptions.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = typeof webhookDeliveries.$inferInsert;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+export type InsertWaitlistEntry = typeof waitlistEntries.$inferInsert;
+export type WaitlistHoldTable = typeof waitlistHoldTables.$inferSelect;
+export type WalkIn = typeof walkIns.$inferSelect;
+export type InsertWalkIn = typeof walkIns.$inferInsert;
+export type WalkInTable = typeof walkInTables.$inferSelect;
@@ -0,0 +1,14 @@
+CREATE TABLE `seating_durations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`min_party_size` integer NOT NULL,
+	`max_party_size` integer NOT NULL,
+	`duration_minutes` integer NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `bookings` ADD `duration_minutes` integer DEFAULT 90 NOT NULL;--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `default_seating_minutes` integer DEFAULT 90 NOT NULL;--> statement-breakpoint
+UPDATE `bookings` SET `duration_minutes` = (
+	SELECT `default_seating_minutes` FROM `restaurants` WHERE `restaurants`.`id` = `bookings`.`restaurant_id`
+);
@@ -0,0 +1,27 @@
+CREATE TABLE `booking_tables` (
+	`booking_id` integer NOT NULL,
+	`table_id` integer NOT NULL,
+	PRIMARY KEY(`booking_id`, `table_id`),
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `table_group_members` (
+	`table_group_id` integer NOT NULL,
+	`table_id` integer NOT NULL,
+	PRIMARY KEY(`table_group_id`, `table_id`),
+	FOREIGN KEY (`table_group_id`) REFERENCES `table_groups`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `table_groups` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`capacity` integer NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `bookings` ADD `table_group_id` integer REFERENCES table_groups(id) ON DELETE set null;--> statement-breakpoint
+INSERT INTO `booking_tables` (`booking_id`, `table_id`) SELECT `id`, `table_id` FROM `bookings`;
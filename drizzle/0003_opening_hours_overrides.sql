@@ -0,0 +1,10 @@
+CREATE TABLE `opening_hours_overrides` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`date` text NOT NULL,
+	`open_time` text,
+	`close_time` text,
+	`is_closed` integer DEFAULT false NOT NULL,
+	`reason` text,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade
+);
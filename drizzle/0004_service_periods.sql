@@ -0,0 +1 @@
+ALTER TABLE `opening_hours` ADD `name` text;
\ No newline at end of file
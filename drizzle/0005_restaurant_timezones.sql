@@ -0,0 +1 @@
+ALTER TABLE `restaurants` ADD `timezone` text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
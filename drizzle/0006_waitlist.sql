@@ -0,0 +1,32 @@
+CREATE TABLE `waitlist_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`customer_id` integer NOT NULL,
+	`booking_date` text NOT NULL,
+	`earliest_time` text NOT NULL,
+	`latest_time` text NOT NULL,
+	`party_size` integer NOT NULL,
+	`special_requests` text,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`offered_time` text,
+	`offered_table_id` integer,
+	`offered_table_group_id` integer,
+	`offered_duration_minutes` integer,
+	`offer_expires_at` integer,
+	`booking_id` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`offered_table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`offered_table_group_id`) REFERENCES `table_groups`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `waitlist_hold_tables` (
+	`waitlist_entry_id` integer NOT NULL,
+	`table_id` integer NOT NULL,
+	PRIMARY KEY(`waitlist_entry_id`, `table_id`),
+	FOREIGN KEY (`waitlist_entry_id`) REFERENCES `waitlist_entries`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,29 @@
+CREATE TABLE `walk_in_tables` (
+	`walk_in_id` integer NOT NULL,
+	`table_id` integer NOT NULL,
+	PRIMARY KEY(`walk_in_id`, `table_id`),
+	FOREIGN KEY (`walk_in_id`) REFERENCES `walk_ins`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `walk_ins` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`party_name` text NOT NULL,
+	`phone` text,
+	`party_size` integer NOT NULL,
+	`date` text NOT NULL,
+	`arrival_time` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`quoted_wait_minutes` integer,
+	`table_id` integer,
+	`table_group_id` integer,
+	`seated_time` text,
+	`duration_minutes` integer,
+	`notes` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`table_id`) REFERENCES `tables`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`table_group_id`) REFERENCES `table_groups`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,7 @@
+ALTER TABLE `bookings` ADD `confirmed_at` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `arrived_at` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `seated_at` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `completed_at` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `cancelled_at` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `no_show_at` integer;--> statement-breakpoint
+UPDATE `bookings` SET `confirmed_at` = `created_at`;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `booking_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`booking_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`actor_role` text NOT NULL,
+	`actor_subject` text,
+	`changes` text NOT NULL,
+	`note` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,11 @@
+CREATE TABLE `cancellation_policies` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`min_party_size` integer DEFAULT 1 NOT NULL,
+	`free_cancellation_hours` integer NOT NULL,
+	`late_cancellation_fee_cents` integer,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `bookings` ADD `late_cancellation` integer;--> statement-breakpoint
+ALTER TABLE `bookings` ADD `cancellation_fee_cents` integer;
\ No newline at end of file
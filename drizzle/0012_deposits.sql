@@ -0,0 +1,27 @@
+CREATE TABLE `deposit_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`min_party_size` integer DEFAULT 1 NOT NULL,
+	`day_of_week` integer,
+	`start_time` text,
+	`end_time` text,
+	`amount_cents` integer NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `payments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`booking_id` integer NOT NULL,
+	`provider` text NOT NULL,
+	`provider_payment_id` text NOT NULL,
+	`amount_cents` integer NOT NULL,
+	`currency` text NOT NULL,
+	`status` text DEFAULT 'requires_confirmation' NOT NULL,
+	`captured_cents` integer DEFAULT 0 NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`booking_id`) REFERENCES `bookings`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `restaurants` ADD `currency` text DEFAULT 'USD' NOT NULL;
\ No newline at end of file
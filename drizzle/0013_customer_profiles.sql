@@ -0,0 +1,14 @@
+CREATE TABLE `customer_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`restaurant_id` integer NOT NULL,
+	`customer_id` integer NOT NULL,
+	`allergies` text,
+	`notes` text,
+	`tags` text DEFAULT '[]' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`restaurant_id`) REFERENCES `restaurants`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `customer_profiles_restaurant_id_customer_id_unique` ON `customer_profiles` (`restaurant_id`,`customer_id`);
\ No newline at end of file
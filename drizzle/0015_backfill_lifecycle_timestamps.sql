@@ -0,0 +1,9 @@
+-- Bookings already past confirmed when 0008 added the lifecycle timestamps only had
+-- confirmed_at filled in. Their last change is the best record of when they reached
+-- their current status. Earlier steps, such as when a completed booking was seated,
+-- were never recorded and stay null.
+UPDATE `bookings` SET `arrived_at` = `updated_at` WHERE `status` = 'arrived' AND `arrived_at` IS NULL;--> statement-breakpoint
+UPDATE `bookings` SET `seated_at` = `updated_at` WHERE `status` = 'seated' AND `seated_at` IS NULL;--> statement-breakpoint
+UPDATE `bookings` SET `completed_at` = `updated_at` WHERE `status` = 'completed' AND `completed_at` IS NULL;--> statement-breakpoint
+UPDATE `bookings` SET `cancelled_at` = `updated_at` WHERE `status` = 'cancelled' AND `cancelled_at` IS NULL;--> statement-breakpoint
+UPDATE `bookings` SET `no_show_at` = `updated_at` WHERE `status` = 'no_show' AND `no_show_at` IS NULL;
@@ -0,0 +1 @@
+ALTER TABLE `restaurants` ADD `calendar_feed_version` integer DEFAULT 1 NOT NULL;
\ No newline at end of file
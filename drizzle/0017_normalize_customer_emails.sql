@@ -0,0 +1,116 @@
+-- Emails used to be stored as typed, so a guest could have several customers whose
+-- emails differ only in case or surrounding spaces, and lookups by the trimmed lower
+-- case email missed them. Each such group is merged into its oldest customer the way
+-- the admin merge does, then every email is stored trimmed and in lower case.
+CREATE TABLE `customer_email_groups` AS
+SELECT `c`.`id` AS `customer_id`, `g`.`survivor_id`
+FROM `customers` `c`
+JOIN (
+	SELECT lower(trim(`email`)) AS `email`, min(`id`) AS `survivor_id`
+	FROM `customers`
+	GROUP BY lower(trim(`email`))
+	HAVING count(*) > 1
+) `g` ON lower(trim(`c`.`email`)) = `g`.`email`;--> statement-breakpoint
+INSERT INTO `booking_events` (`booking_id`, `type`, `actor_role`, `actor_subject`, `changes`, `note`)
+SELECT
+	`b`.`id`,
+	'updated',
+	'admin',
+	'migration',
+	json_object('customerId', json_object('from', `m`.`customer_id`, 'to', `m`.`survivor_id`)),
+	'Customer #' || `m`.`customer_id` || ' merged into #' || `m`.`survivor_id`
+FROM `bookings` `b`
+JOIN `customer_email_groups` `m` ON `b`.`customer_id` = `m`.`customer_id`
+WHERE `m`.`customer_id` <> `m`.`survivor_id`;--> statement-breakpoint
+UPDATE `bookings`
+SET
+	`customer_id` = (SELECT `survivor_id` FROM `customer_email_groups` WHERE `customer_id` = `bookings`.`customer_id`),
+	`updated_at` = unixepoch()
+WHERE `customer_id` IN (SELECT `customer_id` FROM `customer_email_groups` WHERE `customer_id` <> `survivor_id`);--> statement-breakpoint
+UPDATE `waitlist_entries`
+SET `customer_id` = (SELECT `survivor_id` FROM `customer_email_groups` WHERE `customer_id` = `waitlist_entries`.`customer_id`)
+WHERE `customer_id` IN (SELECT `customer_id` FROM `customer_email_groups` WHERE `customer_id` <> `survivor_id`);--> statement-breakpoint
+-- The survivor gets a profile at every restaurant where a duplicate has one, which
+-- then takes everything staff wrote on any of them, the survivor's own first
+INSERT INTO `customer_profiles` (`restaurant_id`, `customer_id`)
+SELECT DISTINCT `p`.`restaurant_id`, `m`.`survivor_id`
+FROM `customer_profiles` `p`
+JOIN `customer_email_groups` `m` ON `p`.`customer_id` = `m`.`customer_id`
+WHERE `m`.`customer_id` <> `m`.`survivor_id` AND NOT EXISTS (
+	SELECT 1 FROM `customer_profiles` `s`
+	WHERE `s`.`restaurant_id` = `p`.`restaurant_id` AND `s`.`customer_id` = `m`.`survivor_id`
+);--> statement-breakpoint
+-- Every allergy, note and tag on the profiles each survivor takes over, in order
+-- with the survivor's own first, keeping only the first of any repeats
+CREATE TABLE `customer_profile_values` AS
+SELECT * FROM (
+	SELECT *, row_number() OVER (
+		PARTITION BY `restaurant_id`, `survivor_id`, `field`, `value`
+		ORDER BY `is_duplicate`, `profile_id`, `position`
+	) AS `occurrence`
+	FROM (
+		SELECT `p`.`restaurant_id`, `m`.`survivor_id`, 'allergies' AS `field`, `p`.`allergies` AS `value`,
+			`p`.`customer_id` <> `m`.`survivor_id` AS `is_duplicate`, `p`.`id` AS `profile_id`, 0 AS `position`
+		FROM `customer_profiles` `p`
+		JOIN `customer_email_groups` `m` ON `p`.`customer_id` = `m`.`customer_id`
+		WHERE `p`.`allergies` <> ''
+		UNION ALL
+		SELECT `p`.`restaurant_id`, `m`.`survivor_id`, 'notes', `p`.`notes`,
+			`p`.`customer_id` <> `m`.`survivor_id`, `p`.`id`, 0
+		FROM `customer_profiles` `p`
+		JOIN `customer_email_groups` `m` ON `p`.`customer_id` = `m`.`customer_id`
+		WHERE `p`.`notes` <> ''
+		UNION ALL
+		SELECT `p`.`restaurant_id`, `m`.`survivor_id`, 'tags', `t`.`value`,
+			`p`.`customer_id` <> `m`.`survivor_id`, `p`.`id`, `t`.`key`
+		FROM `customer_profiles` `p`
+		JOIN `customer_email_groups` `m` ON `p`.`customer_id` = `m`.`customer_id`
+		JOIN json_each(`p`.`tags`) `t`
+	)
+)
+WHERE `occurrence` = 1;--> statement-breakpoint
+UPDATE `customer_profiles`
+SET
+	`allergies` = (
+		SELECT group_concat(`value`, '; ') OVER (
+			PARTITION BY `restaurant_id`, `survivor_id`
+			ORDER BY `is_duplicate`, `profile_id`, `position`
+			ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING
+		)
+		FROM `customer_profile_values`
+		WHERE `field` = 'allergies'
+			AND `restaurant_id` = `customer_profiles`.`restaurant_id`
+			AND `survivor_id` = `customer_profiles`.`customer_id`
+		LIMIT 1
+	),
+	`notes` = (
+		SELECT group_concat(`value`, char(10, 10)) OVER (
+			PARTITION BY `restaurant_id`, `survivor_id`
+			ORDER BY `is_duplicate`, `profile_id`, `position`
+			ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING
+		)
+		FROM `customer_profile_values`
+		WHERE `field` = 'notes'
+			AND `restaurant_id` = `customer_profiles`.`restaurant_id`
+			AND `survivor_id` = `customer_profiles`.`customer_id`
+		LIMIT 1
+	),
+	`tags` = coalesce((
+		SELECT json_group_array(`value`) OVER (
+			PARTITION BY `restaurant_id`, `survivor_id`
+			ORDER BY `is_duplicate`, `profile_id`, `position`
+			ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING
+		)
+		FROM `customer_profile_values`
+		WHERE `field` = 'tags'
+			AND `restaurant_id` = `customer_profiles`.`restaurant_id`
+			AND `survivor_id` = `customer_profiles`.`customer_id`
+		LIMIT 1
+	), '[]'),
+	`updated_at` = unixepoch()
+WHERE `customer_id` IN (SELECT `survivor_id` FROM `customer_email_groups`);--> statement-breakpoint
+DELETE FROM `customer_profiles` WHERE `customer_id` IN (SELECT `customer_id` FROM `customer_email_groups` WHERE `customer_id` <> `survivor_id`);--> statement-breakpoint
+DELETE FROM `customers` WHERE `id` IN (SELECT `customer_id` FROM `customer_email_groups` WHERE `customer_id` <> `survivor_id`);--> statement-breakpoint
+UPDATE `customers` SET `email` = lower(trim(`email`)) WHERE `email` <> lower(trim(`email`));--> statement-breakpoint
+DROP TABLE `customer_profile_values`;--> statement-breakpoint
+DROP TABLE `customer_email_groups`;
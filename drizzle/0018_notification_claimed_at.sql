@@ -0,0 +1,3 @@
+ALTER TABLE `notifications` ADD `claimed_at` integer;--> statement-breakpoint
+-- Notifications already stuck sending are queued again once the timeout has passed
+UPDATE `notifications` SET `claimed_at` = unixepoch() WHERE `status` = 'sending';
@@ -0,0 +1,4 @@
+ALTER TABLE `webhook_deliveries` ADD `claimed_at` integer;--> statement-breakpoint
+-- Calls already stuck sending are queued again once the timeout has passed. Test
+-- calls are never retried, so they are left as they are.
+UPDATE `webhook_deliveries` SET `claimed_at` = unixepoch() WHERE `status` = 'sending' AND `event` <> 'webhook.test';
@@ -0,0 +1,21 @@
+// Browser-side storage for the staff/admin API token used by the dashboard pages
+
+const STORAGE_KEY = "freeTableApiToken";
+
+export function getApiToken(): string {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(STORAGE_KEY) || "";
+}
+
+export function setApiToken(token: string) {
+  if (token) {
+    window.localStorage.setItem(STORAGE_KEY, token);
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export function authHeaders(): Record<string, string> {
+  const token = getApiToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { signToken, timingSafeEqual, verifyToken } from "./tokens";
+
+export const ROLES = ["guest", "staff", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Who is making the request. Anonymous callers are guests.
+export interface Session {
+  role: Role;
+  subject: string | null;
+  restaurantId: number | null; // Set for staff, who only see their own restaurant
+}
+
+interface AuthTokenPayload {
+  typ: "auth";
+  sub: string;
+  role: Role;
+  rid?: number;
+  exp: number;
+}
+
+// Middleware verifies the bearer token and forwards the session in these headers
+export const AUTH_HEADERS = {
+  role: "x-auth-role",
+  subject: "x-auth-subject",
+  restaurantId: "x-auth-restaurant-id",
+} as const;
+
+export const GUEST_SESSION: Session = { role: "guest", subject: null, restaurantId: null };
+
+export async function createAuthToken(
+  session: { role: Role; subject: string; restaurantId?: number | null },
+  secret: string,
+  expiresInDays: number
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+  const token = await signToken<AuthTokenPayload>(
+    {
+      typ: "auth",
+      sub: session.subject,
+      role: session.role,
+      ...(session.restaurantId ? { rid: session.restaurantId } : {}),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    },
+    secret
+  );
+  return { token, expiresAt };
+}
+
+// Resolve the Authorization header to a session. Returns null when a
+// credential was supplied but is not valid.
+export async function authenticate(
+  authorization: string | null,
+  secrets: { authSecret?: string; adminApiKey?: string }
+): Promise<Session | null> {
+  if (!authorization) {
+    return GUEST_SESSION;
+  }
+
+  const [scheme, credential] = authorization.split(" ");
+  if (scheme !== "Bearer" || !credential) {
+    return null;
+  }
+
+  if (secrets.adminApiKey && timingSafeEqual(credential, secrets.adminApiKey)) {
+    return { role: "admin", subject: "admin-api-key", restaurantId: null };
+  }
+
+  if (!secrets.authSecret) {
+    return null;
+  }
+
+  const payload = await verifyToken<AuthTokenPayload>(credential, secrets.authSecret, "auth");
+  if (!payload || !ROLES.includes(payload.role) || (payload.role === "staff" && !payload.rid)) {
+    return null;
+  }
+
+  return {
+    role: payload.role,
+    subject: payload.sub,
+    restaurantId: payload.rid ?? null,
+  };
+}
+
+// Read the session forwarded by middleware
+export function getSession(request: NextRequest): Session {
+  const role = request.headers.get(AUTH_HEADERS.role) as Role | null;
+  if (!role || !ROLES.includes(role)) {
+    return GUEST_SESSION;
+  }
+
+  const restaurantId = request.headers.get(AUTH_HEADERS.restaurantId);
+  return {
+    role,
+    subject: request.headers.get(AUTH_HEADERS.subject),
+    restaurantId: restaurantId ? parseInt(restaurantId) : null,
+  };
+}
+
+// Returns an error response unless the session has one of the roles
+export function requireRole(session: Session, ...roles: Role[]): NextResponse | null {
+  if (roles.includes(session.role)) {
+    return null;
+  }
+
+  if (session.role === "guest") {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: "You do not have permission to perform this action" },
+    { status: 403 }
+  );
+}
+
+export function canAccessRestaurant(session: Session, restaurantId: number): boolean {
+  return session.role === "admin" ||
+    (session.role === "staff" && session.restaurantId === restaurantId);
+}
+
+// Returns an error response unless the session is an admin or staff of the restaurant
+export function requireRestaurantAccess(session: Session, restaurantId: number): NextResponse | null {
+  const roleError = requireRole(session, "staff", "admin");
+  if (roleError) {
+    return roleError;
+  }
+
+  if (!canAccessRestaurant(session, restaurantId)) {
+    return NextResponse.json(
+      { error: "You do not have access to this restaurant" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
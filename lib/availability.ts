@@ -0,0 +1,396 @@
+import { and, eq, gt, inArray } from "drizzle-orm";
+import {
+  bookings,
+  bookingTables,
+  waitlistEntries,
+  waitlistHoldTables,
+  walkIns,
+  walkInTables,
+  type Database,
+  type OpeningHours,
+  type OpeningHoursOverride,
+  type Restaurant,
+  type SeatingDuration,
+  type Table,
+  type TableGroup,
+  type TableGroupMember,
+} from "@/db";
+import { ACTIVE_BOOKING_STATUSES } from "./booking-lifecycle";
+import { getOpeningWindows, getSeatingDuration, type OpeningWindow } from "./booking-rules";
+import { minutesToTime, timeToMinutes } from "./time";
+import { getZonedDateTime, isExistingLocalTime } from "./timezone";
+
+// Bookable times are offered every half hour from opening until last seating
+export const SLOT_INTERVAL_MINUTES = 30;
+
+// A single table, or a group of tables joined together, that can seat a party
+export interface SeatingOption {
+  tableIds: number[];
+  tableGroupId: number | null;
+  label: string;
+  capacity: number;
+}
+
+export interface AvailableSlot {
+  time: string;
+  period: string | null; // Name of the service period the slot belongs to
+  options: SeatingOption[];
+}
+
+// A table is occupied from startMinutes (inclusive) to endMinutes (exclusive),
+// by a booking, a waitlist offer holding it or a seated walk-in
+export interface TableOccupancy {
+  bookingId: number | null;
+  waitlistEntryId: number | null;
+  walkInId: number | null;
+  tableId: number;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+// Relations to load with a restaurant to compute its availability
+export const seatingRelations = {
+  openingHours: true,
+  openingHoursOverrides: true,
+  seatingDurations: true,
+  tables: true,
+  tableGroups: { with: { members: true } },
+} as const;
+
+type RestaurantTables = {
+  tables: Table[];
+  tableGroups: (TableGroup & { members: TableGroupMember[] })[];
+};
+
+export type RestaurantWithDetails = Pick<Restaurant, "id" | "defaultSeatingMinutes" | "timezone"> &
+  RestaurantTables & {
+    openingHours: OpeningHours[];
+    openingHoursOverrides: OpeningHoursOverride[];
+    seatingDurations: SeatingDuration[];
+  };
+
+export function rangesOverlap(
+  startA: number,
+  endA: number,
+  startB: number,
+  endB: number
+): boolean {
+  return startA < endB && startB < endA;
+}
+
+// List every active table and every joinable group whose tables are all active
+export function getSeatingOptions(restaurant: RestaurantTables): SeatingOption[] {
+  const activeTables = new Map(
+    restaurant.tables.filter((t) => t.isActive).map((t) => [t.id, t])
+  );
+
+  const singleTables: SeatingOption[] = [...activeTables.values()].map((table) => ({
+    tableIds: [table.id],
+    tableGroupId: null,
+    label: table.tableNumber,
+    capacity: table.capacity,
+  }));
+
+  const groups: SeatingOption[] = restaurant.tableGroups
+    .filter(
+      (group) =>
+        group.isActive &&
+        group.members.length > 0 &&
+        group.members.every((m) => activeTables.has(m.tableId))
+    )
+    .map((group) => ({
+      tableIds: group.members.map((m) => m.tableId),
+      tableGroupId: group.id,
+      label: group.name,
+      capacity: group.capacity,
+    }));
+
+  return [...singleTables, ...groups];
+}
+
+export type SeatingResult =
+  | { seating: SeatingOption }
+  | { error: string; status: number };
+
+// Validate a specific table or table group requested for the party
+export function getRequestedSeating(
+  restaurant: RestaurantTables,
+  partySize: number,
+  requested: { tableId?: number; tableGroupId?: number }
+): SeatingResult {
+  if (requested.tableGroupId) {
+    const group = restaurant.tableGroups.find((g) => g.id === requested.tableGroupId);
+    if (!group) {
+      return { error: "Table group not found", status: 404 };
+    }
+
+    const seating = getSeatingOptions(restaurant).find((o) => o.tableGroupId === group.id);
+    if (!seating) {
+      return { error: "Table group is not available", status: 400 };
+    }
+
+    if (partySize > seating.capacity) {
+      return {
+        error: `Party size exceeds table group capacity (max ${seating.capacity})`,
+        status: 400,
+      };
+    }
+
+    return { seating };
+  }
+
+  const table = restaurant.tables.find((t) => t.id === requested.tableId);
+  if (!table) {
+    return { error: "Table not found", status: 404 };
+  }
+
+  if (!table.isActive) {
+    return { error: "Table is not available", status: 400 };
+  }
+
+  if (partySize > table.capacity) {
+    return {
+      error: `Party size exceeds table capacity (max ${table.capacity})`,
+      status: 400,
+    };
+  }
+
+  return {
+    seating: {
+      tableIds: [table.id],
+      tableGroupId: null,
+      label: table.tableNumber,
+      capacity: table.capacity,
+    },
+  };
+}
+
+// Load the time ranges during which tables are held by active bookings,
+// unexpired waitlist offers or seated walk-ins on a date
+export async function getTableOccupancy(
+  db: Database,
+  restaurantId: number,
+  date: string,
+  now: Date = new Date()
+): Promise<TableOccupancy[]> {
+  const bookingRows = await db
+    .select({
+      bookingId: bookings.id,
+      tableId: bookingTables.tableId,
+      bookingTime: bookings.bookingTime,
+      durationMinutes: bookings.durationMinutes,
+    })
+    .from(bookingTables)
+    .innerJoin(bookings, eq(bookingTables.bookingId, bookings.id))
+    .where(
+      and(
+        eq(bookings.restaurantId, restaurantId),
+        eq(bookings.bookingDate, date),
+        inArray(bookings.status, ACTIVE_BOOKING_STATUSES)
+      )
+    );
+
+  const holdRows = await db
+    .select({
+      waitlistEntryId: waitlistEntries.id,
+      tableId: waitlistHoldTables.tableId,
+      offeredTime: waitlistEntries.offeredTime,
+      offeredDurationMinutes: waitlistEntries.offeredDurationMinutes,
+    })
+    .from(waitlistHoldTables)
+    .innerJoin(waitlistEntries, eq(waitlistHoldTables.waitlistEntryId, waitlistEntries.id))
+    .where(
+      and(
+        eq(waitlistEntries.restaurantId, restaurantId),
+        eq(waitlistEntries.bookingDate, date),
+        eq(waitlistEntries.status, "offered"),
+        gt(waitlistEntries.offerExpiresAt, now)
+      )
+    );
+
+  const walkInRows = await db
+    .select({
+      walkInId: walkIns.id,
+      tableId: walkInTables.tableId,
+      seatedTime: walkIns.seatedTime,
+      durationMinutes: walkIns.durationMinutes,
+    })
+    .from(walkInTables)
+    .innerJoin(walkIns, eq(walkInTables.walkInId, walkIns.id))
+    .where(
+      and(
+        eq(walkIns.restaurantId, restaurantId),
+        eq(walkIns.date, date),
+        eq(walkIns.status, "seated")
+      )
+    );
+
+  return [
+    ...bookingRows.map((row) => {
+      const startMinutes = timeToMinutes(row.bookingTime);
+      return {
+        bookingId: row.bookingId,
+        waitlistEntryId: null,
+        walkInId: null,
+        tableId: row.tableId,
+        startMinutes,
+        endMinutes: startMinutes + row.durationMinutes,
+      };
+    }),
+    ...holdRows
+      .filter((row) => row.offeredTime && row.offeredDurationMinutes)
+      .map((row) => {
+        const startMinutes = timeToMinutes(row.offeredTime!);
+        return {
+          bookingId: null,
+          waitlistEntryId: row.waitlistEntryId,
+          walkInId: null,
+          tableId: row.tableId,
+          startMinutes,
+          endMinutes: startMinutes + row.offeredDurationMinutes!,
+        };
+      }),
+    ...walkInRows
+      .filter((row) => row.seatedTime && row.durationMinutes)
+      .map((row) => {
+        const startMinutes = timeToMinutes(row.seatedTime!);
+        return {
+          bookingId: null,
+          waitlistEntryId: null,
+          walkInId: row.walkInId,
+          tableId: row.tableId,
+          startMinutes,
+          endMinutes: startMinutes + row.durationMinutes!,
+        };
+      }),
+  ];
+}
+
+// Find an existing booking, waitlist offer or walk-in that holds any of the
+// tables for part of the requested time
+export function findSeatingConflict(
+  occupancy: TableOccupancy[],
+  tableIds: number[],
+  time: string,
+  durationMinutes: number,
+  excludeBookingId?: number
+): TableOccupancy | undefined {
+  const startMinutes = timeToMinutes(time);
+  const endMinutes = startMinutes + durationMinutes;
+
+  return occupancy.find(
+    (o) =>
+      tableIds.includes(o.tableId) &&
+      o.bookingId !== excludeBookingId &&
+      rangesOverlap(startMinutes, endMinutes, o.startMinutes, o.endMinutes)
+  );
+}
+
+// Pick the free option that seats the party with the fewest tables and the
+// smallest capacity. Between equal options, prefer the one with the shortest
+// free stretch around the booking so longer gaps stay open for later guests.
+export function findBestSeating(
+  options: SeatingOption[],
+  occupancy: TableOccupancy[],
+  partySize: number,
+  time: string,
+  durationMinutes: number,
+  window: OpeningWindow
+): SeatingOption | undefined {
+  const startMinutes = timeToMinutes(time);
+  const endMinutes = startMinutes + durationMinutes;
+
+  const candidates = options
+    .filter(
+      (option) =>
+        option.capacity >= partySize &&
+        !findSeatingConflict(occupancy, option.tableIds, time, durationMinutes)
+    )
+    .map((option) => {
+      const freeMinutes = option.tableIds.reduce((total, tableId) => {
+        const tableOccupancy = occupancy.filter((o) => o.tableId === tableId);
+        const freeFrom = Math.max(
+          window.openMinutes,
+          ...tableOccupancy.filter((o) => o.endMinutes <= startMinutes).map((o) => o.endMinutes)
+        );
+        const freeUntil = Math.min(
+          Math.max(window.closeMinutes, endMinutes),
+          ...tableOccupancy.filter((o) => o.startMinutes >= endMinutes).map((o) => o.startMinutes)
+        );
+        return total + freeUntil - freeFrom;
+      }, 0);
+
+      return { option, freeMinutes };
+    });
+
+  candidates.sort(
+    (a, b) =>
+      a.option.tableIds.length - b.option.tableIds.length ||
+      a.option.capacity - b.option.capacity ||
+      a.freeMinutes - b.freeMinutes ||
+      a.option.tableIds[0] - b.option.tableIds[0]
+  );
+
+  return candidates[0]?.option;
+}
+
+// Get every bookable time slot on a date with the seating options that fit the party
+export async function getAvailableSlots(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  date: string,
+  partySize: number,
+  now: Date = new Date()
+): Promise<AvailableSlot[]> {
+  const windows = getOpeningWindows(restaurant, date);
+  if (windows.length === 0) {
+    return [];
+  }
+
+  // Fewest tables and smallest capacity first so the best fit is always the first option
+  const fittingOptions = getSeatingOptions(restaurant)
+    .filter((option) => option.capacity >= partySize)
+    .sort(
+      (a, b) =>
+        a.tableIds.length - b.tableIds.length ||
+        a.capacity - b.capacity ||
+        a.tableIds[0] - b.tableIds[0]
+    );
+
+  if (fittingOptions.length === 0) {
+    return [];
+  }
+
+  const durationMinutes = getSeatingDuration(restaurant, partySize);
+  const occupancy = await getTableOccupancy(db, restaurant.id, date, now);
+  const localNow = getZonedDateTime(restaurant.timezone, now);
+  const slots: AvailableSlot[] = [];
+
+  for (const window of windows) {
+    for (
+      let minutes = window.openMinutes;
+      minutes <= window.lastSeatingMinutes;
+      minutes += SLOT_INTERVAL_MINUTES
+    ) {
+      const time = minutesToTime(minutes);
+
+      // Skip times already gone today and times the clocks skip over
+      if (
+        (date === localNow.date && time <= localNow.time) ||
+        !isExistingLocalTime(date, time, restaurant.timezone)
+      ) {
+        continue;
+      }
+
+      const freeOptions = fittingOptions.filter(
+        (option) => !findSeatingConflict(occupancy, option.tableIds, time, durationMinutes)
+      );
+
+      if (freeOptions.length > 0) {
+        slots.push({ time, period: window.name, options: freeOptions });
+      }
+    }
+  }
+
+  return slots;
+}
@@ -0,0 +1,92 @@
+import { asc, eq } from "drizzle-orm";
+import { bookingEvents, type BookingEvent, type Database } from "@/db";
+import type { Session } from "./auth";
+
+export type BookingEventType = "created" | "updated" | "status_changed";
+
+// Field name to its value before and after the change
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Who made a change: the caller's role and token subject
+export type Actor = Pick<Session, "role" | "subject">;
+
+export interface BookingEventDetails {
+  bookingId: number;
+  type: BookingEventType;
+  changes: FieldChanges;
+  note?: string;
+}
+
+// D1 binds at most 100 parameters per statement and each event row uses 6
+const EVENTS_PER_INSERT = 15;
+
+// The fields whose values differ between before and after. Only fields present in
+// after are compared; dates are compared and stored as ISO strings.
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChanges {
+  const normalize = (value: unknown) =>
+    value instanceof Date ? value.toISOString() : value ?? null;
+
+  const changes: FieldChanges = {};
+  for (const [field, value] of Object.entries(after)) {
+    const from = normalize(before[field]);
+    const to = normalize(value);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// The inserts that append events to booking histories, for running in a batch with
+// the change they record
+export function prepareBookingEvents(
+  db: Database,
+  events: BookingEventDetails[],
+  actor: Actor
+) {
+  const rows = events.map((event) => ({
+    bookingId: event.bookingId,
+    type: event.type,
+    actorRole: actor.role,
+    actorSubject: actor.subject,
+    changes: event.changes,
+    note: event.note ?? null,
+  }));
+
+  const inserts = [];
+  for (let i = 0; i < rows.length; i += EVENTS_PER_INSERT) {
+    inserts.push(db.insert(bookingEvents).values(rows.slice(i, i + EVENTS_PER_INSERT)));
+  }
+  return inserts;
+}
+
+// Append events to booking histories. History is never edited or removed, except
+// when a booking itself is deleted.
+export async function recordBookingEvents(
+  db: Database,
+  events: BookingEventDetails[],
+  actor: Actor
+): Promise<void> {
+  for (const insert of prepareBookingEvents(db, events, actor)) {
+    await insert;
+  }
+}
+
+export async function recordBookingEvent(
+  db: Database,
+  event: BookingEventDetails,
+  actor: Actor
+): Promise<void> {
+  await recordBookingEvents(db, [event], actor);
+}
+
+// A booking's history, oldest first
+export async function getBookingHistory(db: Database, bookingId: number): Promise<BookingEvent[]> {
+  return db.query.bookingEvents.findMany({
+    where: eq(bookingEvents.bookingId, bookingId),
+    orderBy: [asc(bookingEvents.createdAt), asc(bookingEvents.id)],
+  });
+}
@@ -0,0 +1,147 @@
+import { and, gt, type SQL } from "drizzle-orm";
+import { bookings, type Booking, type Customer, type Database, type Restaurant, type Table, type TableGroup } from "@/db";
+
+// Bookings are exported as a spreadsheet or as one JSON object per line
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Bookings read from the database per query while streaming
+const EXPORT_BATCH_SIZE = 200;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+type ExportBooking = Booking & {
+  restaurant: Pick<Restaurant, "name">;
+  table: Pick<Table, "tableNumber">;
+  tableGroup: Pick<TableGroup, "name"> | null;
+  customer: Pick<Customer, "name" | "email" | "phone">;
+};
+
+// Columns of the export, in CSV order. NDJSON lines have the same fields.
+const EXPORT_COLUMNS = [
+  "id",
+  "restaurantId",
+  "restaurantName",
+  "bookingDate",
+  "bookingTime",
+  "durationMinutes",
+  "partySize",
+  "status",
+  "table",
+  "customerId",
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+  "specialRequests",
+  "lateCancellation",
+  "cancellationFeeCents",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number | boolean | null>;
+
+function toExportRow(booking: ExportBooking): ExportRow {
+  return {
+    id: booking.id,
+    restaurantId: booking.restaurantId,
+    restaurantName: booking.restaurant.name,
+    bookingDate: booking.bookingDate,
+    bookingTime: booking.bookingTime,
+    durationMinutes: booking.durationMinutes,
+    partySize: booking.partySize,
+    status: booking.status,
+    table: booking.tableGroup?.name ?? booking.table.tableNumber,
+    customerId: booking.customerId,
+    customerName: booking.customer.name,
+    customerEmail: booking.customer.email,
+    customerPhone: booking.customer.phone,
+    specialRequests: booking.specialRequests,
+    lateCancellation: booking.lateCancellation,
+    cancellationFeeCents: booking.cancellationFeeCents,
+    createdAt: booking.createdAt.toISOString(),
+    updatedAt: booking.updatedAt.toISOString(),
+  };
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+function formatCsvValue(value: string | number | boolean | null): string {
+  if (value === null) {
+    return "";
+  }
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas, so guest-entered text is defused
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatRow(row: ExportRow, format: ExportFormat): string {
+  if (format === "ndjson") {
+    return JSON.stringify(row) + "\n";
+  }
+  return EXPORT_COLUMNS.map((column) => formatCsvValue(row[column])).join(",") + "\r\n";
+}
+
+// Stream every booking matching the where clause from getBookingSearchWhere, oldest
+// first. Bookings are read a batch at a time as the client consumes the stream, so
+// exports of any size use little memory.
+export function streamBookingExport(
+  db: Database,
+  whereClause: SQL | undefined | null,
+  format: ExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let lastId = 0;
+  let headerSent = format !== "csv";
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const batch = whereClause === null ? [] : await db.query.bookings.findMany({
+        where: and(whereClause, gt(bookings.id, lastId)),
+        with: {
+          restaurant: {
+            columns: { name: true },
+          },
+          table: {
+            columns: { tableNumber: true },
+          },
+          tableGroup: {
+            columns: { name: true },
+          },
+          customer: {
+            columns: { name: true, email: true, phone: true },
+          },
+        },
+        orderBy: (bookings, { asc }) => [asc(bookings.id)],
+        limit: EXPORT_BATCH_SIZE,
+      });
+
+      let chunk = batch.map((booking) => formatRow(toExportRow(booking), format)).join("");
+      if (!headerSent) {
+        chunk = EXPORT_COLUMNS.join(",") + "\r\n" + chunk;
+        headerSent = true;
+      }
+
+      if (chunk) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        controller.close();
+      } else {
+        lastId = batch[batch.length - 1].id;
+      }
+    },
+  });
+}
@@ -0,0 +1,450 @@
+import { and, eq, gte, inArray } from "drizzle-orm";
+import { bookings, customers, type Customer, type Database } from "@/db";
+import {
+  findBestSeating,
+  findSeatingConflict,
+  getRequestedSeating,
+  getSeatingOptions,
+  getTableOccupancy,
+  type RestaurantWithDetails,
+  type SeatingOption,
+  type TableOccupancy,
+} from "./availability";
+import { ACTIVE_BOOKING_STATUSES } from "./booking-lifecycle";
+import type { Actor } from "./booking-events";
+import {
+  findOpeningWindow,
+  getOpeningWindows,
+  getSeatingDuration,
+  validateBookingDate,
+  validateBookingTime,
+  validatePartySize,
+} from "./booking-rules";
+import {
+  BookingError,
+  EMAIL_REGEX,
+  TABLE_CONFLICT_MESSAGE,
+  insertBookings,
+  type NewBooking,
+} from "./bookings";
+import { normalizeEmail } from "./customers";
+import { timeToMinutes } from "./time";
+import { getZonedDateTime } from "./timezone";
+
+// Booking fields a CSV column can be mapped to
+export const IMPORT_FIELDS = [
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+  "bookingDate",
+  "bookingTime",
+  "partySize",
+  "specialRequests",
+  "tableNumber",
+] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+const REQUIRED_FIELDS: ImportField[] = [
+  "customerName",
+  "customerEmail",
+  "customerPhone",
+  "bookingDate",
+  "bookingTime",
+  "partySize",
+];
+
+// Headers other booking tools commonly use for each field, compared lowercased
+// and without spaces or punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  customerName: ["customername", "name", "guestname", "guest", "fullname"],
+  customerEmail: ["customeremail", "email", "guestemail", "emailaddress"],
+  customerPhone: ["customerphone", "phone", "guestphone", "phonenumber", "mobile", "telephone"],
+  bookingDate: ["bookingdate", "date", "reservationdate", "visitdate"],
+  bookingTime: ["bookingtime", "time", "reservationtime", "visittime"],
+  partySize: ["partysize", "covers", "guests", "pax", "size", "people"],
+  specialRequests: ["specialrequests", "notes", "requests", "comments", "guestnotes"],
+  tableNumber: ["tablenumber", "table", "tables"],
+};
+
+// Rows accepted per import; larger files are split and sent in parts
+export const MAX_IMPORT_ROWS = 1000;
+
+// D1 binds at most 100 parameters per statement. Each customer row uses 3.
+const CUSTOMERS_PER_INSERT = 30;
+const IDS_PER_QUERY = 90;
+
+const IMPORT_NOTE = "Imported from CSV";
+
+// Which column holds each field, by position
+type ColumnMap = Partial<Record<ImportField, number>>;
+
+export interface ImportRowError {
+  row: number; // Line in the file, counting the header as line 1
+  error: string;
+}
+
+export interface BookingImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  createdBookings: number;
+  createdCustomers: number;
+  errors: ImportRowError[];
+}
+
+// Split CSV text into rows of cells. Quoted cells may hold commas, newlines and
+// doubled quotes, and blank lines are skipped.
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== "")) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = "";
+    rowLine = line;
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Find the column for each field, from the caller's mapping of fields to header
+// names where given and from common header names otherwise
+function mapColumns(
+  header: string[],
+  columns: Partial<Record<string, string>> = {}
+): { columnMap: ColumnMap; error: null } | { columnMap: null; error: string } {
+  const unknown = Object.keys(columns).filter((field) => !(IMPORT_FIELDS as readonly string[]).includes(field));
+  if (unknown.length > 0) {
+    return {
+      columnMap: null,
+      error: `Unknown fields in columns: ${unknown.join(", ")}. Use ${IMPORT_FIELDS.join(", ")}`,
+    };
+  }
+
+  const headers = header.map(normalizeHeader);
+  const columnMap: ColumnMap = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const mapped = columns[field];
+    if (mapped !== undefined) {
+      const index = headers.indexOf(normalizeHeader(mapped));
+      if (index === -1) {
+        return { columnMap: null, error: `Column "${mapped}" for ${field} is not in the file` };
+      }
+      columnMap[field] = index;
+      continue;
+    }
+
+    const index = headers.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    if (index !== -1) {
+      columnMap[field] = index;
+    }
+  }
+
+  const missing = REQUIRED_FIELDS.filter((field) => columnMap[field] === undefined);
+  if (missing.length > 0) {
+    return { columnMap: null, error: `No column found for: ${missing.join(", ")}` };
+  }
+
+  return { columnMap, error: null };
+}
+
+// Existing customers with the emails, by normalized email
+async function findCustomersByEmails(db: Database, emails: string[]): Promise<Map<string, Customer>> {
+  const found = new Map<string, Customer>();
+  for (let i = 0; i < emails.length; i += IDS_PER_QUERY) {
+    const rows = await db.query.customers.findMany({
+      where: inArray(customers.email, emails.slice(i, i + IDS_PER_QUERY)),
+    });
+    rows.forEach((customer) => found.set(customer.email, customer));
+  }
+  return found;
+}
+
+// "customerId|date" for each day the customers already have an active booking
+// at the restaurant, from today on
+async function findBookedDays(
+  db: Database,
+  restaurantId: number,
+  customerIds: number[],
+  today: string
+): Promise<Set<string>> {
+  const booked = new Set<string>();
+  for (let i = 0; i < customerIds.length; i += IDS_PER_QUERY) {
+    const rows = await db.query.bookings.findMany({
+      where: and(
+        eq(bookings.restaurantId, restaurantId),
+        inArray(bookings.customerId, customerIds.slice(i, i + IDS_PER_QUERY)),
+        inArray(bookings.status, ACTIVE_BOOKING_STATUSES),
+        gte(bookings.bookingDate, today)
+      ),
+      columns: {
+        customerId: true,
+        bookingDate: true,
+      },
+    });
+    rows.forEach((b) => booked.add(`${b.customerId}|${b.bookingDate}`));
+  }
+  return booked;
+}
+
+// Check each row against the rules POST /api/bookings applies, in the same order,
+// and create the bookings of every valid row unless this is a dry run. Rows are
+// checked against each other as well as existing bookings, so two rows can't
+// take the same table at once. Imported bookings are confirmed.
+export async function importBookings(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  csv: string,
+  options: { actor: Actor; dryRun: boolean; columns?: Partial<Record<string, string>> },
+  now: Date = new Date()
+): Promise<BookingImportReport> {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) {
+    throw new BookingError("The file is empty");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BookingError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`);
+  }
+
+  const { columnMap, error } = mapColumns(header.cells, options.columns);
+  if (error !== null) {
+    throw new BookingError(error);
+  }
+
+  const read = (cells: string[], field: ImportField) => {
+    const index = columnMap[field];
+    return index === undefined ? "" : (cells[index] ?? "").trim();
+  };
+
+  const emails = [...new Set(
+    rows.map((row) => read(row.cells, "customerEmail")).filter(Boolean).map(normalizeEmail)
+  )];
+  const existingCustomers = await findCustomersByEmails(db, emails);
+  const today = getZonedDateTime(restaurant.timezone, now).date;
+  const bookedDays = await findBookedDays(
+    db,
+    restaurant.id,
+    [...existingCustomers.values()].map((c) => c.id),
+    today
+  );
+
+  const seatingOptions = getSeatingOptions(restaurant);
+  const occupancyByDate = new Map<string, TableOccupancy[]>();
+  const errors: ImportRowError[] = [];
+  // Valid rows, with their customer's details until the customer is found or created
+  const valid: {
+    email: string;
+    name: string;
+    phone: string;
+    values: Omit<NewBooking["values"], "customerId">;
+    seating: SeatingOption;
+  }[] = [];
+
+  for (const { line, cells } of rows) {
+    const fail = (message: string) => errors.push({ row: line, error: message });
+
+    const missing = REQUIRED_FIELDS.filter((field) => !read(cells, field));
+    if (missing.length > 0) {
+      fail(`Missing required fields: ${missing.join(", ")}`);
+      continue;
+    }
+
+    const email = normalizeEmail(read(cells, "customerEmail"));
+    if (!EMAIL_REGEX.test(email)) {
+      fail("Invalid email address");
+      continue;
+    }
+
+    const partySize = Number(read(cells, "partySize"));
+    const partySizeError = Number.isInteger(partySize)
+      ? validatePartySize(partySize)
+      : "Party size must be a whole number";
+    if (partySizeError) {
+      fail(partySizeError);
+      continue;
+    }
+
+    const bookingDate = read(cells, "bookingDate");
+    const bookingTime = read(cells, "bookingTime");
+    const validationError =
+      validateBookingDate(bookingDate, restaurant.timezone, now) ||
+      validateBookingTime(restaurant, bookingDate, bookingTime, now);
+    if (validationError) {
+      fail(validationError);
+      continue;
+    }
+
+    let occupancy = occupancyByDate.get(bookingDate);
+    if (!occupancy) {
+      occupancy = await getTableOccupancy(db, restaurant.id, bookingDate, now);
+      occupancyByDate.set(bookingDate, occupancy);
+    }
+
+    const durationMinutes = getSeatingDuration(restaurant, partySize);
+    const tableNumber = read(cells, "tableNumber");
+    let seating: SeatingOption | undefined;
+
+    if (tableNumber) {
+      const table = restaurant.tables.find((t) => t.tableNumber === tableNumber);
+      if (!table) {
+        fail(`Table ${tableNumber} not found`);
+        continue;
+      }
+      const result = getRequestedSeating(restaurant, partySize, { tableId: table.id });
+      if ("error" in result) {
+        fail(result.error);
+        continue;
+      }
+      seating = result.seating;
+
+      if (findSeatingConflict(occupancy, seating.tableIds, bookingTime, durationMinutes)) {
+        fail(TABLE_CONFLICT_MESSAGE);
+        continue;
+      }
+    } else {
+      const window = findOpeningWindow(getOpeningWindows(restaurant, bookingDate), bookingTime);
+      seating = window && findBestSeating(
+        seatingOptions,
+        occupancy,
+        partySize,
+        bookingTime,
+        durationMinutes,
+        window
+      );
+
+      if (!seating) {
+        fail("No tables available for this party size at this time. Please select a different time.");
+        continue;
+      }
+    }
+
+    // Customers not yet created are told apart by email until they are
+    const customerKey = existingCustomers.get(email)?.id ?? email;
+    if (bookedDays.has(`${customerKey}|${bookingDate}`)) {
+      fail("This customer already has a booking at this restaurant on this date");
+      continue;
+    }
+
+    // Hold the tables and the customer's day for the rows that follow
+    const startMinutes = timeToMinutes(bookingTime);
+    occupancy.push(
+      ...seating.tableIds.map((tableId) => ({
+        bookingId: null,
+        waitlistEntryId: null,
+        walkInId: null,
+        tableId,
+        startMinutes,
+        endMinutes: startMinutes + durationMinutes,
+      }))
+    );
+    bookedDays.add(`${customerKey}|${bookingDate}`);
+
+    valid.push({
+      email,
+      name: read(cells, "customerName"),
+      phone: read(cells, "customerPhone"),
+      values: {
+        restaurantId: restaurant.id,
+        bookingDate,
+        bookingTime,
+        partySize,
+        durationMinutes,
+        specialRequests: read(cells, "specialRequests") || null,
+      },
+      seating,
+    });
+  }
+
+  const report: BookingImportReport = {
+    dryRun: options.dryRun,
+    totalRows: rows.length,
+    validRows: valid.length,
+    createdBookings: 0,
+    createdCustomers: 0,
+    errors,
+  };
+
+  if (options.dryRun || valid.length === 0) {
+    return report;
+  }
+
+  // Create each new customer once, from the first row with their email
+  const newCustomers = [
+    ...new Map(
+      valid
+        .filter((row) => !existingCustomers.has(row.email))
+        .reverse()
+        .map((row) => [row.email, { name: row.name, email: row.email, phone: row.phone }])
+    ).values(),
+  ];
+  for (let i = 0; i < newCustomers.length; i += CUSTOMERS_PER_INSERT) {
+    const created = await db
+      .insert(customers)
+      .values(newCustomers.slice(i, i + CUSTOMERS_PER_INSERT))
+      .returning();
+    created.forEach((customer) => existingCustomers.set(customer.email, customer));
+  }
+
+  const created = await insertBookings(
+    db,
+    valid.map((row) => ({
+      values: { ...row.values, customerId: existingCustomers.get(row.email)!.id },
+      seating: row.seating,
+    })),
+    options.actor,
+    { note: IMPORT_NOTE }
+  );
+
+  return {
+    ...report,
+    createdBookings: created.length,
+    createdCustomers: newCustomers.length,
+  };
+}
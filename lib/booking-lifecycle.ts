@@ -0,0 +1,97 @@
+import type { Booking, InsertBooking } from "@/db";
+import { getZonedDateTime } from "./timezone";
+
+// pending → confirmed → arrived → seated → completed, with cancelled and no_show
+// as the ways a visit doesn't happen
+export const BOOKING_STATUSES = [
+  "pending",
+  "confirmed",
+  "arrived",
+  "seated",
+  "completed",
+  "cancelled",
+  "no_show",
+] as const;
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+// Bookings in these statuses hold their tables
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "arrived", "seated"];
+
+// Statuses a booking can move to from each status. Guests marked as no-shows
+// who turn up late can still be checked in, and guests checked in but never
+// marked seated can still have their visit completed.
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["arrived", "seated", "cancelled", "no_show"],
+  arrived: ["seated", "completed", "cancelled"],
+  seated: ["completed"],
+  completed: [],
+  cancelled: [],
+  no_show: ["arrived", "seated"],
+};
+
+// The timestamp column recording when a booking entered each status
+const TIMESTAMP_COLUMNS: Record<BookingStatus, keyof InsertBooking | null> = {
+  pending: null,
+  confirmed: "confirmedAt",
+  arrived: "arrivedAt",
+  seated: "seatedAt",
+  completed: "completedAt",
+  cancelled: "cancelledAt",
+  no_show: "noShowAt",
+};
+
+export function isBookingStatus(status: unknown): status is BookingStatus {
+  return BOOKING_STATUSES.includes(status as BookingStatus);
+}
+
+export function getAllowedTransitions(status: string): BookingStatus[] {
+  return isBookingStatus(status) ? TRANSITIONS[status] : [];
+}
+
+// Check a booking may move to the status now, judged by the calendar and clock in
+// the restaurant's timezone. Returns an error message, or null if it is allowed.
+export function validateStatusTransition(
+  booking: Pick<Booking, "status" | "bookingDate" | "bookingTime">,
+  status: BookingStatus,
+  timezone: string,
+  now: Date = new Date()
+): string | null {
+  if (booking.status === status) {
+    return `Booking is already ${status}`;
+  }
+
+  if (!getAllowedTransitions(booking.status).includes(status)) {
+    return `Cannot change a ${booking.status} booking to ${status}`;
+  }
+
+  const localNow = getZonedDateTime(timezone, now);
+  const isPast = booking.bookingDate < localNow.date;
+  const isToday = booking.bookingDate === localNow.date;
+  const hasStarted = isPast || (isToday && booking.bookingTime <= localNow.time);
+
+  switch (status) {
+    case "confirmed":
+    case "cancelled":
+      return isPast ? `Cannot ${status === "cancelled" ? "cancel" : "confirm"} past bookings` : null;
+    case "arrived":
+    case "seated":
+      return isToday ? null : "Guests can only arrive on the day of their booking";
+    case "no_show":
+      return hasStarted ? null : "Cannot mark a booking as a no-show before its start time";
+    case "completed":
+      return hasStarted ? null : "Cannot complete a booking before its start time";
+    default:
+      return null;
+  }
+}
+
+// The columns to set when a booking moves to the status
+export function getTransitionUpdate(status: BookingStatus, now: Date = new Date()): Partial<InsertBooking> {
+  const timestampColumn = TIMESTAMP_COLUMNS[status];
+  return {
+    status,
+    updatedAt: now,
+    ...(timestampColumn ? { [timestampColumn]: now } : {}),
+  };
+}
@@ -0,0 +1,175 @@
+import type { OpeningHours, OpeningHoursOverride, Restaurant, SeatingDuration } from "@/db";
+import {
+  addDays,
+  closingTimeToMinutes,
+  getDayOfWeek,
+  isValidDate,
+  isValidTime,
+  minutesToTime,
+  timeToMinutes,
+} from "./time";
+import { getZonedDateTime, isExistingLocalTime } from "./timezone";
+
+export const MIN_PARTY_SIZE = 1;
+export const MAX_PARTY_SIZE = 20;
+export const MAX_DAYS_IN_ADVANCE = 90;
+
+// Last seating is one hour before closing time
+export const LAST_SEATING_MINUTES = 60;
+
+export interface OpeningWindow {
+  name: string | null; // Service period, e.g. "Lunch"
+  openTime: string;
+  closeTime: string;
+  openMinutes: number;
+  closeMinutes: number;
+  // Latest minute of the day a booking may start
+  lastSeatingMinutes: number;
+}
+
+type WeeklyHours = Pick<OpeningHours, "dayOfWeek" | "name" | "openTime" | "closeTime" | "isClosed">;
+
+type DateOverride = Pick<OpeningHoursOverride, "date" | "openTime" | "closeTime" | "isClosed" | "reason">;
+
+// The weekly schedule plus date-specific overrides, which take precedence.
+// All dates and times are local to the restaurant's timezone.
+export interface OpeningSchedule {
+  timezone: string;
+  openingHours: WeeklyHours[];
+  openingHoursOverrides: DateOverride[];
+}
+
+type SeatingConfig = Pick<Restaurant, "defaultSeatingMinutes"> & {
+  seatingDurations: Pick<SeatingDuration, "minPartySize" | "maxPartySize" | "durationMinutes">[];
+};
+
+export function validatePartySize(partySize: number): string | null {
+  if (partySize < MIN_PARTY_SIZE || partySize > MAX_PARTY_SIZE) {
+    return `Party size must be between ${MIN_PARTY_SIZE} and ${MAX_PARTY_SIZE}`;
+  }
+  return null;
+}
+
+// How long a party of this size occupies its table
+export function getSeatingDuration(restaurant: SeatingConfig, partySize: number): number {
+  const override = restaurant.seatingDurations.find(
+    (d) => partySize >= d.minPartySize && partySize <= d.maxPartySize
+  );
+  return override ? override.durationMinutes : restaurant.defaultSeatingMinutes;
+}
+
+// Whether a date is before today in the given timezone
+export function isPastDate(date: string, timeZone: string, now: Date = new Date()): boolean {
+  return date < getZonedDateTime(timeZone, now).date;
+}
+
+// Validate the booking date is not in the past nor too far in the future,
+// judged by the calendar in the restaurant's timezone
+export function validateBookingDate(
+  date: string,
+  timeZone: string,
+  now: Date = new Date()
+): string | null {
+  if (!isValidDate(date)) {
+    return "Invalid date format. Use YYYY-MM-DD";
+  }
+
+  const today = getZonedDateTime(timeZone, now).date;
+  if (date < today) {
+    return "Cannot book in the past";
+  }
+
+  if (date > addDays(today, MAX_DAYS_IN_ADVANCE)) {
+    return `Cannot book more than ${MAX_DAYS_IN_ADVANCE} days in advance`;
+  }
+
+  return null;
+}
+
+function toOpeningWindow(name: string | null, openTime: string, closeTime: string): OpeningWindow {
+  const closeMinutes = closingTimeToMinutes(closeTime);
+  return {
+    name,
+    openTime,
+    closeTime,
+    openMinutes: timeToMinutes(openTime),
+    closeMinutes,
+    lastSeatingMinutes: closeMinutes - LAST_SEATING_MINUTES,
+  };
+}
+
+// Get the windows in which the restaurant accepts bookings on the given date
+export function getOpeningWindows(schedule: OpeningSchedule, date: string): OpeningWindow[] {
+  const overrides = schedule.openingHoursOverrides.filter((o) => o.date === date);
+
+  // Any override for the date replaces that day's weekly hours entirely
+  const windows = overrides.length > 0
+    ? overrides.flatMap((o) =>
+        !o.isClosed && o.openTime && o.closeTime ? [toOpeningWindow(null, o.openTime, o.closeTime)] : []
+      )
+    : schedule.openingHours
+        .filter((h) => h.dayOfWeek === getDayOfWeek(date) && !h.isClosed)
+        .map((h) => toOpeningWindow(h.name, h.openTime, h.closeTime));
+
+  return windows.sort((a, b) => a.openMinutes - b.openMinutes);
+}
+
+// Find the window in which a booking starting at this time may be seated
+export function findOpeningWindow(
+  windows: OpeningWindow[],
+  time: string
+): OpeningWindow | undefined {
+  const bookingMinutes = timeToMinutes(time);
+  return windows.find(
+    (w) => bookingMinutes >= w.openMinutes && bookingMinutes <= w.lastSeatingMinutes
+  );
+}
+
+export function formatOpeningWindows(windows: OpeningWindow[]): string {
+  return windows
+    .map((w) => `${w.name ? `${w.name} ` : ""}${w.openTime} - ${w.closeTime}`)
+    .join(", ");
+}
+
+// Validate the booking time falls inside the opening hours for that date and
+// has not already passed in the restaurant's timezone
+export function validateBookingTime(
+  schedule: OpeningSchedule,
+  date: string,
+  time: string,
+  now: Date = new Date()
+): string | null {
+  if (!isValidTime(time)) {
+    return "Invalid time format. Use HH:MM";
+  }
+
+  const windows = getOpeningWindows(schedule, date);
+  if (windows.length === 0) {
+    const reason = schedule.openingHoursOverrides.find((o) => o.date === date && o.reason)?.reason;
+    return reason ? `Restaurant is closed on this day (${reason})` : "Restaurant is closed on this day";
+  }
+
+  if (!findOpeningWindow(windows, time)) {
+    // Open at this time, but too close to the end of the service period
+    const bookingMinutes = timeToMinutes(time);
+    const closingWindow = windows.find(
+      (w) => bookingMinutes >= w.openMinutes && bookingMinutes < w.closeMinutes
+    );
+    if (closingWindow) {
+      return `Last seating${closingWindow.name ? ` for ${closingWindow.name}` : ""} is at ${minutesToTime(closingWindow.lastSeatingMinutes)}`;
+    }
+
+    return `Restaurant hours: ${formatOpeningWindows(windows)}`;
+  }
+
+  if (!isExistingLocalTime(date, time, schedule.timezone)) {
+    return "This time is skipped by the daylight saving change on this date";
+  }
+
+  const localNow = getZonedDateTime(schedule.timezone, now);
+  if (date === localNow.date && time <= localNow.time) {
+    return "Cannot book in the past";
+  }
+
+  return null;
+}
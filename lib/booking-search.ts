@@ -0,0 +1,236 @@
+import { and, count, desc, eq, gte, inArray, lt, lte, or, type SQL } from "drizzle-orm";
+import { bookings, bookingTables, type Booking, type Database } from "@/db";
+import { BOOKING_STATUSES, isBookingStatus, type BookingStatus } from "./booking-lifecycle";
+import { findCustomerByEmail } from "./customers";
+import { isValidDate, isValidTime } from "./time";
+import { base64UrlDecode, base64UrlEncode } from "./tokens";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Filters shared by booking search and the places built on it, such as calendar feeds
+export interface BookingSearchFilters {
+  restaurantId?: number;
+  customerEmail?: string;
+  status?: BookingStatus;
+  dateFrom?: string; // YYYY-MM-DD format
+  dateTo?: string; // YYYY-MM-DD format
+  tableId?: number;
+}
+
+// Read the filters from query parameters, or an error message if one is invalid
+export function parseBookingSearchParams(
+  searchParams: URLSearchParams
+): { filters: BookingSearchFilters; error: null } | { filters: null; error: string } {
+  const filters: BookingSearchFilters = {};
+
+  const restaurantId = searchParams.get("restaurantId");
+  if (restaurantId) {
+    filters.restaurantId = parseInt(restaurantId);
+    if (isNaN(filters.restaurantId)) {
+      return { filters: null, error: "Invalid restaurant ID" };
+    }
+  }
+
+  const customerEmail = searchParams.get("customerEmail");
+  if (customerEmail) {
+    filters.customerEmail = customerEmail;
+  }
+
+  const status = searchParams.get("status");
+  if (status) {
+    if (!isBookingStatus(status)) {
+      return { filters: null, error: `Invalid status. Must be one of: ${BOOKING_STATUSES.join(", ")}` };
+    }
+    filters.status = status;
+  }
+
+  const dateFrom = searchParams.get("dateFrom");
+  if (dateFrom) {
+    if (isNaN(new Date(dateFrom).getTime())) {
+      return { filters: null, error: "Invalid dateFrom format. Use YYYY-MM-DD" };
+    }
+    filters.dateFrom = dateFrom;
+  }
+
+  const dateTo = searchParams.get("dateTo");
+  if (dateTo) {
+    if (isNaN(new Date(dateTo).getTime())) {
+      return { filters: null, error: "Invalid dateTo format. Use YYYY-MM-DD" };
+    }
+    filters.dateTo = dateTo;
+  }
+
+  const tableId = searchParams.get("tableId");
+  if (tableId) {
+    filters.tableId = parseInt(tableId);
+    if (isNaN(filters.tableId)) {
+      return { filters: null, error: "Invalid table ID" };
+    }
+  }
+
+  return { filters, error: null };
+}
+
+// The where clause for the filters: undefined to match every booking, or null when
+// none can match, such as for an email no customer has
+export async function getBookingSearchWhere(
+  db: Database,
+  filters: BookingSearchFilters
+): Promise<SQL | undefined | null> {
+  const conditions: SQL[] = [];
+
+  if (filters.restaurantId !== undefined) {
+    conditions.push(eq(bookings.restaurantId, filters.restaurantId));
+  }
+
+  if (filters.customerEmail) {
+    const customer = await findCustomerByEmail(db, filters.customerEmail);
+    if (!customer) {
+      return null;
+    }
+    conditions.push(eq(bookings.customerId, customer.id));
+  }
+
+  if (filters.status) {
+    conditions.push(eq(bookings.status, filters.status));
+  }
+
+  if (filters.dateFrom) {
+    conditions.push(gte(bookings.bookingDate, filters.dateFrom));
+  }
+
+  if (filters.dateTo) {
+    conditions.push(lte(bookings.bookingDate, filters.dateTo));
+  }
+
+  if (filters.tableId !== undefined) {
+    // Match bookings holding this table, including joined table groups
+    conditions.push(
+      inArray(
+        bookings.id,
+        db
+          .select({ bookingId: bookingTables.bookingId })
+          .from(bookingTables)
+          .where(eq(bookingTables.tableId, filters.tableId))
+      )
+    );
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+// Where a page ends: the last booking's position in the latest-first order
+interface BookingCursor {
+  bookingDate: string;
+  bookingTime: string;
+  id: number;
+}
+
+// Which page of results to return. Pages are chained with the cursor from the
+// previous page; offset is still read for older callers.
+export interface BookingPageParams {
+  limit: number;
+  cursor: BookingCursor | null;
+  offset: number;
+}
+
+function encodeCursor(booking: Pick<Booking, "bookingDate" | "bookingTime" | "id">): string {
+  return base64UrlEncode(
+    new TextEncoder().encode(JSON.stringify([booking.bookingDate, booking.bookingTime, booking.id]))
+  );
+}
+
+function decodeCursor(cursor: string): BookingCursor | null {
+  try {
+    const [bookingDate, bookingTime, id] = JSON.parse(new TextDecoder().decode(base64UrlDecode(cursor)));
+    if (!isValidDate(bookingDate) || !isValidTime(bookingTime) || !Number.isInteger(id)) {
+      return null;
+    }
+    return { bookingDate, bookingTime, id };
+  } catch {
+    return null;
+  }
+}
+
+// Read limit, cursor and offset from query parameters, or an error message if one is invalid
+export function parseBookingPageParams(
+  searchParams: URLSearchParams,
+  defaultLimit: number = DEFAULT_PAGE_SIZE
+): { page: BookingPageParams; error: null } | { page: null; error: string } {
+  const limit = parseInt(searchParams.get("limit") || String(defaultLimit));
+  const offset = parseInt(searchParams.get("offset") || "0");
+  const cursorParam = searchParams.get("cursor");
+
+  if (limit > MAX_PAGE_SIZE) {
+    return { page: null, error: `Limit cannot exceed ${MAX_PAGE_SIZE}` };
+  }
+  if (isNaN(limit) || limit < 1) {
+    return { page: null, error: "Invalid limit" };
+  }
+  if (isNaN(offset) || offset < 0) {
+    return { page: null, error: "Invalid offset" };
+  }
+  if (cursorParam && offset > 0) {
+    return { page: null, error: "Use either cursor or offset, not both" };
+  }
+
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+  if (cursorParam && !cursor) {
+    return { page: null, error: "Invalid cursor" };
+  }
+
+  return { page: { limit, cursor, offset }, error: null };
+}
+
+// Bookings after the cursor in the latest-first order
+function getCursorCondition(cursor: BookingCursor): SQL {
+  return or(
+    lt(bookings.bookingDate, cursor.bookingDate),
+    and(eq(bookings.bookingDate, cursor.bookingDate), lt(bookings.bookingTime, cursor.bookingTime)),
+    and(
+      eq(bookings.bookingDate, cursor.bookingDate),
+      eq(bookings.bookingTime, cursor.bookingTime),
+      lt(bookings.id, cursor.id)
+    )
+  )!;
+}
+
+// One page of the bookings matching the where clause from getBookingSearchWhere,
+// latest visit first, with the total number of matches
+export async function findBookingPage(
+  db: Database,
+  whereClause: SQL | undefined | null,
+  page: BookingPageParams
+) {
+  if (whereClause === null) {
+    return { bookings: [], total: 0, nextCursor: null, hasMore: false };
+  }
+
+  // One extra booking shows whether another page follows
+  const [rows, [{ total }]] = await Promise.all([
+    db.query.bookings.findMany({
+      where: and(whereClause, page.cursor ? getCursorCondition(page.cursor) : undefined),
+      with: {
+        restaurant: true,
+        table: true,
+        tableGroup: true,
+        customer: true,
+      },
+      orderBy: [desc(bookings.bookingDate), desc(bookings.bookingTime), desc(bookings.id)],
+      limit: page.limit + 1,
+      offset: page.offset,
+    }),
+    db.select({ total: count() }).from(bookings).where(whereClause),
+  ]);
+
+  const hasMore = rows.length > page.limit;
+  const pageBookings = rows.slice(0, page.limit);
+  return {
+    bookings: pageBookings,
+    total,
+    // Pass as cursor to get the next page, or null on the last page
+    nextCursor: hasMore ? encodeCursor(pageBookings[pageBookings.length - 1]) : null,
+    hasMore,
+  };
+}
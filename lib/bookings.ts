@@ -0,0 +1,546 @@
+import { and, eq, inArray } from "drizzle-orm";
+import {
+  bookings,
+  bookingTables,
+  cancellationPolicies,
+  customers,
+  type Booking,
+  type Customer,
+  type Database,
+  type InsertBooking,
+  type Restaurant,
+} from "@/db";
+import {
+  findBestSeating,
+  findSeatingConflict,
+  getRequestedSeating,
+  getSeatingOptions,
+  getTableOccupancy,
+  seatingRelations,
+  type SeatingOption,
+} from "./availability";
+import {
+  ACTIVE_BOOKING_STATUSES,
+  getTransitionUpdate,
+  validateStatusTransition,
+  type BookingStatus,
+} from "./booking-lifecycle";
+import { diffFields, recordBookingEvent, recordBookingEvents, type Actor, type FieldChanges } from "./booking-events";
+import { evaluateCancellation } from "./cancellation-policies";
+import { findCustomerByEmail, normalizeEmail } from "./customers";
+import {
+  findOpeningWindow,
+  getOpeningWindows,
+  getSeatingDuration,
+  validateBookingDate,
+  validateBookingTime,
+  validatePartySize,
+} from "./booking-rules";
+
+// A booking rule was broken; the message is safe to show to the caller
+export class BookingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "BookingError";
+  }
+}
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const TABLE_CONFLICT_MESSAGE =
+  "This table is already booked at this time. Please select a different time.";
+
+export interface BookingChanges {
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  bookingDate?: string;
+  bookingTime?: string;
+  partySize?: number;
+  specialRequests?: string;
+  tableId?: number;
+  tableGroupId?: number;
+}
+
+// Booking columns whose changes are kept in its history
+const HISTORY_FIELDS = [
+  "customerId",
+  "bookingDate",
+  "bookingTime",
+  "partySize",
+  "durationMinutes",
+  "tableId",
+  "tableGroupId",
+  "specialRequests",
+  "status",
+] as const;
+
+function getHistoryFields(booking: Booking): Record<string, unknown> {
+  return Object.fromEntries(HISTORY_FIELDS.map((field) => [field, booking[field]]));
+}
+
+// Find the customer by email, creating them on their first booking
+export async function findOrCreateCustomer(
+  db: Database,
+  details: { name: string; email: string; phone: string }
+): Promise<Customer> {
+  const customer = await findCustomerByEmail(db, details.email);
+
+  if (customer) {
+    return customer;
+  }
+
+  const [newCustomer] = await db
+    .insert(customers)
+    .values({
+      name: details.name,
+      email: normalizeEmail(details.email),
+      phone: details.phone,
+    })
+    .returning();
+  return newCustomer;
+}
+
+// Whether the customer already has an active booking at the restaurant on the date
+export async function hasBookingOnDate(
+  db: Database,
+  customerId: number,
+  restaurantId: number,
+  date: string
+): Promise<boolean> {
+  const booking = await db.query.bookings.findFirst({
+    where: and(
+      eq(bookings.customerId, customerId),
+      eq(bookings.restaurantId, restaurantId),
+      eq(bookings.bookingDate, date),
+      inArray(bookings.status, ACTIVE_BOOKING_STATUSES)
+    ),
+  });
+  return booking !== undefined;
+}
+
+export interface NewBooking {
+  values: Omit<InsertBooking, "tableId" | "tableGroupId" | "status">;
+  seating: Pick<SeatingOption, "tableIds" | "tableGroupId">;
+}
+
+// D1 binds at most 100 parameters per statement. Each booking row uses up to 12
+// and each booking_tables row 2.
+const BOOKINGS_PER_INSERT = 8;
+const BOOKING_TABLES_PER_INSERT = 50;
+
+// Create bookings, reserve every table in their seatings and start their
+// histories. Bookings are written a few rows per statement, for imports.
+export async function insertBookings(
+  db: Database,
+  newBookings: NewBooking[],
+  actor: Actor,
+  options: { status?: "pending" | "confirmed"; note?: string } = {}
+): Promise<Booking[]> {
+  const created: Booking[] = [];
+  for (let i = 0; i < newBookings.length; i += BOOKINGS_PER_INSERT) {
+    const inserted = await db
+      .insert(bookings)
+      .values(
+        newBookings.slice(i, i + BOOKINGS_PER_INSERT).map(({ values, seating }) => ({
+          ...values,
+          tableId: seating.tableIds[0],
+          tableGroupId: seating.tableGroupId,
+          ...getTransitionUpdate(options.status ?? "confirmed"),
+        }))
+      )
+      .returning();
+    // SQLite may return the rows in any order, but IDs follow the order they were given in
+    created.push(...inserted.sort((a, b) => a.id - b.id));
+  }
+
+  const tableRows = created.flatMap((booking, index) =>
+    newBookings[index].seating.tableIds.map((id) => ({ bookingId: booking.id, tableId: id }))
+  );
+  for (let i = 0; i < tableRows.length; i += BOOKING_TABLES_PER_INSERT) {
+    await db.insert(bookingTables).values(tableRows.slice(i, i + BOOKING_TABLES_PER_INSERT));
+  }
+
+  await recordBookingEvents(
+    db,
+    created.map((booking, index) => ({
+      bookingId: booking.id,
+      type: "created",
+      changes: diffFields({}, { ...getHistoryFields(booking), tables: newBookings[index].seating.tableIds }),
+      note: options.note,
+    })),
+    actor
+  );
+
+  return created;
+}
+
+// Create a booking, reserve every table in its seating and start its history.
+// Bookings awaiting a deposit are created pending; the rest are confirmed.
+export async function insertBooking(
+  db: Database,
+  values: NewBooking["values"],
+  seating: NewBooking["seating"],
+  actor: Actor,
+  options: { status?: "pending" | "confirmed"; note?: string } = {}
+): Promise<Booking> {
+  const [booking] = await insertBookings(db, [{ values, seating }], actor, options);
+  return booking;
+}
+
+// Load a booking with everything needed to validate changes to it
+export async function findBookingForUpdate(db: Database, bookingId: number) {
+  return db.query.bookings.findFirst({
+    where: eq(bookings.id, bookingId),
+    with: {
+      restaurant: {
+        with: {
+          ...seatingRelations,
+          depositRules: true,
+        },
+      },
+      bookingTables: true,
+      customer: true,
+      payments: true,
+    },
+  });
+}
+
+export type BookingForUpdate = NonNullable<Awaited<ReturnType<typeof findBookingForUpdate>>>;
+
+// Validate and apply changes to a booking. When reassignTables is set and the
+// booking's current tables no longer fit or are taken, the best free seating
+// is picked instead of rejecting the change (used for guest self-service).
+// What changed is recorded in the booking's history against the actor.
+export async function updateBooking(
+  db: Database,
+  existingBooking: BookingForUpdate,
+  changes: BookingChanges,
+  actor: Actor,
+  options: { reassignTables?: boolean; note?: string } = {}
+): Promise<Booking> {
+  const {
+    customerName,
+    customerEmail,
+    customerPhone,
+    bookingDate,
+    bookingTime,
+    partySize,
+    specialRequests,
+    tableId,
+    tableGroupId,
+  } = changes;
+  const { restaurant } = existingBooking;
+
+  // Finished bookings are kept as they were
+  if (!ACTIVE_BOOKING_STATUSES.includes(existingBooking.status as BookingStatus)) {
+    throw new BookingError(`Cannot modify ${existingBooking.status} booking`);
+  }
+
+  // Prepare update data
+  const updateData: Partial<typeof bookings.$inferInsert> = { updatedAt: new Date() };
+  const customerData: Partial<typeof customers.$inferInsert> = {};
+
+  // Validate customer information if provided
+  if (customerName) {
+    if (customerName.length < 2) {
+      throw new BookingError("Name must be at least 2 characters");
+    }
+    customerData.name = customerName;
+  }
+
+  if (customerEmail) {
+    if (!EMAIL_REGEX.test(customerEmail)) {
+      throw new BookingError("Invalid email address");
+    }
+
+    // Emails are unique to a customer. Two customers who are one guest are merged instead.
+    const emailOwner = await findCustomerByEmail(db, customerEmail);
+    if (emailOwner && emailOwner.id !== existingBooking.customerId) {
+      throw new BookingError("Another customer already uses this email address", 409);
+    }
+    customerData.email = normalizeEmail(customerEmail);
+  }
+
+  if (customerPhone) {
+    if (customerPhone.length < 10) {
+      throw new BookingError("Phone number must be at least 10 characters");
+    }
+    customerData.phone = customerPhone;
+  }
+
+  // Validate booking date/time if provided
+  if (bookingDate || bookingTime) {
+    const newDate = bookingDate || existingBooking.bookingDate;
+    const newTime = bookingTime || existingBooking.bookingTime;
+
+    const validationError =
+      validateBookingDate(newDate, restaurant.timezone) ||
+      validateBookingTime(restaurant, newDate, newTime);
+    if (validationError) {
+      throw new BookingError(validationError);
+    }
+
+    updateData.bookingDate = newDate;
+    updateData.bookingTime = newTime;
+  }
+
+  // Validate party size if provided
+  if (partySize !== undefined) {
+    const partySizeError = validatePartySize(partySize);
+    if (partySizeError) {
+      throw new BookingError(partySizeError);
+    }
+    updateData.partySize = partySize;
+    updateData.durationMinutes = getSeatingDuration(restaurant, partySize);
+  }
+
+  const finalPartySize = updateData.partySize || existingBooking.partySize;
+  const finalDate = updateData.bookingDate || existingBooking.bookingDate;
+  const finalTime = updateData.bookingTime || existingBooking.bookingTime;
+  const finalDuration = updateData.durationMinutes || existingBooking.durationMinutes;
+
+  // The booking's current tables, re-checked against the final party size
+  const currentSeating = getRequestedSeating(restaurant, finalPartySize, {
+    tableId: existingBooking.tableId,
+    tableGroupId: existingBooking.tableGroupId ?? undefined,
+  });
+
+  // Validate the requested table or table group if provided
+  let newSeating: SeatingOption | undefined;
+  if (tableId !== undefined || tableGroupId !== undefined) {
+    const result = getRequestedSeating(restaurant, finalPartySize, { tableId, tableGroupId });
+    if ("error" in result) {
+      throw new BookingError(result.error, result.status);
+    }
+    newSeating = result.seating;
+  } else if (partySize !== undefined && "error" in currentSeating && !options.reassignTables) {
+    throw new BookingError(currentSeating.error, currentSeating.status);
+  }
+
+  // Check for overlapping bookings (if date/time/tables/duration changed)
+  if (updateData.bookingDate || updateData.bookingTime || newSeating || updateData.durationMinutes) {
+    const occupancy = await getTableOccupancy(db, existingBooking.restaurantId, finalDate);
+    const checkTableIds = newSeating
+      ? newSeating.tableIds
+      : existingBooking.bookingTables.map((bt) => bt.tableId);
+    const conflict = findSeatingConflict(
+      occupancy,
+      checkTableIds,
+      finalTime,
+      finalDuration,
+      existingBooking.id
+    );
+
+    if (options.reassignTables && !newSeating && (conflict || "error" in currentSeating)) {
+      // Move the guest to the best free seating instead of rejecting the change
+      const window = findOpeningWindow(
+        getOpeningWindows(restaurant, finalDate),
+        finalTime
+      );
+      newSeating = window && findBestSeating(
+        getSeatingOptions(restaurant),
+        occupancy.filter((o) => o.bookingId !== existingBooking.id),
+        finalPartySize,
+        finalTime,
+        finalDuration,
+        window
+      );
+
+      if (!newSeating) {
+        throw new BookingError(
+          "No tables available for this party size at this time. Please select a different time.",
+          409
+        );
+      }
+    } else if (conflict) {
+      throw new BookingError(TABLE_CONFLICT_MESSAGE, 409);
+    }
+  }
+
+  if (newSeating) {
+    updateData.tableId = newSeating.tableIds[0];
+    updateData.tableGroupId = newSeating.tableGroupId;
+  }
+
+  // Update special requests if provided
+  if (specialRequests !== undefined) {
+    updateData.specialRequests = specialRequests || null;
+  }
+
+  // Update customer
+  if (Object.keys(customerData).length > 0) {
+    await db
+      .update(customers)
+      .set(customerData)
+      .where(eq(customers.id, existingBooking.customerId));
+  }
+
+  // Update the booking
+  const [updatedBooking] = await db
+    .update(bookings)
+    .set(updateData)
+    .where(eq(bookings.id, existingBooking.id))
+    .returning();
+
+  // Move the reservation onto the new tables
+  if (newSeating) {
+    await db.delete(bookingTables).where(eq(bookingTables.bookingId, existingBooking.id));
+    await db.insert(bookingTables).values(
+      newSeating.tableIds.map((id) => ({ bookingId: existingBooking.id, tableId: id }))
+    );
+  }
+
+  const { customer } = existingBooking;
+  const history: FieldChanges = {
+    ...diffFields(getHistoryFields(existingBooking), getHistoryFields(updatedBooking)),
+    ...diffFields(
+      { tables: existingBooking.bookingTables.map((bt) => bt.tableId) },
+      newSeating ? { tables: newSeating.tableIds } : {}
+    ),
+    ...diffFields(
+      { customerName: customer.name, customerEmail: customer.email, customerPhone: customer.phone },
+      {
+        ...(customerData.name && { customerName: customerData.name }),
+        ...(customerData.email && { customerEmail: customerData.email }),
+        ...(customerData.phone && { customerPhone: customerData.phone }),
+      }
+    ),
+  };
+
+  if (Object.keys(history).length > 0) {
+    await recordBookingEvent(
+      db,
+      { bookingId: existingBooking.id, type: "updated", changes: history, note: options.note },
+      actor
+    );
+  }
+
+  return updatedBooking;
+}
+
+// The history entry for a status change, including any cancellation policy outcome
+export function getStatusChanges(before: Booking, after: Booking): FieldChanges {
+  const pick = (booking: Booking) => ({
+    status: booking.status,
+    lateCancellation: booking.lateCancellation,
+    cancellationFeeCents: booking.cancellationFeeCents,
+  });
+  return diffFields(pick(before), pick(after));
+}
+
+// Cancel bookings already checked as cancellable, recording on each whether its
+// restaurant's policy makes it a late cancellation and any fee due
+export async function cancelBookings(
+  db: Database,
+  existingBookings: (Booking & { restaurant: Pick<Restaurant, "timezone"> })[],
+  now: Date = new Date()
+): Promise<Booking[]> {
+  if (existingBookings.length === 0) {
+    return [];
+  }
+
+  const policies = await db.query.cancellationPolicies.findMany({
+    where: inArray(
+      cancellationPolicies.restaurantId,
+      [...new Set(existingBookings.map((b) => b.restaurantId))]
+    ),
+  });
+
+  const cancelled: Booking[] = [];
+  for (const booking of existingBookings) {
+    // Pending bookings were never confirmed, so cancelling them is never late
+    const outcome = booking.status === "pending"
+      ? { late: false, feeCents: null }
+      : evaluateCancellation(
+          policies.filter((p) => p.restaurantId === booking.restaurantId),
+          booking,
+          booking.restaurant.timezone,
+          now
+        );
+
+    const [updatedBooking] = await db
+      .update(bookings)
+      .set({
+        ...getTransitionUpdate("cancelled", now),
+        lateCancellation: outcome.late,
+        cancellationFeeCents: outcome.feeCents,
+      })
+      .where(eq(bookings.id, booking.id))
+      .returning();
+    cancelled.push(updatedBooking);
+  }
+
+  return cancelled;
+}
+
+// Move a booking along its lifecycle, recording when it entered the new status
+// and who moved it
+export async function changeBookingStatus(
+  db: Database,
+  existingBooking: Booking & { restaurant: Pick<Restaurant, "timezone"> },
+  status: BookingStatus,
+  actor: Actor,
+  now: Date = new Date()
+): Promise<Booking> {
+  const transitionError = validateStatusTransition(
+    existingBooking,
+    status,
+    existingBooking.restaurant.timezone,
+    now
+  );
+  if (transitionError) {
+    throw new BookingError(transitionError);
+  }
+
+  // A booking coming back from no-show takes its tables again, which someone
+  // else may have been given in the meantime
+  if (
+    ACTIVE_BOOKING_STATUSES.includes(status) &&
+    !ACTIVE_BOOKING_STATUSES.includes(existingBooking.status as BookingStatus)
+  ) {
+    const seatedTables = await db.query.bookingTables.findMany({
+      where: eq(bookingTables.bookingId, existingBooking.id),
+    });
+    const occupancy = await getTableOccupancy(db, existingBooking.restaurantId, existingBooking.bookingDate, now);
+    const conflict = findSeatingConflict(
+      occupancy,
+      seatedTables.map((bt) => bt.tableId),
+      existingBooking.bookingTime,
+      existingBooking.durationMinutes,
+      existingBooking.id
+    );
+    if (conflict) {
+      throw new BookingError(TABLE_CONFLICT_MESSAGE, 409);
+    }
+  }
+
+  const [updatedBooking] = status === "cancelled"
+    ? await cancelBookings(db, [existingBooking], now)
+    : await db
+        .update(bookings)
+        .set(getTransitionUpdate(status, now))
+        .where(eq(bookings.id, existingBooking.id))
+        .returning();
+
+  await recordBookingEvent(
+    db,
+    {
+      bookingId: existingBooking.id,
+      type: "status_changed",
+      changes: getStatusChanges(existingBooking, updatedBooking),
+    },
+    actor
+  );
+
+  return updatedBooking;
+}
+
+// Cancel a booking that has not yet taken place
+export async function cancelBooking(
+  db: Database,
+  existingBooking: Booking & { restaurant: Pick<Restaurant, "timezone"> },
+  actor: Actor
+): Promise<Booking> {
+  return changeBookingStatus(db, existingBooking, "cancelled", actor);
+}
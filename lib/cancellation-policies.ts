@@ -0,0 +1,75 @@
+import type { Booking, CancellationPolicy } from "@/db";
+import { zonedTimeToUtc } from "./timezone";
+
+export type CancellationPolicyInput = Pick<
+  CancellationPolicy,
+  "minPartySize" | "freeCancellationHours" | "lateCancellationFeeCents"
+>;
+
+// What cancelling a booking now means under its restaurant's policy
+export interface CancellationOutcome {
+  late: boolean;
+  feeCents: number | null;
+  // When cancelling stops being free; null when no policy applies
+  freeUntil: Date | null;
+}
+
+export function validateCancellationPolicies(policies: CancellationPolicyInput[]): string | null {
+  const partySizes = new Set<number>();
+
+  for (const policy of policies) {
+    if (!Number.isInteger(policy.minPartySize) || policy.minPartySize < 1) {
+      return "minPartySize must be a whole number of at least 1";
+    }
+
+    if (partySizes.has(policy.minPartySize)) {
+      return `More than one policy starts at a party size of ${policy.minPartySize}`;
+    }
+    partySizes.add(policy.minPartySize);
+
+    if (!Number.isInteger(policy.freeCancellationHours) || policy.freeCancellationHours < 0) {
+      return "freeCancellationHours must be a whole number of hours, 0 or more";
+    }
+
+    const fee = policy.lateCancellationFeeCents;
+    if (fee !== undefined && fee !== null && (!Number.isInteger(fee) || fee < 0)) {
+      return "lateCancellationFeeCents must be a whole number of cents, 0 or more";
+    }
+  }
+
+  return null;
+}
+
+// The policy for a party: the one for the largest parties it is big enough for
+export function findCancellationPolicy<T extends CancellationPolicyInput>(
+  policies: T[],
+  partySize: number
+): T | undefined {
+  return policies
+    .filter((p) => p.minPartySize <= partySize)
+    .sort((a, b) => b.minPartySize - a.minPartySize)[0];
+}
+
+// Judge a cancellation made now against the policy for the booking's party size.
+// Bookings at restaurants without a policy can always be cancelled for free.
+export function evaluateCancellation(
+  policies: CancellationPolicyInput[],
+  booking: Pick<Booking, "bookingDate" | "bookingTime" | "partySize">,
+  timezone: string,
+  now: Date = new Date()
+): CancellationOutcome {
+  const policy = findCancellationPolicy(policies, booking.partySize);
+  if (!policy) {
+    return { late: false, feeCents: null, freeUntil: null };
+  }
+
+  const visitStart = zonedTimeToUtc(booking.bookingDate, booking.bookingTime, timezone);
+  const freeUntil = new Date(visitStart.getTime() - policy.freeCancellationHours * 60 * 60 * 1000);
+  const late = now.getTime() > freeUntil.getTime();
+
+  return {
+    late,
+    feeCents: late ? policy.lateCancellationFeeCents : null,
+    freeUntil,
+  };
+}
@@ -0,0 +1,228 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { bookings, customerProfiles, type Booking, type CustomerProfile, type Database } from "@/db";
+import type { BookingStatus } from "./booking-lifecycle";
+
+// Bookings the guest turned up for
+const VISITED_STATUSES: BookingStatus[] = ["arrived", "seated", "completed"];
+
+// Guests with this many visits are tagged as regulars
+export const REGULAR_VISIT_COUNT = 3;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+const MAX_ALLERGIES_LENGTH = 500;
+const MAX_NOTES_LENGTH = 2000;
+
+// A customer's record at one restaurant, worked out from their bookings there
+export interface CustomerStats {
+  bookingCount: number;
+  visitCount: number;
+  noShowCount: number;
+  cancellationCount: number;
+  lastVisit: string | null; // YYYY-MM-DD format
+  averagePartySize: number | null;
+}
+
+export interface CustomerProfileDetails {
+  stats: CustomerStats;
+  allergies: string | null;
+  notes: string | null;
+  tags: string[];
+  // Tags from the customer's bookings, such as "regular", kept apart from the staff's own
+  computedTags: string[];
+  updatedAt: Date | null;
+}
+
+export type CustomerProfileChanges = Partial<Pick<CustomerProfile, "allergies" | "notes" | "tags">>;
+
+export function validateCustomerProfileChanges(changes: CustomerProfileChanges): string | null {
+  const { allergies, notes, tags } = changes;
+
+  if (allergies !== undefined && allergies !== null) {
+    if (typeof allergies !== "string" || allergies.length > MAX_ALLERGIES_LENGTH) {
+      return `allergies must be text of at most ${MAX_ALLERGIES_LENGTH} characters`;
+    }
+  }
+
+  if (notes !== undefined && notes !== null) {
+    if (typeof notes !== "string" || notes.length > MAX_NOTES_LENGTH) {
+      return `notes must be text of at most ${MAX_NOTES_LENGTH} characters`;
+    }
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.length > MAX_TAGS) {
+      return `tags must be a list of at most ${MAX_TAGS} tags`;
+    }
+    for (const tag of tags) {
+      if (typeof tag !== "string" || !tag.trim() || tag.trim().length > MAX_TAG_LENGTH) {
+        return `Each tag must be 1 to ${MAX_TAG_LENGTH} characters`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Trim tags and drop repeats, ignoring case, so "VIP" and " vip" are one tag
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, " ");
+    if (!seen.has(trimmed.toLowerCase())) {
+      seen.add(trimmed.toLowerCase());
+      normalized.push(trimmed);
+    }
+  }
+
+  return normalized;
+}
+
+export function getCustomerStats(
+  customerBookings: Pick<Booking, "bookingDate" | "partySize" | "status">[]
+): CustomerStats {
+  const visits = customerBookings.filter((b) =>
+    VISITED_STATUSES.includes(b.status as BookingStatus)
+  );
+
+  return {
+    bookingCount: customerBookings.length,
+    visitCount: visits.length,
+    noShowCount: customerBookings.filter((b) => b.status === "no_show").length,
+    cancellationCount: customerBookings.filter((b) => b.status === "cancelled").length,
+    lastVisit: visits.reduce<string | null>(
+      (last, b) => (last === null || b.bookingDate > last ? b.bookingDate : last),
+      null
+    ),
+    averagePartySize: visits.length > 0
+      ? Math.round((visits.reduce((sum, b) => sum + b.partySize, 0) / visits.length) * 10) / 10
+      : null,
+  };
+}
+
+function getComputedTags(stats: CustomerStats): string[] {
+  const tags: string[] = [];
+  if (stats.visitCount >= REGULAR_VISIT_COUNT) {
+    tags.push("regular");
+  } else if (stats.visitCount === 0) {
+    tags.push("first visit");
+  }
+  if (stats.noShowCount > 0) {
+    tags.push("previous no-show");
+  }
+  return tags;
+}
+
+// The customer's profile at a restaurant, or null when they have never booked there
+// and staff haven't written anything about them
+export async function getCustomerProfile(
+  db: Database,
+  restaurantId: number,
+  customerId: number
+): Promise<CustomerProfileDetails | null> {
+  const [customerBookings, profile] = await Promise.all([
+    db.query.bookings.findMany({
+      where: and(eq(bookings.restaurantId, restaurantId), eq(bookings.customerId, customerId)),
+      columns: {
+        bookingDate: true,
+        partySize: true,
+        status: true,
+      },
+    }),
+    db.query.customerProfiles.findFirst({
+      where: and(
+        eq(customerProfiles.restaurantId, restaurantId),
+        eq(customerProfiles.customerId, customerId)
+      ),
+    }),
+  ]);
+
+  if (customerBookings.length === 0 && !profile) {
+    return null;
+  }
+
+  const stats = getCustomerStats(customerBookings);
+  return {
+    stats,
+    allergies: profile?.allergies ?? null,
+    notes: profile?.notes ?? null,
+    tags: profile?.tags ?? [],
+    computedTags: getComputedTags(stats),
+    updatedAt: profile?.updatedAt ?? null,
+  };
+}
+
+// Save the staff's notes and tags on a customer, creating their profile the first time
+export async function updateCustomerProfile(
+  db: Database,
+  restaurantId: number,
+  customerId: number,
+  changes: CustomerProfileChanges,
+  now: Date = new Date()
+): Promise<CustomerProfile> {
+  const [profile] = await upsertCustomerProfile(db, restaurantId, customerId, changes, now);
+  return profile;
+}
+
+function upsertCustomerProfile(
+  db: Database,
+  restaurantId: number,
+  customerId: number,
+  changes: CustomerProfileChanges,
+  now: Date
+) {
+  const values = {
+    ...changes,
+    ...(changes.tags && { tags: normalizeTags(changes.tags) }),
+    updatedAt: now,
+  };
+
+  return db
+    .insert(customerProfiles)
+    .values({ restaurantId, customerId, ...values })
+    .onConflictDoUpdate({
+      target: [customerProfiles.restaurantId, customerProfiles.customerId],
+      set: values,
+    })
+    .returning();
+}
+
+// The statements that fold the duplicates' profiles into the survivor's at each
+// restaurant, keeping everything staff wrote on either. The caller runs them in a
+// batch with the rest of the merge.
+export async function prepareProfileMerge(
+  db: Database,
+  survivorId: number,
+  duplicateIds: number[],
+  now: Date = new Date()
+) {
+  const profiles = await db.query.customerProfiles.findMany({
+    where: inArray(customerProfiles.customerId, [survivorId, ...duplicateIds]),
+  });
+
+  const join = (values: (string | null)[], separator: string) =>
+    [...new Set(values.filter((v): v is string => !!v))].join(separator) || null;
+
+  const restaurantIds = [...new Set(profiles.map((p) => p.restaurantId))];
+  return restaurantIds.flatMap((restaurantId) => {
+    const atRestaurant = profiles
+      .filter((p) => p.restaurantId === restaurantId)
+      .sort((a, b) => Number(b.customerId === survivorId) - Number(a.customerId === survivorId));
+
+    return [
+      db
+        .delete(customerProfiles)
+        .where(and(
+          eq(customerProfiles.restaurantId, restaurantId),
+          inArray(customerProfiles.customerId, duplicateIds)
+        )),
+      upsertCustomerProfile(db, restaurantId, survivorId, {
+        allergies: join(atRestaurant.map((p) => p.allergies), "; "),
+        notes: join(atRestaurant.map((p) => p.notes), "\n\n"),
+        tags: atRestaurant.flatMap((p) => p.tags),
+      }, now),
+    ];
+  });
+}
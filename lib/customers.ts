@@ -0,0 +1,220 @@
+import { eq, inArray } from "drizzle-orm";
+import { bookings, customers, waitlistEntries, type Customer, type Database } from "@/db";
+import { prepareBookingEvents, type Actor } from "./booking-events";
+import { prepareProfileMerge } from "./customer-profiles";
+
+// Numbers written without a country code are taken to be in this one (North America)
+const DEFAULT_COUNTRY_CODE = "1";
+
+// How many neighbours each customer is compared with once sorted by name
+const NAME_COMPARISON_WINDOW = 5;
+
+// Duplicates merged in one go, which keeps each merge statement's list of ids well
+// under D1's 100 bound parameters
+export const MAX_MERGE_DUPLICATES = 20;
+
+export type DuplicateReason = "email" | "phone" | "name";
+
+export interface DuplicateGroup {
+  customers: Customer[];
+  reasons: DuplicateReason[];
+}
+
+// Emails are stored trimmed and in lower case, so case alone never makes a new customer
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// The mailbox an email delivers to: without a +tag, and for Gmail without dots,
+// so "Jane.Doe+work@gmail.com" and "janedoe@gmail.com" match
+function getEmailMatchKey(email: string): string {
+  const [local, domain] = normalizeEmail(email).split("@");
+  if (!domain) {
+    return normalizeEmail(email);
+  }
+  const mailbox = local.split("+")[0];
+  const isGmail = domain === "gmail.com" || domain === "googlemail.com";
+  return `${isGmail ? mailbox.replace(/\./g, "") : mailbox}@${domain}`;
+}
+
+// A phone number in E.164 form, e.g. "(415) 555-0101" as "+14155550101", or null
+// when it can't be read as one
+export function normalizePhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "");
+
+  if (phone.trim().startsWith("+")) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) {
+    return `+${DEFAULT_COUNTRY_CODE}${digits}`;
+  }
+  if (digits.length === 11 && digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    return `+${digits}`;
+  }
+  return null;
+}
+
+// Lower case words without accents or punctuation, in order, so "Doe, John" and
+// "John Doe" compare equal
+function getNameKey(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .sort()
+    .join(" ");
+}
+
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Names the same but for a typo or two. Short names must match more closely.
+function isSimilarName(a: string, b: string): boolean {
+  if (!a || !b) {
+    return false;
+  }
+  const maxDistance = Math.min(a.length, b.length) >= 10 ? 2 : 1;
+  return getEditDistance(a, b) <= maxDistance;
+}
+
+// Customers who look like the same guest: the same mailbox, the same phone number
+// or nearly the same name. Customers linked through other matches are grouped
+// together, so a group can hold more than two.
+export function findDuplicateCustomers(allCustomers: Customer[]): DuplicateGroup[] {
+  const parent = new Map<number, number>(allCustomers.map((c) => [c.id, c.id]));
+  const find = (id: number): number => {
+    while (parent.get(id) !== id) {
+      id = parent.get(id)!;
+    }
+    return id;
+  };
+  const pairReasons = new Map<number, Set<DuplicateReason>>();
+  const link = (a: Customer, b: Customer, reason: DuplicateReason) => {
+    parent.set(find(a.id), find(b.id));
+    for (const customer of [a, b]) {
+      pairReasons.set(customer.id, (pairReasons.get(customer.id) ?? new Set()).add(reason));
+    }
+  };
+
+  // Exact matches: link every customer sharing a key to the first with it
+  const linkByKey = (reason: DuplicateReason, getKey: (c: Customer) => string | null) => {
+    const firstWithKey = new Map<string, Customer>();
+    for (const customer of allCustomers) {
+      const key = getKey(customer);
+      if (!key) {
+        continue;
+      }
+      const first = firstWithKey.get(key);
+      if (first) {
+        link(first, customer, reason);
+      } else {
+        firstWithKey.set(key, customer);
+      }
+    }
+  };
+  linkByKey("email", (c) => getEmailMatchKey(c.email));
+  linkByKey("phone", (c) => normalizePhone(c.phone));
+
+  // Near matches: compare each name with the next few in alphabetical order
+  const byName = allCustomers
+    .map((customer) => ({ customer, key: getNameKey(customer.name) }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+  for (let i = 0; i < byName.length; i++) {
+    for (let j = i + 1; j < Math.min(i + 1 + NAME_COMPARISON_WINDOW, byName.length); j++) {
+      if (isSimilarName(byName[i].key, byName[j].key)) {
+        link(byName[i].customer, byName[j].customer, "name");
+      }
+    }
+  }
+
+  const groups = new Map<number, Customer[]>();
+  for (const customer of allCustomers) {
+    const root = find(customer.id);
+    groups.set(root, [...(groups.get(root) ?? []), customer]);
+  }
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      customers: group,
+      reasons: [...new Set(group.flatMap((c) => [...(pairReasons.get(c.id) ?? [])]))],
+    }));
+}
+
+// Move the duplicates' bookings, waitlist entries and profiles to the surviving
+// customer, then delete the duplicates. Each moved booking records the move in
+// its history.
+export async function mergeCustomers(
+  db: Database,
+  survivor: Customer,
+  duplicates: Customer[],
+  actor: Actor,
+  now: Date = new Date()
+): Promise<{ movedBookings: number; movedWaitlistEntries: number }> {
+  const duplicateIds = duplicates.map((c) => c.id);
+  if (duplicateIds.length > MAX_MERGE_DUPLICATES) {
+    throw new Error(`At most ${MAX_MERGE_DUPLICATES} customers can be merged at once`);
+  }
+
+  const movedBookings = await db.query.bookings.findMany({
+    where: inArray(bookings.customerId, duplicateIds),
+    columns: {
+      id: true,
+      customerId: true,
+    },
+  });
+  const profileMerge = await prepareProfileMerge(db, survivor.id, duplicateIds, now);
+
+  // Everything moves in one batch, so a failure part way leaves the customers as they were
+  const [, movedWaitlistEntries] = await db.batch([
+    db
+      .update(bookings)
+      .set({ customerId: survivor.id, updatedAt: now })
+      .where(inArray(bookings.customerId, duplicateIds)),
+    db
+      .update(waitlistEntries)
+      .set({ customerId: survivor.id })
+      .where(inArray(waitlistEntries.customerId, duplicateIds))
+      .returning(),
+    ...profileMerge,
+    ...prepareBookingEvents(
+      db,
+      movedBookings.map((booking) => ({
+        bookingId: booking.id,
+        type: "updated",
+        changes: { customerId: { from: booking.customerId, to: survivor.id } },
+        note: `Customer #${booking.customerId} merged into #${survivor.id}`,
+      })),
+      actor
+    ),
+    db.delete(customers).where(inArray(customers.id, duplicateIds)),
+  ]);
+
+  return { movedBookings: movedBookings.length, movedWaitlistEntries: movedWaitlistEntries.length };
+}
+
+// The customer using an email, for keeping emails unique when one is changed
+export async function findCustomerByEmail(
+  db: Database,
+  email: string
+): Promise<Customer | undefined> {
+  return db.query.customers.findFirst({
+    where: eq(customers.email, normalizeEmail(email)),
+  });
+}
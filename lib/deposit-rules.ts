@@ -0,0 +1,58 @@
+import type { Booking, DepositRule } from "@/db";
+import { getDayOfWeek, isValidTime } from "./time";
+
+export type DepositRuleInput = Pick<
+  DepositRule,
+  "minPartySize" | "dayOfWeek" | "startTime" | "endTime" | "amountCents"
+>;
+
+export function validateDepositRules(rules: DepositRuleInput[]): string | null {
+  for (const rule of rules) {
+    if (!Number.isInteger(rule.minPartySize) || rule.minPartySize < 1) {
+      return "minPartySize must be a whole number of at least 1";
+    }
+
+    const day = rule.dayOfWeek;
+    if (day !== undefined && day !== null && (!Number.isInteger(day) || day < 0 || day > 6)) {
+      return "dayOfWeek must be a whole number from 0 (Sunday) to 6 (Saturday)";
+    }
+
+    const hasStart = rule.startTime !== undefined && rule.startTime !== null;
+    const hasEnd = rule.endTime !== undefined && rule.endTime !== null;
+    if (hasStart !== hasEnd) {
+      return "startTime and endTime must be given together";
+    }
+    if (hasStart && (!isValidTime(rule.startTime!) || !isValidTime(rule.endTime!))) {
+      return "Invalid time format. Use HH:MM";
+    }
+    if (hasStart && rule.endTime! <= rule.startTime!) {
+      return "endTime must be after startTime";
+    }
+
+    if (!Number.isInteger(rule.amountCents) || rule.amountCents <= 0) {
+      return "amountCents must be a whole number of cents above 0";
+    }
+  }
+
+  return null;
+}
+
+// The deposit a booking needs in cents: the largest of the rules it matches, or
+// null when none match and the booking is confirmed straight away
+export function getRequiredDeposit(
+  rules: DepositRuleInput[],
+  booking: Pick<Booking, "bookingDate" | "bookingTime" | "partySize">
+): number | null {
+  const dayOfWeek = getDayOfWeek(booking.bookingDate);
+  const amounts = rules
+    .filter(
+      (rule) =>
+        booking.partySize >= rule.minPartySize &&
+        (rule.dayOfWeek === null || rule.dayOfWeek === undefined || rule.dayOfWeek === dayOfWeek) &&
+        (!rule.startTime || !rule.endTime ||
+          (booking.bookingTime >= rule.startTime && booking.bookingTime < rule.endTime))
+    )
+    .map((rule) => rule.amountCents);
+
+  return amounts.length > 0 ? Math.max(...amounts) : null;
+}
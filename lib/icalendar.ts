@@ -0,0 +1,120 @@
+import type { Booking, Customer, Restaurant } from "@/db";
+import { zonedTimeToUtc } from "./timezone";
+
+// iCalendar (RFC 5545) files for adding bookings to calendar apps
+
+const PRODUCT_ID = "-//FreeTable//Bookings//EN";
+
+// Lines longer than this many octets are folded onto continuation lines
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+export type CalendarBooking = Pick<
+  Booking,
+  "id" | "bookingDate" | "bookingTime" | "durationMinutes" | "partySize" | "status" | "specialRequests" | "updatedAt"
+> & {
+  restaurant: Pick<Restaurant, "name" | "address" | "phone" | "timezone">;
+  customer: Pick<Customer, "name">;
+};
+
+// Who the calendar is for: guests see the restaurant, restaurants see the guest
+export type CalendarAudience = "guest" | "restaurant";
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// As a UTC date-time, e.g. 20251016T020000Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Split a line into continuation lines of at most 75 octets, each starting with a space
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    // Continuation lines lose one octet to their leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function getEventStatus(status: string): string {
+  switch (status) {
+    case "pending":
+      return "TENTATIVE";
+    case "cancelled":
+    case "no_show":
+      return "CANCELLED";
+    default:
+      return "CONFIRMED";
+  }
+}
+
+function renderEvent(booking: CalendarBooking, audience: CalendarAudience, host: string, now: Date): string[] {
+  const { restaurant } = booking;
+  const start = zonedTimeToUtc(booking.bookingDate, booking.bookingTime, restaurant.timezone);
+  const end = new Date(start.getTime() + booking.durationMinutes * 60 * 1000);
+  const guests = `${booking.partySize} ${booking.partySize === 1 ? "guest" : "guests"}`;
+
+  const summary = audience === "guest"
+    ? `Reservation at ${restaurant.name}`
+    : `${booking.customer.name} (${guests})`;
+  const description = [
+    audience === "guest"
+      ? `Table for ${guests}. Call ${restaurant.phone} with any questions.`
+      : `Booking #${booking.id} for ${guests}.`,
+    booking.specialRequests && `Special requests: ${booking.specialRequests}`,
+  ].filter(Boolean).join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:booking-${booking.id}@${host}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `LAST-MODIFIED:${formatDateTime(booking.updatedAt)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(`${restaurant.name}, ${restaurant.address}`)}`,
+    `STATUS:${getEventStatus(booking.status)}`,
+    "END:VEVENT",
+  ];
+}
+
+// A calendar holding an event per booking. host keeps event UIDs unique to this
+// site, so calendar apps update an event when the booking changes.
+export function renderCalendar(
+  calendarBookings: CalendarBooking[],
+  options: { audience: CalendarAudience; host: string; name?: string },
+  now: Date = new Date()
+): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    ...calendarBookings.flatMap((booking) => renderEvent(booking, options.audience, options.host, now)),
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,122 @@
+import type { Booking, Restaurant, WaitlistEntry } from "@/db";
+import { zonedTimeToUtc } from "./timezone";
+import { signToken, verifyToken } from "./tokens";
+
+// Guests can still open their manage link for a day after the visit
+const MANAGE_TOKEN_GRACE_HOURS = 24;
+
+// Calendar apps poll a feed for as long as it is subscribed, so feed links last a year
+const CALENDAR_FEED_TOKEN_DAYS = 365;
+
+interface ManageTokenPayload {
+  typ: "manage";
+  bid: number; // Booking ID
+  exp: number;
+}
+
+interface CalendarFeedTokenPayload {
+  typ: "calendar";
+  rid: number; // Restaurant ID
+  ver: number; // The restaurant's calendar feed version when the link was made
+  exp: number;
+}
+
+interface WaitlistTokenPayload {
+  typ: "waitlist";
+  wid: number; // Waitlist entry ID
+  exp: number;
+}
+
+// Token for a guest's "manage my reservation" link. It is tied to the booking's
+// current date and time, so a fresh one is issued whenever the booking moves.
+// The timezone is the restaurant's, in which the booking's date and time are kept.
+export async function createManageToken(
+  booking: Pick<Booking, "id" | "bookingDate" | "bookingTime" | "durationMinutes">,
+  timezone: string,
+  secret: string
+): Promise<string> {
+  const visitStart = zonedTimeToUtc(booking.bookingDate, booking.bookingTime, timezone);
+  const expiresAt =
+    visitStart.getTime() +
+    (booking.durationMinutes * 60 + MANAGE_TOKEN_GRACE_HOURS * 60 * 60) * 1000;
+
+  return signToken<ManageTokenPayload>(
+    { typ: "manage", bid: booking.id, exp: Math.floor(expiresAt / 1000) },
+    secret
+  );
+}
+
+// Returns the booking ID the token grants access to, or null if it is invalid or expired
+export async function verifyManageToken(token: string, secret: string): Promise<number | null> {
+  const payload = await verifyToken<ManageTokenPayload>(token, secret, "manage");
+  return payload && Number.isInteger(payload.bid) ? payload.bid : null;
+}
+
+export function getManageUrl(origin: string, token: string): string {
+  return `${origin}/manage/${token}`;
+}
+
+// Token for a guest's waitlist link, used to see and claim offers or leave the
+// waitlist. It lasts until a day after the latest time the guest asked for.
+export async function createWaitlistToken(
+  entry: Pick<WaitlistEntry, "id" | "bookingDate" | "latestTime">,
+  timezone: string,
+  secret: string
+): Promise<string> {
+  const windowEnd = zonedTimeToUtc(entry.bookingDate, entry.latestTime, timezone);
+  const expiresAt = windowEnd.getTime() + MANAGE_TOKEN_GRACE_HOURS * 60 * 60 * 1000;
+
+  return signToken<WaitlistTokenPayload>(
+    { typ: "waitlist", wid: entry.id, exp: Math.floor(expiresAt / 1000) },
+    secret
+  );
+}
+
+// Returns the waitlist entry ID the token grants access to, or null if it is invalid or expired
+export async function verifyWaitlistToken(token: string, secret: string): Promise<number | null> {
+  const payload = await verifyToken<WaitlistTokenPayload>(token, secret, "waitlist");
+  return payload && Number.isInteger(payload.wid) ? payload.wid : null;
+}
+
+export function getWaitlistUrl(origin: string, token: string): string {
+  return `${origin}/waitlist/${token}`;
+}
+
+// Token for a restaurant's calendar feed. Anyone with the link can read the
+// restaurant's upcoming bookings, so it is only handed to the restaurant's staff.
+// It carries the restaurant's feed version, so resetting the feed revokes it.
+export async function createCalendarFeedToken(
+  restaurant: Pick<Restaurant, "id" | "calendarFeedVersion">,
+  secret: string,
+  now: Date = new Date()
+): Promise<{ token: string; expiresAt: Date }> {
+  const expiresAt = new Date(now.getTime() + CALENDAR_FEED_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+  const token = await signToken<CalendarFeedTokenPayload>(
+    {
+      typ: "calendar",
+      rid: restaurant.id,
+      ver: restaurant.calendarFeedVersion,
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    },
+    secret
+  );
+  return { token, expiresAt };
+}
+
+// Returns the restaurant ID whose feed the token opens and the feed version it was
+// made for, or null if it is invalid or expired. The caller checks the version is
+// still the restaurant's current one.
+export async function verifyCalendarFeedToken(
+  token: string,
+  secret: string
+): Promise<{ restaurantId: number; version: number } | null> {
+  const payload = await verifyToken<CalendarFeedTokenPayload>(token, secret, "calendar");
+  if (!payload || !Number.isInteger(payload.rid) || !Number.isInteger(payload.ver)) {
+    return null;
+  }
+  return { restaurantId: payload.rid, version: payload.ver };
+}
+
+export function getCalendarFeedUrl(origin: string, token: string): string {
+  return `${origin}/api/calendar/${token}`;
+}
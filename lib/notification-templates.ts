@@ -0,0 +1,167 @@
+import type { Booking, Customer, Restaurant, WaitlistEntry } from "@/db";
+import { getZonedDateTime } from "./timezone";
+
+export const NOTIFICATION_TYPES = ["confirmation", "modification", "cancellation", "reminder"] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export type NotificationAudience = "guest" | "restaurant";
+
+export interface NotificationContext {
+  booking: Pick<Booking, "id" | "bookingDate" | "bookingTime" | "partySize" | "specialRequests">;
+  restaurant: Pick<Restaurant, "name" | "address" | "phone">;
+  customer: Pick<Customer, "name" | "email" | "phone">;
+  // The guest's link to view, change or cancel the booking
+  manageUrl?: string;
+}
+
+export interface WaitlistOfferContext {
+  entry: Pick<WaitlistEntry, "bookingDate" | "partySize" | "offeredTime" | "offerExpiresAt">;
+  restaurant: Pick<Restaurant, "name" | "address" | "phone" | "timezone">;
+  customer: Pick<Customer, "name">;
+  // The guest's link to claim the table on offer
+  waitlistUrl: string;
+}
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const GUEST_HEADLINES: Record<NotificationType, string> = {
+  confirmation: "Your table is booked",
+  modification: "Your booking has changed",
+  cancellation: "Your booking has been cancelled",
+  reminder: "See you tomorrow",
+};
+
+const RESTAURANT_HEADLINES: Record<NotificationType, string> = {
+  confirmation: "New booking",
+  modification: "Booking changed",
+  cancellation: "Booking cancelled",
+  reminder: "Booking tomorrow",
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// "2025-10-15" as "Wednesday 15 October 2025". The date is already local to the restaurant.
+function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Render an email about a booking as a subject with plain text and HTML bodies
+export function renderNotification(
+  type: NotificationType,
+  audience: NotificationAudience,
+  context: NotificationContext
+): RenderedNotification {
+  const { booking, restaurant, customer, manageUrl } = context;
+  const guests = `${booking.partySize} ${booking.partySize === 1 ? "guest" : "guests"}`;
+  const when = `${formatDate(booking.bookingDate)} at ${booking.bookingTime}`;
+
+  const headline = audience === "guest" ? GUEST_HEADLINES[type] : RESTAURANT_HEADLINES[type];
+  const subject = audience === "guest"
+    ? `${headline} at ${restaurant.name}`
+    : `${headline}: ${customer.name}, ${booking.bookingDate} ${booking.bookingTime}`;
+
+  // Label and value pairs, shared by both bodies
+  const details: [string, string][] = audience === "guest"
+    ? [
+        ["Restaurant", restaurant.name],
+        ["When", when],
+        ["Party", guests],
+        ["Address", restaurant.address],
+        ["Phone", restaurant.phone],
+      ]
+    : [
+        ["Booking", `#${booking.id}`],
+        ["Guest", customer.name],
+        ["When", when],
+        ["Party", guests],
+        ["Email", customer.email],
+        ["Phone", customer.phone],
+      ];
+  if (booking.specialRequests) {
+    details.push(["Special requests", booking.specialRequests]);
+  }
+
+  const greeting = audience === "guest" ? `Hi ${customer.name},` : null;
+  const link = audience === "guest" && manageUrl && type !== "cancellation"
+    ? { label: "View, change or cancel your booking", url: manageUrl }
+    : null;
+
+  return { subject, ...renderBody(greeting, headline, details, link) };
+}
+
+// Render the email telling a guest on the waitlist that a table is free for them
+export function renderWaitlistOfferNotification(context: WaitlistOfferContext): RenderedNotification {
+  const { entry, restaurant, customer, waitlistUrl } = context;
+  const guests = `${entry.partySize} ${entry.partySize === 1 ? "guest" : "guests"}`;
+  const headline = "A table is free for you";
+
+  const details: [string, string][] = [
+    ["Restaurant", restaurant.name],
+    ["When", `${formatDate(entry.bookingDate)} at ${entry.offeredTime}`],
+    ["Party", guests],
+    ["Address", restaurant.address],
+    ["Phone", restaurant.phone],
+  ];
+  if (entry.offerExpiresAt) {
+    details.push(["Claim by", getZonedDateTime(restaurant.timezone, entry.offerExpiresAt).time]);
+  }
+
+  return {
+    subject: `${headline} at ${restaurant.name}`,
+    ...renderBody(`Hi ${customer.name},`, headline, details, {
+      label: "Claim your table",
+      url: waitlistUrl,
+    }),
+  };
+}
+
+// Lay out an email as plain text and HTML: an optional greeting, the headline,
+// label and value pairs and an optional link
+function renderBody(
+  greeting: string | null,
+  headline: string,
+  details: [string, string][],
+  link: { label: string; url: string } | null
+): Omit<RenderedNotification, "subject"> {
+  const text = [
+    greeting,
+    headline,
+    "",
+    ...details.map(([label, value]) => `${label}: ${value}`),
+    ...(link ? ["", `${link.label}: ${link.url}`] : []),
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  const html = [
+    greeting && `<p>${escapeHtml(greeting)}</p>`,
+    `<h1>${escapeHtml(headline)}</h1>`,
+    "<table>",
+    ...details.map(
+      ([label, value]) => `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    ),
+    "</table>",
+    link && `<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return { text, html };
+}
@@ -0,0 +1,360 @@
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import {
+  bookings,
+  notifications,
+  waitlistEntries,
+  type Database,
+  type InsertNotification,
+  type WaitlistEntry,
+} from "@/db";
+import {
+  createManageToken,
+  createWaitlistToken,
+  getManageUrl,
+  getWaitlistUrl,
+} from "./manage-tokens";
+import {
+  renderNotification,
+  renderWaitlistOfferNotification,
+  type NotificationAudience,
+  type NotificationType,
+} from "./notification-templates";
+import { addDays } from "./time";
+import { getZonedDateTime } from "./timezone";
+
+export interface NotificationMessage {
+  id: number;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Delivers rendered emails. Add a transport here to send through a mail provider.
+export interface NotificationTransport {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+// Where links in emails point and the secret to sign them with
+export interface NotificationLinks {
+  origin: string;
+  secret: string;
+}
+
+// A failed send is retried on later deliveries until it has been tried this often
+const MAX_SEND_ATTEMPTS = 3;
+
+// Notifications sent per delivery run
+const DELIVERY_BATCH_SIZE = 25;
+
+// A notification still sending this long after it was claimed was left behind by a
+// delivery that stopped part way, and is queued again
+const SENDING_TIMEOUT_MINUTES = 10;
+
+// D1 binds at most 100 parameters per statement and each notification row uses 7
+const NOTIFICATIONS_PER_INSERT = 14;
+
+// Prints each email to the log; the default for local development
+const consoleTransport: NotificationTransport = {
+  async send(message) {
+    console.log(
+      `Notification ${message.id} to ${message.to}: ${message.subject}\n${message.text}`
+    );
+  },
+};
+
+// Writes each email as text and HTML files under .notifications/, to read them as
+// guests would see them. It needs a filesystem, so only works under `next dev`.
+const fileTransport: NotificationTransport = {
+  async send(message) {
+    const { mkdir, writeFile } = await import("node:fs/promises");
+    const directory = ".notifications";
+    const name = `${directory}/${message.id}-${message.to.replace(/[^\w.@-]/g, "_")}`;
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(`${name}.txt`, `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`);
+    await writeFile(`${name}.html`, message.html);
+  },
+};
+
+const TRANSPORTS: Record<string, NotificationTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+export function getNotificationTransport(name: string | undefined): NotificationTransport {
+  const transport = TRANSPORTS[name || "console"];
+  if (!transport) {
+    throw new Error(`Unknown notification transport: ${name}`);
+  }
+  return transport;
+}
+
+// Render and queue the emails about each booking: one to the guest and, except
+// for reminders, one to the restaurant. Nothing is sent until delivery runs.
+export async function queueBookingNotifications(
+  db: Database,
+  type: NotificationType,
+  bookingIds: number[],
+  links: NotificationLinks
+): Promise<void> {
+  if (bookingIds.length === 0) {
+    return;
+  }
+
+  const bookingsToNotify = await db.query.bookings.findMany({
+    where: inArray(bookings.id, bookingIds),
+    with: {
+      restaurant: true,
+      customer: true,
+    },
+  });
+
+  const rows: InsertNotification[] = [];
+  for (const booking of bookingsToNotify) {
+    const { restaurant, customer } = booking;
+    const manageUrl = type === "cancellation"
+      ? undefined
+      : getManageUrl(
+          links.origin,
+          await createManageToken(booking, restaurant.timezone, links.secret)
+        );
+
+    const recipients: [NotificationAudience, string][] = type === "reminder"
+      ? [["guest", customer.email]]
+      : [["guest", customer.email], ["restaurant", restaurant.email]];
+
+    for (const [audience, recipient] of recipients) {
+      rows.push({
+        bookingId: booking.id,
+        type,
+        audience,
+        recipient,
+        ...renderNotification(type, audience, { booking, restaurant, customer, manageUrl }),
+      });
+    }
+  }
+
+  for (let i = 0; i < rows.length; i += NOTIFICATIONS_PER_INSERT) {
+    await db.insert(notifications).values(rows.slice(i, i + NOTIFICATIONS_PER_INSERT));
+  }
+}
+
+// Render and queue the email telling each guest about the table offered to them
+// from the waitlist, with the link to claim it
+export async function queueWaitlistOfferNotifications(
+  db: Database,
+  offers: WaitlistEntry[],
+  links: NotificationLinks
+): Promise<void> {
+  if (offers.length === 0) {
+    return;
+  }
+
+  const entries = await db.query.waitlistEntries.findMany({
+    where: inArray(waitlistEntries.id, offers.map((o) => o.id)),
+    with: {
+      restaurant: true,
+      customer: true,
+    },
+  });
+
+  const rows: InsertNotification[] = [];
+  for (const entry of entries) {
+    const { restaurant, customer } = entry;
+    const waitlistUrl = getWaitlistUrl(
+      links.origin,
+      await createWaitlistToken(entry, restaurant.timezone, links.secret)
+    );
+
+    rows.push({
+      type: "waitlist_offer",
+      audience: "guest",
+      recipient: customer.email,
+      ...renderWaitlistOfferNotification({ entry, restaurant, customer, waitlistUrl }),
+    });
+  }
+
+  for (let i = 0; i < rows.length; i += NOTIFICATIONS_PER_INSERT) {
+    await db.insert(notifications).values(rows.slice(i, i + NOTIFICATIONS_PER_INSERT));
+  }
+}
+
+// Send queued notifications through the named transport. Routes run this after
+// responding, so a slow transport doesn't delay the guest.
+export async function deliverNotifications(
+  db: Database,
+  transportName: string | undefined,
+  now: Date = new Date()
+): Promise<{ sent: number; failed: number }> {
+  const transport = getNotificationTransport(transportName);
+  const queued = await db.query.notifications.findMany({
+    where: eq(notifications.status, "queued"),
+    orderBy: [asc(notifications.id)],
+    limit: DELIVERY_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const notification of queued) {
+    // Claim the notification so a delivery running alongside doesn't send it too
+    const [claimed] = await db
+      .update(notifications)
+      .set({ status: "sending", claimedAt: now })
+      .where(and(eq(notifications.id, notification.id), eq(notifications.status, "queued")))
+      .returning();
+    if (!claimed) {
+      continue;
+    }
+
+    const attempts = claimed.attempts + 1;
+    try {
+      await transport.send({
+        id: claimed.id,
+        to: claimed.recipient,
+        subject: claimed.subject,
+        text: claimed.text,
+        html: claimed.html,
+      });
+      await db
+        .update(notifications)
+        .set({ status: "sent", attempts, lastError: null, sentAt: now })
+        .where(eq(notifications.id, claimed.id));
+      sent++;
+    } catch (error) {
+      console.error(`Error sending notification ${claimed.id}:`, error);
+      await db
+        .update(notifications)
+        .set({
+          status: attempts >= MAX_SEND_ATTEMPTS ? "failed" : "queued",
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error),
+        })
+        .where(eq(notifications.id, claimed.id));
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
+
+// Queue again the notifications a delivery claimed but never finished, e.g. because
+// the worker was stopped mid-send. Returns how many were queued again.
+export async function reclaimStuckNotifications(
+  db: Database,
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+  const reclaimed = await db
+    .update(notifications)
+    .set({ status: "queued", lastError: "Sending was interrupted" })
+    .where(and(eq(notifications.status, "sending"), lte(notifications.claimedAt, cutoff)))
+    .returning({ id: notifications.id });
+
+  return reclaimed.length;
+}
+
+// The email, if any, to send when a booking moves to the status
+export function getStatusNotificationType(status: string): NotificationType | null {
+  switch (status) {
+    case "confirmed":
+      return "confirmation";
+    case "cancelled":
+      return "cancellation";
+    default:
+      return null;
+  }
+}
+
+// Email the guests and restaurants about bookings a route has just changed, sending
+// after the response is returned. Failures are logged rather than thrown, as the
+// change itself is already saved.
+export async function notifyBookings(
+  db: Database,
+  env: Pick<CloudflareEnv, "AUTH_SECRET" | "NOTIFICATION_TRANSPORT">,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  origin: string,
+  type: NotificationType,
+  bookingIds: number[]
+): Promise<void> {
+  try {
+    await queueBookingNotifications(db, type, bookingIds, { origin, secret: env.AUTH_SECRET });
+  } catch (error) {
+    console.error("Error queueing notifications:", error);
+    return;
+  }
+
+  deliverAfterResponse(db, env, ctx);
+}
+
+// Email guests the tables a route has just offered them from the waitlist. An
+// offer only lasts a few minutes, so it is sent straight after the response.
+export async function notifyWaitlistOffers(
+  db: Database,
+  env: Pick<CloudflareEnv, "AUTH_SECRET" | "NOTIFICATION_TRANSPORT">,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  origin: string,
+  offers: WaitlistEntry[]
+): Promise<void> {
+  if (offers.length === 0) {
+    return;
+  }
+
+  try {
+    await queueWaitlistOfferNotifications(db, offers, { origin, secret: env.AUTH_SECRET });
+  } catch (error) {
+    console.error("Error queueing waitlist offer notifications:", error);
+    return;
+  }
+
+  deliverAfterResponse(db, env, ctx);
+}
+
+function deliverAfterResponse(
+  db: Database,
+  env: Pick<CloudflareEnv, "NOTIFICATION_TRANSPORT">,
+  ctx: Pick<ExecutionContext, "waitUntil">
+): void {
+  ctx.waitUntil(
+    deliverNotifications(db, env.NOTIFICATION_TRANSPORT).catch((error) =>
+      console.error("Error delivering notifications:", error)
+    )
+  );
+}
+
+// Queue a reminder for every confirmed booking taking place tomorrow in its
+// restaurant's timezone. Bookings already reminded are skipped, so this can run
+// as often as needed. Returns how many reminders were queued.
+export async function queueReminders(
+  db: Database,
+  links: NotificationLinks,
+  now: Date = new Date()
+): Promise<number> {
+  const allRestaurants = await db.query.restaurants.findMany();
+
+  const bookingIds: number[] = [];
+  for (const restaurant of allRestaurants) {
+    const tomorrow = addDays(getZonedDateTime(restaurant.timezone, now).date, 1);
+    const tomorrowsBookings = await db.query.bookings.findMany({
+      where: and(
+        eq(bookings.restaurantId, restaurant.id),
+        eq(bookings.bookingDate, tomorrow),
+        eq(bookings.status, "confirmed")
+      ),
+    });
+    bookingIds.push(...tomorrowsBookings.map((b) => b.id));
+  }
+
+  if (bookingIds.length === 0) {
+    return 0;
+  }
+
+  const reminded = await db.query.notifications.findMany({
+    where: and(inArray(notifications.bookingId, bookingIds), eq(notifications.type, "reminder")),
+  });
+  const remindedIds = new Set(reminded.map((n) => n.bookingId));
+  const toRemind = bookingIds.filter((id) => !remindedIds.has(id));
+
+  await queueBookingNotifications(db, "reminder", toRemind, links);
+  return toRemind.length;
+}
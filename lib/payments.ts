@@ -0,0 +1,287 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { payments, type Booking, type Database, type Payment, type Restaurant } from "@/db";
+import type { Actor } from "./booking-events";
+import { validateStatusTransition } from "./booking-lifecycle";
+import { BookingError, changeBookingStatus } from "./bookings";
+
+// Guests have this long to pay a deposit before their pending booking is cancelled
+export const DEPOSIT_PAYMENT_MINUTES = 30;
+
+// An amount in cents as money, e.g. 2500 USD as "$25.00"
+export function formatAmount(cents: number, currency: string): string {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).format(cents / 100);
+}
+
+export interface PaymentHold {
+  id: string;
+  // Handed to the guest's browser to enter card details with the provider
+  clientSecret: string;
+}
+
+// A card payment provider. Deposits are authorised as holds on the guest's card,
+// then captured or released once the booking's outcome is known. Add a provider
+// here to take real payments.
+export interface PaymentProvider {
+  createHold(amountCents: number, currency: string, description: string): Promise<PaymentHold>;
+  // Authorise the hold on the guest's payment method. False means the card was declined.
+  confirmHold(id: string, paymentMethod: string): Promise<boolean>;
+  // Take up to the amount held; the rest of the hold is released
+  capture(id: string, amountCents: number): Promise<void>;
+  release(id: string): Promise<void>;
+  refund(id: string, amountCents: number): Promise<void>;
+}
+
+// Holds kept in memory, for local development and tests. They last only as long as
+// the worker instance. Use the payment method "fake_card_declined" to test a decline.
+const fakeHolds = new Map<string, { amountCents: number; status: string }>();
+
+const fakeProvider: PaymentProvider = {
+  async createHold(amountCents) {
+    const id = `fake_${crypto.randomUUID()}`;
+    fakeHolds.set(id, { amountCents, status: "requires_confirmation" });
+    return { id, clientSecret: `${id}_secret` };
+  },
+
+  async confirmHold(id, paymentMethod) {
+    const hold = getFakeHold(id, "requires_confirmation");
+    if (paymentMethod === "fake_card_declined") {
+      return false;
+    }
+    hold.status = "authorized";
+    return true;
+  },
+
+  async capture(id, amountCents) {
+    const hold = getFakeHold(id, "authorized");
+    if (amountCents > hold.amountCents) {
+      throw new Error(`Cannot capture more than the ${hold.amountCents} held`);
+    }
+    hold.status = "captured";
+  },
+
+  async release(id) {
+    const hold = fakeHolds.get(id);
+    if (hold && hold.status !== "captured") {
+      hold.status = "released";
+    }
+  },
+
+  async refund(id) {
+    getFakeHold(id, "captured").status = "refunded";
+  },
+};
+
+function getFakeHold(id: string, status: string) {
+  const hold = fakeHolds.get(id);
+  if (!hold) {
+    throw new Error(`Unknown payment ${id}`);
+  }
+  if (hold.status !== status) {
+    throw new Error(`Payment ${id} is ${hold.status}, not ${status}`);
+  }
+  return hold;
+}
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  fake: fakeProvider,
+};
+
+export function getPaymentProvider(name: string | undefined): PaymentProvider {
+  const provider = PROVIDERS[name || "fake"];
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+// Start a deposit hold for a pending booking. The guest confirms it with their card.
+export async function requestDeposit(
+  db: Database,
+  providerName: string | undefined,
+  booking: Pick<Booking, "id" | "bookingDate" | "bookingTime">,
+  restaurant: Pick<Restaurant, "name" | "currency">,
+  amountCents: number
+): Promise<{ payment: Payment; clientSecret: string }> {
+  const hold = await getPaymentProvider(providerName).createHold(
+    amountCents,
+    restaurant.currency,
+    `Deposit for ${restaurant.name} on ${booking.bookingDate} at ${booking.bookingTime}`
+  );
+
+  const [payment] = await db
+    .insert(payments)
+    .values({
+      bookingId: booking.id,
+      provider: providerName || "fake",
+      providerPaymentId: hold.id,
+      amountCents,
+      currency: restaurant.currency,
+    })
+    .returning();
+
+  return { payment, clientSecret: hold.clientSecret };
+}
+
+// Authorise the deposit on the guest's card and confirm their booking
+export async function confirmDeposit(
+  db: Database,
+  booking: Booking & { restaurant: Pick<Restaurant, "timezone"> },
+  paymentMethod: string,
+  actor: Actor,
+  now: Date = new Date()
+): Promise<{ booking: Booking; payment: Payment }> {
+  const payment = await db.query.payments.findFirst({
+    where: and(eq(payments.bookingId, booking.id), eq(payments.status, "requires_confirmation")),
+  });
+
+  if (booking.status !== "pending" || !payment) {
+    throw new BookingError("This booking has no deposit waiting to be paid", 409);
+  }
+
+  // Don't take the card for a booking that can no longer be confirmed
+  const transitionError = validateStatusTransition(booking, "confirmed", booking.restaurant.timezone, now);
+  if (transitionError) {
+    throw new BookingError(transitionError);
+  }
+
+  const provider = getPaymentProvider(payment.provider);
+  if (!(await provider.confirmHold(payment.providerPaymentId, paymentMethod))) {
+    await db
+      .update(payments)
+      .set({ lastError: "Card declined", updatedAt: now })
+      .where(eq(payments.id, payment.id));
+    throw new BookingError("Your card was declined. Please try another card.", 402);
+  }
+
+  const [authorized] = await db
+    .update(payments)
+    .set({ status: "authorized", lastError: null, updatedAt: now })
+    .where(eq(payments.id, payment.id))
+    .returning();
+
+  try {
+    const confirmed = await changeBookingStatus(db, booking, "confirmed", actor, now);
+    return { booking: confirmed, payment: authorized };
+  } catch (error) {
+    // The booking changed while the card was authorised, e.g. it was cancelled, so
+    // the hold on the guest's card is let go
+    await provider.release(payment.providerPaymentId);
+    await db
+      .update(payments)
+      .set({
+        status: "released",
+        lastError: error instanceof Error ? error.message : String(error),
+        updatedAt: now,
+      })
+      .where(eq(payments.id, payment.id));
+    throw error;
+  }
+}
+
+// What to do with a deposit given where its booking ended up, or null to leave it
+function getSettlement(
+  booking: Pick<Booking, "status" | "lateCancellation" | "cancellationFeeCents">,
+  payment: Payment
+): { action: "capture" | "release" | "refund"; amountCents: number } | null {
+  if (payment.status === "requires_confirmation") {
+    // Never paid, so there is nothing to take once the booking is over
+    return ["cancelled", "completed", "no_show"].includes(booking.status)
+      ? { action: "release", amountCents: 0 }
+      : null;
+  }
+
+  if (payment.status === "captured") {
+    // A no-show who turns up after all gets their deposit back
+    return ["arrived", "seated"].includes(booking.status)
+      ? { action: "refund", amountCents: payment.capturedCents }
+      : null;
+  }
+
+  if (payment.status !== "authorized") {
+    return null;
+  }
+
+  switch (booking.status) {
+    case "no_show":
+      return { action: "capture", amountCents: payment.amountCents };
+    case "cancelled":
+      // Late cancellations pay the policy's fee, or the whole deposit without one
+      return booking.lateCancellation
+        ? {
+            action: "capture",
+            amountCents: Math.min(booking.cancellationFeeCents ?? payment.amountCents, payment.amountCents),
+          }
+        : { action: "release", amountCents: 0 };
+    case "completed":
+      return { action: "release", amountCents: 0 };
+    default:
+      return null;
+  }
+}
+
+// Capture, release or refund the deposits of bookings whose status just changed.
+// Failures are logged on the payment rather than thrown, as the change is already saved.
+export async function settleDeposits(
+  db: Database,
+  settledBookings: Pick<Booking, "id" | "status" | "lateCancellation" | "cancellationFeeCents">[],
+  now: Date = new Date()
+): Promise<void> {
+  if (settledBookings.length === 0) {
+    return;
+  }
+
+  const open = await db.query.payments.findMany({
+    where: and(
+      inArray(payments.bookingId, settledBookings.map((b) => b.id)),
+      inArray(payments.status, ["requires_confirmation", "authorized", "captured"])
+    ),
+  });
+
+  for (const payment of open) {
+    const booking = settledBookings.find((b) => b.id === payment.bookingId)!;
+    const settlement = getSettlement(booking, payment);
+    if (!settlement) {
+      continue;
+    }
+
+    try {
+      const provider = getPaymentProvider(payment.provider);
+      switch (settlement.action) {
+        case "capture":
+          // A zero fee takes nothing, which is a release
+          if (settlement.amountCents > 0) {
+            await provider.capture(payment.providerPaymentId, settlement.amountCents);
+          } else {
+            await provider.release(payment.providerPaymentId);
+          }
+          break;
+        case "release":
+          await provider.release(payment.providerPaymentId);
+          break;
+        case "refund":
+          await provider.refund(payment.providerPaymentId, settlement.amountCents);
+          break;
+      }
+
+      const captured = settlement.action === "capture" && settlement.amountCents > 0;
+      await db
+        .update(payments)
+        .set({
+          status: captured ? "captured" : settlement.action === "refund" ? "refunded" : "released",
+          capturedCents: captured ? settlement.amountCents : 0,
+          lastError: null,
+          updatedAt: now,
+        })
+        .where(eq(payments.id, payment.id));
+    } catch (error) {
+      console.error(`Error settling payment ${payment.id}:`, error);
+      await db
+        .update(payments)
+        .set({
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: now,
+        })
+        .where(eq(payments.id, payment.id));
+    }
+  }
+}
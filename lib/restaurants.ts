@@ -0,0 +1,173 @@
+import type { OpeningHours, Restaurant, Table } from "@/db";
+import { EMAIL_REGEX } from "./bookings";
+import { closingTimeToMinutes, isValidDate, isValidTime, timeToMinutes } from "./time";
+import { isValidTimeZone } from "./timezone";
+
+export const PRICE_RANGES = ["$", "$$", "$$$", "$$$$"] as const;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const MIN_SEATING_MINUTES = 15;
+const MAX_SEATING_MINUTES = 480;
+const MAX_TABLE_CAPACITY = 50;
+
+export type RestaurantFields = Pick<
+  Restaurant,
+  "name" | "description" | "address" | "phone" | "email" | "cuisine" | "priceRange" | "imageUrl" | "defaultSeatingMinutes" | "timezone" | "currency"
+>;
+
+export type OpeningHoursInput = Pick<OpeningHours, "dayOfWeek" | "openTime" | "closeTime" | "isClosed"> &
+  Partial<Pick<OpeningHours, "name">>;
+
+export type TableInput = Pick<Table, "tableNumber" | "capacity" | "isActive">;
+
+const REQUIRED_RESTAURANT_FIELDS = [
+  "name",
+  "description",
+  "address",
+  "phone",
+  "email",
+  "cuisine",
+  "priceRange",
+] as const;
+
+// Validate restaurant details. With partial set only the fields present are checked.
+export function validateRestaurantFields(
+  fields: Partial<RestaurantFields>,
+  partial = false
+): string | null {
+  for (const field of REQUIRED_RESTAURANT_FIELDS) {
+    const value = fields[field];
+    if (value === undefined && partial) {
+      continue;
+    }
+    if (typeof value !== "string" || value.trim() === "") {
+      return `${field} is required`;
+    }
+  }
+
+  if (fields.email !== undefined && !EMAIL_REGEX.test(fields.email)) {
+    return "Invalid email address";
+  }
+
+  if (fields.priceRange !== undefined && !PRICE_RANGES.includes(fields.priceRange as typeof PRICE_RANGES[number])) {
+    return `Invalid price range. Must be one of: ${PRICE_RANGES.join(", ")}`;
+  }
+
+  const seatingMinutes = fields.defaultSeatingMinutes;
+  if (
+    seatingMinutes !== undefined &&
+    (!Number.isInteger(seatingMinutes) || seatingMinutes < MIN_SEATING_MINUTES || seatingMinutes > MAX_SEATING_MINUTES)
+  ) {
+    return `defaultSeatingMinutes must be a whole number between ${MIN_SEATING_MINUTES} and ${MAX_SEATING_MINUTES}`;
+  }
+
+  if (fields.timezone !== undefined && (typeof fields.timezone !== "string" || !isValidTimeZone(fields.timezone))) {
+    return "Invalid timezone. Use an IANA name such as Europe/London";
+  }
+
+  if (fields.currency !== undefined && (typeof fields.currency !== "string" || !/^[A-Z]{3}$/.test(fields.currency))) {
+    return "Invalid currency. Use an ISO 4217 code such as USD";
+  }
+
+  return null;
+}
+
+type OpenPeriod = { openTime: string; closeTime: string };
+
+// Validate the open periods of a single day: HH:MM times, closing after opening, no overlaps
+export function validateDayHours(periods: OpenPeriod[]): string | null {
+  const ranges: { openMinutes: number; closeMinutes: number }[] = [];
+
+  for (const period of periods) {
+    if (!isValidTime(period.openTime) || !isValidTime(period.closeTime)) {
+      return "Invalid time format. Use HH:MM";
+    }
+
+    const openMinutes = timeToMinutes(period.openTime);
+    const closeMinutes = closingTimeToMinutes(period.closeTime);
+    if (closeMinutes <= openMinutes) {
+      return `Closing time must be after opening time (${period.openTime} - ${period.closeTime})`;
+    }
+
+    ranges.push({ openMinutes, closeMinutes });
+  }
+
+  const overlapping = ranges.some((a, i) =>
+    ranges.some((b, j) => j > i && a.openMinutes < b.closeMinutes && b.openMinutes < a.closeMinutes)
+  );
+  return overlapping ? "Opening hours overlap" : null;
+}
+
+// Validate a full week of opening hours. A day may have several non-overlapping
+// rows (e.g. lunch and dinner); days without rows are closed.
+export function validateOpeningHours(hours: OpeningHoursInput[]): string | null {
+  for (const row of hours) {
+    if (!Number.isInteger(row.dayOfWeek) || row.dayOfWeek < 0 || row.dayOfWeek > 6) {
+      return "dayOfWeek must be a whole number from 0 (Sunday) to 6 (Saturday)";
+    }
+
+    if (row.name !== undefined && row.name !== null && typeof row.name !== "string") {
+      return "Service period name must be text";
+    }
+
+    // Closed rows are stored too, so their times must still be well-formed
+    if (!isValidTime(row.openTime) || !isValidTime(row.closeTime)) {
+      return "Invalid time format. Use HH:MM";
+    }
+  }
+
+  for (const [dayOfWeek, dayName] of DAY_NAMES.entries()) {
+    const error = validateDayHours(hours.filter((h) => h.dayOfWeek === dayOfWeek && !h.isClosed));
+    if (error) {
+      return `${dayName}: ${error}`;
+    }
+  }
+
+  return null;
+}
+
+// Validate a date override: either closed all day or one or more open periods
+export function validateDateOverride(override: {
+  date: string;
+  isClosed?: boolean;
+  hours?: OpenPeriod[];
+}): string | null {
+  if (!isValidDate(override.date)) {
+    return "Invalid date format. Use YYYY-MM-DD";
+  }
+
+  if (override.isClosed) {
+    return override.hours && override.hours.length > 0
+      ? "A closed date cannot have opening hours"
+      : null;
+  }
+
+  if (!override.hours || !Array.isArray(override.hours) || override.hours.length === 0) {
+    return "Provide opening hours or set isClosed";
+  }
+
+  return validateDayHours(override.hours);
+}
+
+// Validate table details. With partial set only the fields present are checked.
+export function validateTable(table: Partial<TableInput>, partial = false): string | null {
+  const { tableNumber, capacity, isActive } = table;
+
+  if ((!partial || tableNumber !== undefined) && (typeof tableNumber !== "string" || tableNumber.trim() === "")) {
+    return "tableNumber is required";
+  }
+
+  if (
+    (!partial || capacity !== undefined) &&
+    (capacity === undefined || !Number.isInteger(capacity) || capacity < 1 || capacity > MAX_TABLE_CAPACITY)
+  ) {
+    return `Capacity must be a whole number between 1 and ${MAX_TABLE_CAPACITY}`;
+  }
+
+  if (isActive !== undefined && typeof isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+
+  return null;
+}
@@ -0,0 +1,237 @@
+import { and, eq, gte, inArray, lte } from "drizzle-orm";
+import { bookings, payments, type Booking, type Database } from "@/db";
+import { recordBookingEvent, type Actor } from "./booking-events";
+import { cancelBookings, changeBookingStatus, getStatusChanges } from "./bookings";
+import {
+  deliverNotifications,
+  queueReminders,
+  queueWaitlistOfferNotifications,
+  reclaimStuckNotifications,
+} from "./notifications";
+import { DEPOSIT_PAYMENT_MINUTES, settleDeposits } from "./payments";
+import { addDays } from "./time";
+import { getZonedDateTime, zonedTimeToUtc } from "./timezone";
+import { expireStaleWaitlistEntries, expireWaitlistOffers, offerFreedSeating } from "./waitlist";
+import { deliverWebhooks, queueWebhooks, reclaimStuckWebhooks } from "./webhooks";
+
+// Confirmed bookings whose guests haven't arrived this long after the start time
+// are marked as no-shows
+export const NO_SHOW_GRACE_MINUTES = 30;
+
+// Only bookings this recent are closed out, so a first run doesn't rewrite
+// bookings made before the jobs existed
+const CLOSE_OUT_LOOKBACK_DAYS = 7;
+
+// Recorded as the actor in the history of bookings the jobs change
+const SCHEDULER: Actor = { role: "admin", subject: "scheduler" };
+
+export interface ScheduledJobsResult {
+  expiredOffers: number;
+  expiredWaitlistEntries: number;
+  completed: number;
+  noShows: number;
+  unpaidCancelled: number;
+  remindersQueued: number;
+  notificationsSent: number;
+  notificationsFailed: number;
+  webhooksDelivered: number;
+  webhooksFailed: number;
+}
+
+// Complete arrived and seated bookings whose seating has ended, and mark confirmed
+// bookings as no-shows once the grace period after their start has passed. A
+// booking that can't be closed out is logged and skipped, so it doesn't hold up
+// the rest.
+export async function closeOutPastBookings(
+  db: Database,
+  now: Date = new Date()
+): Promise<{ completed: Booking[]; noShows: Booking[] }> {
+  const allRestaurants = await db.query.restaurants.findMany();
+  const completed: Booking[] = [];
+  const noShows: Booking[] = [];
+
+  for (const restaurant of allRestaurants) {
+    const today = getZonedDateTime(restaurant.timezone, now).date;
+    const candidates = await db.query.bookings.findMany({
+      where: and(
+        eq(bookings.restaurantId, restaurant.id),
+        inArray(bookings.status, ["confirmed", "arrived", "seated"]),
+        gte(bookings.bookingDate, addDays(today, -CLOSE_OUT_LOOKBACK_DAYS)),
+        lte(bookings.bookingDate, today)
+      ),
+    });
+
+    for (const booking of candidates) {
+      const start = zonedTimeToUtc(booking.bookingDate, booking.bookingTime, restaurant.timezone);
+      const minutesSinceStart = (now.getTime() - start.getTime()) / (60 * 1000);
+
+      try {
+        if (booking.status !== "confirmed" && minutesSinceStart >= booking.durationMinutes) {
+          completed.push(
+            await changeBookingStatus(db, { ...booking, restaurant }, "completed", SCHEDULER, now)
+          );
+        } else if (booking.status === "confirmed" && minutesSinceStart >= NO_SHOW_GRACE_MINUTES) {
+          noShows.push(
+            await changeBookingStatus(db, { ...booking, restaurant }, "no_show", SCHEDULER, now)
+          );
+        }
+      } catch (error) {
+        console.error(`Error closing out booking ${booking.id}:`, error);
+      }
+    }
+  }
+
+  return { completed, noShows };
+}
+
+// Cancel pending bookings whose deposit wasn't paid in time. They are cancelled
+// directly rather than through changeBookingStatus, which refuses to cancel past
+// bookings: a run missed until after the booking's date must still release it. A
+// booking that can't be cancelled is logged and skipped, so it doesn't hold up
+// the rest.
+export async function cancelUnpaidBookings(
+  db: Database,
+  now: Date = new Date()
+): Promise<Booking[]> {
+  const cutoff = new Date(now.getTime() - DEPOSIT_PAYMENT_MINUTES * 60 * 1000);
+  const unpaid = await db.query.payments.findMany({
+    where: and(eq(payments.status, "requires_confirmation"), lte(payments.createdAt, cutoff)),
+    with: {
+      booking: {
+        with: {
+          restaurant: true,
+        },
+      },
+    },
+  });
+
+  const cancelled: Booking[] = [];
+  for (const { booking } of unpaid) {
+    if (booking.status !== "pending") {
+      continue;
+    }
+
+    try {
+      const [cancelledBooking] = await cancelBookings(db, [booking], now);
+      await recordBookingEvent(
+        db,
+        {
+          bookingId: booking.id,
+          type: "status_changed",
+          changes: getStatusChanges(booking, cancelledBooking),
+          note: "Deposit not paid in time",
+        },
+        SCHEDULER
+      );
+      cancelled.push(cancelledBooking);
+    } catch (error) {
+      console.error(`Error cancelling unpaid booking ${booking.id}:`, error);
+    }
+  }
+
+  return cancelled;
+}
+
+// Run every periodic job as of now. Each job runs even if an earlier one fails,
+// and the failure is logged. Reminders and waitlist offer emails are only queued
+// when APP_URL is set, as their links can't point at a request's origin.
+export async function runScheduledJobs(
+  db: Database,
+  env: Pick<CloudflareEnv, "APP_URL" | "AUTH_SECRET" | "NOTIFICATION_TRANSPORT">,
+  now: Date = new Date()
+): Promise<ScheduledJobsResult> {
+  const result: ScheduledJobsResult = {
+    expiredOffers: 0,
+    expiredWaitlistEntries: 0,
+    completed: 0,
+    noShows: 0,
+    unpaidCancelled: 0,
+    remindersQueued: 0,
+    notificationsSent: 0,
+    notificationsFailed: 0,
+    webhooksDelivered: 0,
+    webhooksFailed: 0,
+  };
+
+  const run = async (job: string, task: () => Promise<void>) => {
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Error running scheduled job ${job}:`, error);
+    }
+  };
+
+  // Offer freed tables to the waitlist; the emails go out with the notifications job
+  const offerSeating = async (freed: Pick<Booking, "restaurantId" | "bookingDate">[]) => {
+    const offers = await offerFreedSeating(db, freed, now);
+    if (offers.length === 0) {
+      return;
+    }
+    if (!env.APP_URL) {
+      console.warn("APP_URL is not set, so waitlist offers were not emailed");
+      return;
+    }
+    await queueWaitlistOfferNotifications(
+      db,
+      offers,
+      { origin: env.APP_URL, secret: env.AUTH_SECRET }
+    );
+  };
+
+  await run("waitlist", async () => {
+    result.expiredWaitlistEntries = (await expireStaleWaitlistEntries(db, now)).length;
+
+    // Lapsed offers pass their tables on to the next guest waiting
+    const expiredOffers = await expireWaitlistOffers(db, now);
+    await offerSeating(expiredOffers);
+    result.expiredOffers = expiredOffers.length;
+  });
+
+  await run("close-out", async () => {
+    const { completed, noShows } = await closeOutPastBookings(db, now);
+    await settleDeposits(db, [...completed, ...noShows], now);
+    await queueWebhooks(db, "booking.status_changed", completed, now);
+    await queueWebhooks(db, "booking.no_show", noShows, now);
+    // A no-show's table is free for the rest of its seating
+    await offerSeating(noShows);
+    result.completed = completed.length;
+    result.noShows = noShows.length;
+  });
+
+  await run("deposits", async () => {
+    const unpaid = await cancelUnpaidBookings(db, now);
+    await settleDeposits(db, unpaid, now);
+    await queueWebhooks(db, "booking.cancelled", unpaid, now);
+    await offerSeating(unpaid);
+    result.unpaidCancelled = unpaid.length;
+  });
+
+  await run("reminders", async () => {
+    if (!env.APP_URL) {
+      console.warn("APP_URL is not set, so no reminders were sent");
+      return;
+    }
+    result.remindersQueued = await queueReminders(
+      db,
+      { origin: env.APP_URL, secret: env.AUTH_SECRET },
+      now
+    );
+  });
+
+  await run("notifications", async () => {
+    await reclaimStuckNotifications(db, now);
+    const { sent, failed } = await deliverNotifications(db, env.NOTIFICATION_TRANSPORT, now);
+    result.notificationsSent = sent;
+    result.notificationsFailed = failed;
+  });
+
+  // Also retries earlier calls that failed and are now due again
+  await run("webhooks", async () => {
+    await reclaimStuckWebhooks(db, now);
+    const { delivered, failed } = await deliverWebhooks(db, now);
+    result.webhooksDelivered = delivered;
+    result.webhooksFailed = failed;
+  });
+
+  return result;
+}
@@ -0,0 +1,46 @@
+// Helpers for the HH:MM and YYYY-MM-DD strings stored in the database
+
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTime(time: string): boolean {
+  return TIME_REGEX.test(time);
+}
+
+// Also rejects dates that don't exist, such as 2025-02-30, which Date rolls over into March
+export function isValidDate(date: string): boolean {
+  if (!DATE_REGEX.test(date)) {
+    return false;
+  }
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+// Calendar day of the week for a date, 0 = Sunday
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split("T")[0];
+}
+
+// Convert HH:MM to minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Convert minutes since midnight back to HH:MM
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// Closing at 00:00 means midnight at the end of the day (24:00)
+export function closingTimeToMinutes(time: string): number {
+  return time === "00:00" ? 1440 : timeToMinutes(time);
+}
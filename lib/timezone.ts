@@ -0,0 +1,96 @@
+// Bookings store wall-clock dates and times (YYYY-MM-DD, HH:MM) in the restaurant's
+// IANA timezone. These helpers relate them to real instants using Intl, so they work
+// the same in the Worker (which runs in UTC) and in local development.
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(timeZone: string, instant: Date): Record<string, string> {
+  return Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value])
+  );
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The wall-clock date and time in the timezone at an instant
+export function getZonedDateTime(
+  timeZone: string,
+  instant: Date = new Date()
+): { date: string; time: string } {
+  const parts = getZonedParts(timeZone, instant);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+// Minutes the timezone is ahead of UTC at an instant
+function getOffsetMinutes(timeZone: string, instant: Date): number {
+  const parts = getZonedParts(timeZone, instant);
+  const wallClockAsUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return Math.round((wallClockAsUtc - instant.getTime()) / 60000);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The instant at which the wall clock in the timezone shows this date and time.
+// When clocks go back, a repeated time resolves to its first occurrence. Times
+// skipped when clocks go forward don't exist; they resolve as if the clocks had
+// not changed yet (02:30 becomes 03:30). Check them with isExistingLocalTime.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const wallClockAsUtc = Date.parse(`${date}T${time}:00Z`);
+
+  // Try the offsets either side of any daylight saving change around this time
+  const candidates = [-DAY_MS, DAY_MS].map(
+    (shift) => wallClockAsUtc - getOffsetMinutes(timeZone, new Date(wallClockAsUtc + shift)) * 60000
+  );
+  const matching = candidates.filter((instant) => {
+    const zoned = getZonedDateTime(timeZone, new Date(instant));
+    return zoned.date === date && zoned.time === time;
+  });
+
+  return new Date(matching.length > 0 ? Math.min(...matching) : candidates[0]);
+}
+
+// False for wall-clock times skipped by a daylight saving change, e.g. 02:30 on the
+// night clocks jump from 02:00 to 03:00
+export function isExistingLocalTime(date: string, time: string, timeZone: string): boolean {
+  const roundTrip = getZonedDateTime(timeZone, zonedTimeToUtc(date, time, timeZone));
+  return roundTrip.date === date && roundTrip.time === time;
+}
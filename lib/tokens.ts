@@ -0,0 +1,96 @@
+// Compact HMAC-SHA256 signed tokens: base64url(JSON payload) + "." + base64url(signature).
+// Uses Web Crypto so tokens can be checked in middleware and route handlers alike.
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface TokenPayload {
+  typ: string; // What the token grants access to, checked by the caller
+  exp: number; // Expiry in seconds since the epoch
+}
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signToken<T extends TokenPayload>(payload: T, secret: string): Promise<string> {
+  const body = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const key = await getSigningKey(secret);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Hex HMAC-SHA256 of a message, for signatures sent in headers such as webhooks
+export async function signMessage(message: string, secret: string): Promise<string> {
+  const key = await getSigningKey(secret);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Returns the payload if the signature is valid, the type matches and it has not expired
+export async function verifyToken<T extends TokenPayload>(
+  token: string,
+  secret: string,
+  typ: T["typ"],
+  now: Date = new Date()
+): Promise<T | null> {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) {
+    return null;
+  }
+
+  try {
+    const key = await getSigningKey(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(body))) as T;
+    if (payload.typ !== typ || typeof payload.exp !== "number") {
+      return null;
+    }
+
+    return payload.exp * 1000 > now.getTime() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Compare secrets without leaking how many leading characters matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
@@ -0,0 +1,328 @@
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import {
+  waitlistEntries,
+  waitlistHoldTables,
+  type Booking,
+  type Database,
+  type WaitlistEntry,
+} from "@/db";
+import {
+  findSeatingConflict,
+  getAvailableSlots,
+  getTableOccupancy,
+  seatingRelations,
+} from "./availability";
+import type { Actor } from "./booking-events";
+import {
+  formatOpeningWindows,
+  getOpeningWindows,
+  getSeatingDuration,
+  type OpeningSchedule,
+} from "./booking-rules";
+import {
+  BookingError,
+  hasBookingOnDate,
+  insertBooking,
+  TABLE_CONFLICT_MESSAGE,
+} from "./bookings";
+import { isValidTime, timeToMinutes } from "./time";
+import { getZonedDateTime } from "./timezone";
+
+// How long a guest has to claim a table offered from the waitlist
+export const WAITLIST_OFFER_MINUTES = 15;
+
+// Entries still in the queue: waiting for a table or holding an offer
+export const ACTIVE_WAITLIST_STATUSES = ["waiting", "offered"];
+
+// Validate the range of times a guest would accept. It must overlap a time the
+// restaurant takes bookings on the date.
+export function validateWaitlistWindow(
+  schedule: OpeningSchedule,
+  date: string,
+  earliestTime: string,
+  latestTime: string
+): string | null {
+  if (!isValidTime(earliestTime) || !isValidTime(latestTime)) {
+    return "Invalid time format. Use HH:MM";
+  }
+
+  if (latestTime < earliestTime) {
+    return "latestTime cannot be before earliestTime";
+  }
+
+  const windows = getOpeningWindows(schedule, date);
+  if (windows.length === 0) {
+    return "Restaurant is closed on this day";
+  }
+
+  const earliestMinutes = timeToMinutes(earliestTime);
+  const latestMinutes = timeToMinutes(latestTime);
+  const bookable = windows.some(
+    (w) => w.openMinutes <= latestMinutes && w.lastSeatingMinutes >= earliestMinutes
+  );
+  return bookable ? null : `Restaurant hours: ${formatOpeningWindows(windows)}`;
+}
+
+// Mark offers that were not claimed in time as expired and release their tables
+export async function expireWaitlistOffers(
+  db: Database,
+  now: Date = new Date(),
+  restaurantId?: number
+): Promise<WaitlistEntry[]> {
+  const expired = await db
+    .update(waitlistEntries)
+    .set({ status: "expired", updatedAt: now })
+    .where(
+      and(
+        eq(waitlistEntries.status, "offered"),
+        lte(waitlistEntries.offerExpiresAt, now),
+        restaurantId ? eq(waitlistEntries.restaurantId, restaurantId) : undefined
+      )
+    )
+    .returning();
+
+  if (expired.length > 0) {
+    await db.delete(waitlistHoldTables).where(
+      inArray(waitlistHoldTables.waitlistEntryId, expired.map((e) => e.id))
+    );
+  }
+
+  return expired;
+}
+
+// Close entries still waiting once the latest time the guest would accept has
+// passed in the restaurant's timezone, as no table can be offered any more
+export async function expireStaleWaitlistEntries(
+  db: Database,
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  const waiting = await db.query.waitlistEntries.findMany({
+    where: eq(waitlistEntries.status, "waiting"),
+    with: {
+      restaurant: true,
+    },
+  });
+
+  const staleIds = waiting
+    .filter((entry) => {
+      const localNow = getZonedDateTime(entry.restaurant.timezone, now);
+      return (
+        entry.bookingDate < localNow.date ||
+        (entry.bookingDate === localNow.date && entry.latestTime < localNow.time)
+      );
+    })
+    .map((entry) => entry.id);
+
+  if (staleIds.length === 0) {
+    return [];
+  }
+
+  return db
+    .update(waitlistEntries)
+    .set({ status: "expired", updatedAt: now })
+    .where(and(inArray(waitlistEntries.id, staleIds), eq(waitlistEntries.status, "waiting")))
+    .returning();
+}
+
+// Offer free seating on a date to waiting guests, in the order they joined
+async function offerSeatingOnDate(
+  db: Database,
+  restaurantId: number,
+  date: string,
+  now: Date
+): Promise<WaitlistEntry[]> {
+  // Lapsed offers give their tables back before anything is handed out
+  await expireWaitlistOffers(db, now, restaurantId);
+
+  const waiting = await db.query.waitlistEntries.findMany({
+    where: and(
+      eq(waitlistEntries.restaurantId, restaurantId),
+      eq(waitlistEntries.bookingDate, date),
+      eq(waitlistEntries.status, "waiting")
+    ),
+    orderBy: [asc(waitlistEntries.createdAt), asc(waitlistEntries.id)],
+  });
+
+  if (waiting.length === 0) {
+    return [];
+  }
+
+  const restaurant = await db.query.restaurants.findFirst({
+    where: (restaurants, { eq }) => eq(restaurants.id, restaurantId),
+    with: seatingRelations,
+  });
+
+  if (!restaurant) {
+    return [];
+  }
+
+  const offered: WaitlistEntry[] = [];
+
+  for (const entry of waiting) {
+    // Each offer holds its tables, so later entries only see what is left
+    const slots = await getAvailableSlots(db, restaurant, date, entry.partySize, now);
+    const slot = slots.find((s) => s.time >= entry.earliestTime && s.time <= entry.latestTime);
+    if (!slot) {
+      continue;
+    }
+
+    const seating = slot.options[0];
+    const [offer] = await db
+      .update(waitlistEntries)
+      .set({
+        status: "offered",
+        offeredTime: slot.time,
+        offeredTableId: seating.tableIds[0],
+        offeredTableGroupId: seating.tableGroupId,
+        offeredDurationMinutes: getSeatingDuration(restaurant, entry.partySize),
+        offerExpiresAt: new Date(now.getTime() + WAITLIST_OFFER_MINUTES * 60 * 1000),
+        updatedAt: now,
+      })
+      .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, "waiting")))
+      .returning();
+
+    if (!offer) {
+      continue;
+    }
+
+    await db.insert(waitlistHoldTables).values(
+      seating.tableIds.map((id) => ({ waitlistEntryId: offer.id, tableId: id }))
+    );
+    offered.push(offer);
+  }
+
+  return offered;
+}
+
+// Offer seating freed on each restaurant and date to the waitlist. Failures are
+// logged rather than thrown, so they never undo the change that freed the tables.
+export async function offerFreedSeating(
+  db: Database,
+  freed: Pick<Booking, "restaurantId" | "bookingDate">[],
+  now: Date = new Date()
+): Promise<WaitlistEntry[]> {
+  const dates = new Map(freed.map((f) => [`${f.restaurantId}:${f.bookingDate}`, f]));
+  const offered: WaitlistEntry[] = [];
+
+  for (const { restaurantId, bookingDate } of dates.values()) {
+    try {
+      offered.push(...(await offerSeatingOnDate(db, restaurantId, bookingDate, now)));
+    } catch (error) {
+      console.error("Error offering freed seating to the waitlist:", error);
+    }
+  }
+
+  return offered;
+}
+
+// Whether the guest held an offer but let it lapse. The caller passes the tables
+// on with offerFreedSeating, so the next guest in line can be told about them.
+export function isOfferExpired(entry: WaitlistEntry, now: Date = new Date()): boolean {
+  return entry.status === "offered" && !!entry.offerExpiresAt && entry.offerExpiresAt <= now;
+}
+
+// Book the table held for the guest. The offer must still be open.
+export async function claimWaitlistOffer(
+  db: Database,
+  entry: WaitlistEntry,
+  actor: Actor,
+  options: { status?: "pending" | "confirmed" } = {},
+  now: Date = new Date()
+): Promise<Booking> {
+  if (entry.status === "booked") {
+    throw new BookingError("This offer has already been claimed", 409);
+  }
+
+  if (isOfferExpired(entry, now)) {
+    throw new BookingError("This offer has expired", 410);
+  }
+
+  if (
+    entry.status !== "offered" ||
+    !entry.offeredTime ||
+    !entry.offeredDurationMinutes ||
+    !entry.offeredTableId
+  ) {
+    throw new BookingError("There is no table on offer to claim", 409);
+  }
+
+  if (await hasBookingOnDate(db, entry.customerId, entry.restaurantId, entry.bookingDate)) {
+    throw new BookingError("You already have a booking at this restaurant on this date", 409);
+  }
+
+  const holds = await db.query.waitlistHoldTables.findMany({
+    where: eq(waitlistHoldTables.waitlistEntryId, entry.id),
+  });
+  const tableIds = holds.length > 0 ? holds.map((h) => h.tableId) : [entry.offeredTableId];
+
+  // The hold keeps other guests off the tables; make sure nothing slipped past it
+  const occupancy = await getTableOccupancy(db, entry.restaurantId, entry.bookingDate, now);
+  const conflict = findSeatingConflict(
+    occupancy.filter((o) => o.waitlistEntryId !== entry.id),
+    tableIds,
+    entry.offeredTime,
+    entry.offeredDurationMinutes
+  );
+  if (conflict) {
+    throw new BookingError(TABLE_CONFLICT_MESSAGE, 409);
+  }
+
+  // Take the offer before booking so a second claim can't book it twice
+  const [claimed] = await db
+    .update(waitlistEntries)
+    .set({ status: "booked", updatedAt: now })
+    .where(and(eq(waitlistEntries.id, entry.id), eq(waitlistEntries.status, "offered")))
+    .returning();
+
+  if (!claimed) {
+    throw new BookingError("This offer has already been claimed", 409);
+  }
+
+  const booking = await insertBooking(
+    db,
+    {
+      restaurantId: entry.restaurantId,
+      customerId: entry.customerId,
+      bookingDate: entry.bookingDate,
+      bookingTime: entry.offeredTime,
+      partySize: entry.partySize,
+      durationMinutes: entry.offeredDurationMinutes,
+      specialRequests: entry.specialRequests,
+    },
+    { tableIds, tableGroupId: entry.offeredTableGroupId },
+    actor,
+    { status: options.status, note: "Claimed from the waitlist" }
+  );
+
+  await db
+    .update(waitlistEntries)
+    .set({ bookingId: booking.id })
+    .where(eq(waitlistEntries.id, entry.id));
+  await db.delete(waitlistHoldTables).where(eq(waitlistHoldTables.waitlistEntryId, entry.id));
+
+  return booking;
+}
+
+// Take the guest off the waitlist, releasing any table held for them. The caller
+// passes it on to the next guest with offerFreedSeating.
+export async function leaveWaitlist(
+  db: Database,
+  entry: WaitlistEntry,
+  now: Date = new Date()
+): Promise<WaitlistEntry> {
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+    throw new BookingError("You are no longer on the waitlist for this date");
+  }
+
+  const [cancelled] = await db
+    .update(waitlistEntries)
+    .set({ status: "cancelled", updatedAt: now })
+    .where(eq(waitlistEntries.id, entry.id))
+    .returning();
+
+  if (entry.status === "offered") {
+    await db.delete(waitlistHoldTables).where(eq(waitlistHoldTables.waitlistEntryId, entry.id));
+  }
+
+  return cancelled;
+}
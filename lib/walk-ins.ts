@@ -0,0 +1,332 @@
+import { and, asc, eq } from "drizzle-orm";
+import { walkIns, walkInTables, type Database, type WalkIn } from "@/db";
+import {
+  findSeatingConflict,
+  getRequestedSeating,
+  getSeatingOptions,
+  getTableOccupancy,
+  type RestaurantWithDetails,
+  type SeatingOption,
+  type TableOccupancy,
+} from "./availability";
+import { getOpeningWindows, getSeatingDuration } from "./booking-rules";
+import { BookingError } from "./bookings";
+import { minutesToTime, timeToMinutes } from "./time";
+import { getZonedDateTime } from "./timezone";
+
+export const WALK_IN_STATUSES = ["queued", "seated", "completed", "left"];
+
+// Statuses a walk-in can move to from each status
+const WALK_IN_TRANSITIONS: Record<string, string[]> = {
+  queued: ["seated", "left"],
+  seated: ["completed"],
+};
+
+export interface WalkInDetails {
+  partyName: string;
+  partySize: number;
+  phone?: string;
+  notes?: string;
+  // Seat on this table or group; otherwise the best free one is picked
+  tableId?: number;
+  tableGroupId?: number;
+  // Join the queue even if a table is free, e.g. the party is waiting at the bar
+  queue?: boolean;
+}
+
+// Earliest start from fromMinutes up to untilMinutes at which a table that fits
+// the party is free for a whole seating. Ties go to the smallest fitting option.
+export function findEarliestSeating(
+  options: SeatingOption[],
+  occupancy: TableOccupancy[],
+  partySize: number,
+  durationMinutes: number,
+  fromMinutes: number,
+  untilMinutes: number
+): { seating: SeatingOption; startMinutes: number } | undefined {
+  let earliest: { seating: SeatingOption; startMinutes: number } | undefined;
+
+  const fitting = options
+    .filter((option) => option.capacity >= partySize)
+    .sort(
+      (a, b) =>
+        a.tableIds.length - b.tableIds.length ||
+        a.capacity - b.capacity ||
+        a.tableIds[0] - b.tableIds[0]
+    );
+
+  for (const option of fitting) {
+    // A table can only come free when a party sitting at it leaves
+    const candidates = [
+      fromMinutes,
+      ...occupancy
+        .filter((o) => option.tableIds.includes(o.tableId) && o.endMinutes > fromMinutes)
+        .map((o) => o.endMinutes),
+    ].sort((a, b) => a - b);
+
+    const startMinutes = candidates.find(
+      (minutes) =>
+        minutes <= untilMinutes &&
+        !findSeatingConflict(occupancy, option.tableIds, minutesToTime(minutes), durationMinutes)
+    );
+
+    if (startMinutes !== undefined && (!earliest || startMinutes < earliest.startMinutes)) {
+      earliest = { seating: option, startMinutes };
+    }
+  }
+
+  return earliest;
+}
+
+// When service ends on the date: the close of the last opening window, or
+// midnight when the restaurant has no hours that day
+function getServiceEndMinutes(restaurant: RestaurantWithDetails, date: string): number {
+  const windows = getOpeningWindows(restaurant, date);
+  return windows.length > 0 ? Math.max(...windows.map((w) => w.closeMinutes)) : 24 * 60;
+}
+
+// Estimate how long each queued party will wait by seating them in the order they
+// arrived as tables come free. Null means no table is expected before service ends.
+export function quoteWaitTimes(
+  restaurant: RestaurantWithDetails,
+  occupancy: TableOccupancy[],
+  queue: Pick<WalkIn, "id" | "partySize">[],
+  date: string,
+  nowMinutes: number
+): Map<number, number | null> {
+  const options = getSeatingOptions(restaurant);
+  const untilMinutes = getServiceEndMinutes(restaurant, date);
+  const projected = [...occupancy];
+  const quotes = new Map<number, number | null>();
+
+  for (const party of queue) {
+    const durationMinutes = getSeatingDuration(restaurant, party.partySize);
+    const next = findEarliestSeating(
+      options,
+      projected,
+      party.partySize,
+      durationMinutes,
+      nowMinutes,
+      untilMinutes
+    );
+
+    if (!next) {
+      quotes.set(party.id, null);
+      continue;
+    }
+
+    quotes.set(party.id, next.startMinutes - nowMinutes);
+    // Parties further back can't have the tables this one is expected to take
+    projected.push(
+      ...next.seating.tableIds.map((tableId) => ({
+        bookingId: null,
+        waitlistEntryId: null,
+        walkInId: party.id,
+        tableId,
+        startMinutes: next.startMinutes,
+        endMinutes: next.startMinutes + durationMinutes,
+      }))
+    );
+  }
+
+  return quotes;
+}
+
+async function getQueue(db: Database, restaurantId: number, date: string): Promise<WalkIn[]> {
+  return db.query.walkIns.findMany({
+    where: and(
+      eq(walkIns.restaurantId, restaurantId),
+      eq(walkIns.date, date),
+      eq(walkIns.status, "queued")
+    ),
+    orderBy: [asc(walkIns.arrivalTime), asc(walkIns.id)],
+  });
+}
+
+// Pick the seating for a party sitting down now: the requested table or group if it is
+// free for a whole seating, otherwise the best free option
+function findSeatingNow(
+  restaurant: RestaurantWithDetails,
+  occupancy: TableOccupancy[],
+  partySize: number,
+  time: string,
+  requested: { tableId?: number; tableGroupId?: number }
+): SeatingOption | undefined {
+  const durationMinutes = getSeatingDuration(restaurant, partySize);
+
+  if (requested.tableId || requested.tableGroupId) {
+    const result = getRequestedSeating(restaurant, partySize, requested);
+    if ("error" in result) {
+      throw new BookingError(result.error, result.status);
+    }
+
+    const conflict = findSeatingConflict(occupancy, result.seating.tableIds, time, durationMinutes);
+    if (conflict) {
+      throw new BookingError(
+        conflict.startMinutes > timeToMinutes(time)
+          ? `This table is booked at ${minutesToTime(conflict.startMinutes)}, before the party would finish`
+          : "This table is occupied",
+        409
+      );
+    }
+
+    return result.seating;
+  }
+
+  const minutes = timeToMinutes(time);
+  return findEarliestSeating(
+    getSeatingOptions(restaurant),
+    occupancy,
+    partySize,
+    durationMinutes,
+    minutes,
+    minutes
+  )?.seating;
+}
+
+async function seatOnTables(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  walkIn: WalkIn,
+  seating: SeatingOption,
+  time: string,
+  now: Date
+): Promise<WalkIn> {
+  const [seated] = await db
+    .update(walkIns)
+    .set({
+      status: "seated",
+      tableId: seating.tableIds[0],
+      tableGroupId: seating.tableGroupId,
+      seatedTime: time,
+      durationMinutes: getSeatingDuration(restaurant, walkIn.partySize),
+      updatedAt: now,
+    })
+    .where(eq(walkIns.id, walkIn.id))
+    .returning();
+
+  await db.insert(walkInTables).values(
+    seating.tableIds.map((id) => ({ walkInId: walkIn.id, tableId: id }))
+  );
+
+  return seated;
+}
+
+// Record a party arriving at the door. They are seated straight away when a table is
+// free, or queued with a quoted wait computed from the tables' current seatings.
+export async function addWalkIn(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  details: WalkInDetails,
+  now: Date = new Date()
+): Promise<WalkIn> {
+  const { date, time } = getZonedDateTime(restaurant.timezone, now);
+  const occupancy = await getTableOccupancy(db, restaurant.id, date, now);
+
+  const seating = details.queue && !details.tableId && !details.tableGroupId
+    ? undefined
+    : findSeatingNow(restaurant, occupancy, details.partySize, time, details);
+
+  let quotedWaitMinutes: number | null = null;
+  if (!seating) {
+    // Quote against everyone already waiting; the new party goes to the back
+    const queue = await getQueue(db, restaurant.id, date);
+    const quotes = quoteWaitTimes(
+      restaurant,
+      occupancy,
+      [...queue, { id: 0, partySize: details.partySize }],
+      date,
+      timeToMinutes(time)
+    );
+    quotedWaitMinutes = quotes.get(0) ?? null;
+  }
+
+  const [walkIn] = await db
+    .insert(walkIns)
+    .values({
+      restaurantId: restaurant.id,
+      partyName: details.partyName,
+      phone: details.phone || null,
+      partySize: details.partySize,
+      date,
+      arrivalTime: time,
+      status: "queued",
+      quotedWaitMinutes,
+      notes: details.notes || null,
+    })
+    .returning();
+
+  return seating ? seatOnTables(db, restaurant, walkIn, seating, time, now) : walkIn;
+}
+
+// List the walk-ins on a date. Queued parties get a fresh wait estimate.
+export async function listWalkIns(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  date: string,
+  now: Date = new Date()
+) {
+  const entries = await db.query.walkIns.findMany({
+    where: and(eq(walkIns.restaurantId, restaurant.id), eq(walkIns.date, date)),
+    with: {
+      table: true,
+      tableGroup: true,
+    },
+    orderBy: [asc(walkIns.arrivalTime), asc(walkIns.id)],
+  });
+
+  const localNow = getZonedDateTime(restaurant.timezone, now);
+  const queue = entries.filter((w) => w.status === "queued");
+  const quotes = date === localNow.date && queue.length > 0
+    ? quoteWaitTimes(
+        restaurant,
+        await getTableOccupancy(db, restaurant.id, date, now),
+        queue,
+        date,
+        timeToMinutes(localNow.time)
+      )
+    : new Map<number, number | null>();
+
+  return entries.map((walkIn) => ({
+    ...walkIn,
+    estimatedWaitMinutes: walkIn.status === "queued" ? quotes.get(walkIn.id) ?? null : null,
+  }));
+}
+
+// Move a walk-in along: seat a queued party, or record that they left or finished
+export async function updateWalkInStatus(
+  db: Database,
+  restaurant: RestaurantWithDetails,
+  walkIn: WalkIn,
+  status: string,
+  requested: { tableId?: number; tableGroupId?: number } = {},
+  now: Date = new Date()
+): Promise<WalkIn> {
+  if (!WALK_IN_TRANSITIONS[walkIn.status]?.includes(status)) {
+    throw new BookingError(`Cannot change a ${walkIn.status} walk-in to ${status}`);
+  }
+
+  if (status === "seated") {
+    const { date, time } = getZonedDateTime(restaurant.timezone, now);
+    if (walkIn.date !== date) {
+      throw new BookingError("Only today's walk-ins can be seated");
+    }
+
+    const occupancy = await getTableOccupancy(db, restaurant.id, date, now);
+    const seating = findSeatingNow(restaurant, occupancy, walkIn.partySize, time, requested);
+    if (!seating) {
+      throw new BookingError("No table is free for this party yet", 409);
+    }
+
+    return seatOnTables(db, restaurant, walkIn, seating, time, now);
+  }
+
+  // Leaving or finishing frees the tables, as only seated walk-ins occupy them
+  const [updated] = await db
+    .update(walkIns)
+    .set({ status, updatedAt: now })
+    .where(eq(walkIns.id, walkIn.id))
+    .returning();
+
+  return updated;
+}
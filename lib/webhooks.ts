@@ -0,0 +1,326 @@
+import { and, asc, eq, inArray, lte } from "drizzle-orm";
+import {
+  webhookDeliveries,
+  webhookSubscriptions,
+  type Booking,
+  type Database,
+  type InsertWebhookDelivery,
+  type WebhookDelivery,
+  type WebhookSubscription,
+} from "@/db";
+import { signMessage } from "./tokens";
+
+export const WEBHOOK_EVENTS = [
+  "booking.created",
+  "booking.updated",
+  "booking.status_changed",
+  "booking.cancelled",
+  "booking.no_show",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Sent by the test-fire endpoint to any subscription, whatever its events
+const TEST_EVENT = "webhook.test";
+
+// Receivers check this header against an HMAC-SHA256 of "<t>.<body>" keyed with
+// the subscription's secret: "t=<unix seconds>,v1=<hex signature>"
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+
+// A failed call is retried until it has been tried this often, waiting 1, 2, 4, 8
+// then 16 minutes between tries
+const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_MINUTES = 1;
+
+// Calls made per delivery run, and how long each may take
+const DELIVERY_BATCH_SIZE = 25;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// A call still sending this long after it was claimed was left behind by a delivery
+// that stopped part way, and is queued again
+const SENDING_TIMEOUT_MINUTES = 10;
+
+// D1 binds at most 100 parameters per statement and each delivery row uses 5
+const DELIVERIES_PER_INSERT = 20;
+
+export interface WebhookSubscriptionInput {
+  url: string;
+  events: string[];
+  isActive?: boolean;
+}
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+// Only the fields given are checked, so this also validates partial updates
+export function validateWebhookSubscription(input: Partial<WebhookSubscriptionInput>): string | null {
+  if (input.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(input.url);
+    } catch {
+      return "Invalid url";
+    }
+    // Payloads hold guest details, so they only travel over https, except to this machine
+    const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocal)) {
+      return "url must use https";
+    }
+  }
+
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      return "events must be a non-empty array";
+    }
+    const unknown = input.events.filter((event) => !isWebhookEvent(event));
+    if (unknown.length > 0) {
+      return `Unknown events: ${unknown.join(", ")}. Use ${WEBHOOK_EVENTS.join(", ")}`;
+    }
+  }
+
+  if (input.isActive !== undefined && typeof input.isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+
+  return null;
+}
+
+export function createWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// The event for a booking moving to the status
+export function getStatusWebhookEvent(status: string): WebhookEvent {
+  switch (status) {
+    case "cancelled":
+      return "booking.cancelled";
+    case "no_show":
+      return "booking.no_show";
+    default:
+      return "booking.status_changed";
+  }
+}
+
+function buildPayload(event: string, data: Record<string, unknown>, now: Date): string {
+  return JSON.stringify({
+    id: crypto.randomUUID(),
+    event,
+    createdAt: now.toISOString(),
+    data,
+  });
+}
+
+// Queue a call to every active subscription of the bookings' restaurants that
+// wants the event. Returns how many calls were queued.
+export async function queueWebhooks(
+  db: Database,
+  event: WebhookEvent,
+  changedBookings: Booking[],
+  now: Date = new Date()
+): Promise<number> {
+  if (changedBookings.length === 0) {
+    return 0;
+  }
+
+  const subscriptions = await db.query.webhookSubscriptions.findMany({
+    where: and(
+      inArray(
+        webhookSubscriptions.restaurantId,
+        [...new Set(changedBookings.map((b) => b.restaurantId))]
+      ),
+      eq(webhookSubscriptions.isActive, true)
+    ),
+  });
+
+  const rows: InsertWebhookDelivery[] = changedBookings.flatMap((booking) =>
+    subscriptions
+      .filter((s) => s.restaurantId === booking.restaurantId && s.events.includes(event))
+      .map((subscription) => ({
+        subscriptionId: subscription.id,
+        bookingId: booking.id,
+        event,
+        payload: buildPayload(event, { booking }, now),
+        nextAttemptAt: now,
+      }))
+  );
+
+  for (let i = 0; i < rows.length; i += DELIVERIES_PER_INSERT) {
+    await db.insert(webhookDeliveries).values(rows.slice(i, i + DELIVERIES_PER_INSERT));
+  }
+  return rows.length;
+}
+
+// Make one call. Anything but a 2xx response within the timeout is a failure.
+async function callWebhook(
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+  now: Date
+): Promise<{ responseStatus: number | null; error: string | null }> {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const signature = await signMessage(`${timestamp}.${delivery.payload}`, subscription.secret);
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": String(delivery.id),
+        [SIGNATURE_HEADER]: `t=${timestamp},v1=${signature}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Responded with ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Call the subscription and log the outcome, queueing a retry after a failure
+// unless retries are off or the attempts are used up
+async function attemptDelivery(
+  db: Database,
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery,
+  now: Date,
+  retry: boolean
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1;
+  const { responseStatus, error } = await callWebhook(subscription, delivery, now);
+  const canRetry = retry && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  const [updated] = await db
+    .update(webhookDeliveries)
+    .set({
+      status: error ? (canRetry ? "queued" : "failed") : "delivered",
+      attempts,
+      responseStatus,
+      lastError: error,
+      deliveredAt: error ? null : now,
+      nextAttemptAt: new Date(
+        now.getTime() + RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60 * 1000
+      ),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id))
+    .returning();
+  return updated;
+}
+
+// Make the queued calls that are due, retries included. Routes run this after
+// responding and the scheduled jobs run it to pick up retries.
+export async function deliverWebhooks(
+  db: Database,
+  now: Date = new Date()
+): Promise<{ delivered: number; failed: number }> {
+  const due = await db.query.webhookDeliveries.findMany({
+    where: and(eq(webhookDeliveries.status, "queued"), lte(webhookDeliveries.nextAttemptAt, now)),
+    with: {
+      subscription: true,
+    },
+    orderBy: [asc(webhookDeliveries.id)],
+    limit: DELIVERY_BATCH_SIZE,
+  });
+
+  let delivered = 0;
+  let failed = 0;
+  for (const { subscription, ...delivery } of due) {
+    // Calls queued before their subscription was disabled are dropped
+    if (!subscription.isActive) {
+      await db
+        .update(webhookDeliveries)
+        .set({ status: "failed", lastError: "Subscription is disabled" })
+        .where(eq(webhookDeliveries.id, delivery.id));
+      failed++;
+      continue;
+    }
+
+    // Claim the call so a delivery running alongside doesn't make it too
+    const [claimed] = await db
+      .update(webhookDeliveries)
+      .set({ status: "sending", claimedAt: now })
+      .where(and(eq(webhookDeliveries.id, delivery.id), eq(webhookDeliveries.status, "queued")))
+      .returning();
+    if (!claimed) {
+      continue;
+    }
+
+    const result = await attemptDelivery(db, subscription, claimed, now, true);
+    if (result.status === "delivered") {
+      delivered++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { delivered, failed };
+}
+
+// Queue again the calls a delivery claimed but never finished, e.g. because the
+// worker was stopped mid-call, so they are made on the next run. Returns how many
+// were queued again.
+export async function reclaimStuckWebhooks(
+  db: Database,
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - SENDING_TIMEOUT_MINUTES * 60 * 1000);
+  const reclaimed = await db
+    .update(webhookDeliveries)
+    .set({ status: "queued", nextAttemptAt: now, lastError: "Delivery was interrupted" })
+    .where(and(eq(webhookDeliveries.status, "sending"), lte(webhookDeliveries.claimedAt, cutoff)))
+    .returning({ id: webhookDeliveries.id });
+
+  return reclaimed.length;
+}
+
+// Tell subscribers about bookings a route has just changed, calling them after
+// the response is returned. Failures are logged rather than thrown, as the
+// change itself is already saved.
+export async function emitBookingWebhooks(
+  db: Database,
+  ctx: Pick<ExecutionContext, "waitUntil">,
+  event: WebhookEvent,
+  changedBookings: Booking[]
+): Promise<void> {
+  try {
+    if ((await queueWebhooks(db, event, changedBookings)) === 0) {
+      return;
+    }
+  } catch (error) {
+    console.error("Error queueing webhooks:", error);
+    return;
+  }
+
+  ctx.waitUntil(
+    deliverWebhooks(db).catch((error) => console.error("Error delivering webhooks:", error))
+  );
+}
+
+// Call the subscription straight away with a test event and log it like any
+// other delivery. Test calls are not retried, and work while a subscription is
+// disabled so it can be checked before it is turned on.
+export async function sendTestWebhook(
+  db: Database,
+  subscription: WebhookSubscription,
+  now: Date = new Date()
+): Promise<WebhookDelivery> {
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      subscriptionId: subscription.id,
+      event: TEST_EVENT,
+      payload: buildPayload(TEST_EVENT, { subscriptionId: subscription.id }, now),
+      status: "sending",
+      nextAttemptAt: now,
+    })
+    .returning();
+
+  return attemptDelivery(db, subscription, delivery, now, false);
+}
@@ -1,27 +1,54 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { AUTH_HEADERS, authenticate } from '@/lib/auth'
 
-export function middleware(request: NextRequest) {
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, PATCH, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+}
+
+export async function middleware(request: NextRequest) {
   // Handle preflight OPTIONS request
   if (request.method === 'OPTIONS') {
     return new NextResponse(null, {
       status: 200,
       headers: {
-        'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, PATCH, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With',
+        ...corsHeaders,
         'Access-Control-Max-Age': '86400', // 24 hours
       },
     })
   }
 
+  // Verify the bearer token, if any. Anonymous requests are treated as guests.
+  const session = await authenticate(request.headers.get('authorization'), {
+    authSecret: process.env.AUTH_SECRET,
+    adminApiKey: process.env.ADMIN_API_KEY,
+  })
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Invalid or expired credentials' },
+      { status: 401, headers: corsHeaders }
+    )
+  }
+
+  // Forward the verified session to route handlers, never trusting client-sent values
+  const requestHeaders = new Headers(request.headers)
+  Object.values(AUTH_HEADERS).forEach((header) => requestHeaders.delete(header))
+  requestHeaders.set(AUTH_HEADERS.role, session.role)
+  if (session.subject) {
+    requestHeaders.set(AUTH_HEADERS.subject, session.subject)
+  }
+  if (session.restaurantId) {
+    requestHeaders.set(AUTH_HEADERS.restaurantId, String(session.restaurantId))
+  }
+
   // Get the response
-  const response = NextResponse.next()
+  const response = NextResponse.next({ request: { headers: requestHeaders } })
 
   // Add CORS headers to all responses
-  response.headers.set('Access-Control-Allow-Origin', '*')
-  response.headers.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, PATCH, OPTIONS')
-  response.headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Requested-With')
+  Object.entries(corsHeaders).forEach(([name, value]) => response.headers.set(name, value))
 
   return response
 }
@@ -30,4 +57,3 @@ export function middleware(request: NextRequest) {
 export const config = {
   matcher: '/api/:path*',
 }
-
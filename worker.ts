@@ -0,0 +1,20 @@
+// Worker entry point: OpenNext serves requests and cron triggers run the
+// periodic booking jobs. See https://opennext.js.org/cloudflare/howtos/custom-worker
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore `.open-next/worker.js` is generated by the OpenNext build
+import { default as handler } from "./.open-next/worker.js";
+import { getDb } from "./db";
+import { runScheduledJobs } from "./lib/scheduled-jobs";
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(controller, env, ctx) {
+    const db = getDb(env.DB);
+    ctx.waitUntil(
+      runScheduledJobs(db, env, new Date(controller.scheduledTime)).then((result) =>
+        console.log(`Scheduled jobs finished for ${controller.cron}:`, result)
+      )
+    );
+  },
+} satisfies ExportedHandler<CloudflareEnv>;